@@ -1,20 +1,78 @@
-import React, { useState, useEffect } from 'react';
-import { ChatInterface } from './components/ChatInterface';
-import { ImageWorkspace } from './components/ImageWorkspace';
-import { GeneratedImage, GenerationModel, AspectRatio } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ChatInterface, WELCOME_MESSAGE } from './components/ChatInterface';
+import { ImageWorkspace, GenerateRequest } from './components/ImageWorkspace';
+import { GeneratedImage, GenerationModel, AspectRatio, ChatMessage, ChatThread, GenerationConfig, StylePreset, MuseToolCall, ReferenceImage, MAX_REFERENCE_IMAGES, Character } from './types';
 import { Button } from './components/Button';
+import { useAIProvider } from './services/providers';
+import { PromptBlock } from './services/promptBlocks';
+import { runToolCall, ToolResult } from './services/museTools';
+import { SavedUsage, usageMeter } from './services/usageMeter';
+import { notifyError, toasts } from './services/toasts';
+import { ToastStack } from './components/ToastStack';
+import { downloadBlob, readGenerationRecord } from './services/exportService';
+import { createImageId } from './services/ids';
+import { createProjectBundle, mergeProjects, Project, ProjectImportMode, readProjectBundle } from './services/projectBundle';
+import { fitConfigToModel } from './services/modelRegistry';
+import { loadImages, saveImage, loadThreads, saveThread, deleteThread, loadSetting, saveSetting, purgeImagesOlderThan, loadPresets, savePreset, deletePreset, loadCharacters, saveCharacter, deleteCharacter, clearWorkspace, DEFAULT_THREAD_ID, DEFAULT_THREAD_NAME } from './services/storageService';
+
+const CONFIG_SETTING_KEY = 'generationConfig';
+const ACTIVE_THREAD_SETTING_KEY = 'activeThreadId';
+const USAGE_SETTING_KEY = 'usage';
+
+const createThread = (name: string, id: string = Date.now().toString()): ChatThread => ({
+  id,
+  name,
+  messages: [WELCOME_MESSAGE],
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const DEFAULT_CONFIG: GenerationConfig = {
+  aspectRatio: AspectRatio.Square,
+  model: GenerationModel.Flash,
+  negativePrompt: ''
+};
 
 function App() {
   const [prompt, setPrompt] = useState<string>('');
   const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
+  const [threads, setThreads] = useState<ChatThread[]>([createThread(DEFAULT_THREAD_NAME, DEFAULT_THREAD_ID)]);
+  const [activeThreadId, setActiveThreadId] = useState<string>(DEFAULT_THREAD_ID);
+  const [config, setConfig] = useState<GenerationConfig>(DEFAULT_CONFIG);
+  const [presets, setPresets] = useState<StylePreset[]>([]);
+  const [generateRequest, setGenerateRequest] = useState<GenerateRequest | null>(null);
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
+  const [characters, setCharacters] = useState<Character[]>([]);
   const [hasApiKey, setHasApiKey] = useState(false);
   const [checkingKey, setCheckingKey] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const provider = useAIProvider();
+  // Last persisted version of each thread, so only changed threads are re-saved
+  const savedThreadsRef = useRef<Map<string, ChatThread>>(new Map());
+
+  const activeThread = threads.find(t => t.id === activeThreadId) || threads[0];
+  const messages = activeThread.messages;
+
+  // Bound to a thread id, so a reply still streaming after the user
+  // switches threads keeps landing in the thread it was asked in
+  const setThreadMessages = (threadId: string): React.Dispatch<React.SetStateAction<ChatMessage[]>> => (action) => {
+    setThreads(prev => prev.map(t => t.id === threadId
+      ? { ...t, messages: typeof action === 'function' ? action(t.messages) : action, updatedAt: new Date() }
+      : t
+    ));
+  };
+  const setMessages = useMemo(() => setThreadMessages(activeThread.id), [activeThread.id]);
 
   // Check for API Key selection on mount
   useEffect(() => {
     const checkKey = async () => {
       try {
-        if (window.aistudio?.hasSelectedApiKey) {
+        if (!provider.requiresApiKey) {
+          // Mock provider or backend proxy: nothing to select in the browser
+          setHasApiKey(true);
+        } else if (window.aistudio?.hasSelectedApiKey) {
           const has = await window.aistudio.hasSelectedApiKey();
           setHasApiKey(has);
         } else {
@@ -30,8 +88,73 @@ function App() {
       }
     };
     checkKey();
+  }, [provider]);
+
+  // Restore the previous session from IndexedDB
+  useEffect(() => {
+    const restoreSession = async () => {
+      try {
+        const [images, savedThreads, savedConfig, savedActiveThreadId, savedPresets, savedUsage, savedCharacters] = await Promise.all([
+          loadImages(),
+          loadThreads(),
+          loadSetting<GenerationConfig>(CONFIG_SETTING_KEY),
+          loadSetting<string>(ACTIVE_THREAD_SETTING_KEY),
+          loadPresets(),
+          loadSetting<SavedUsage>(USAGE_SETTING_KEY),
+          loadCharacters()
+        ]);
+        setGeneratedImages(images);
+        setPresets(savedPresets);
+        setCharacters(savedCharacters);
+        if (savedThreads.length > 0) {
+          savedThreadsRef.current = new Map(savedThreads.map(t => [t.id, t]));
+          setThreads(savedThreads);
+          setActiveThreadId(savedThreads.some(t => t.id === savedActiveThreadId) ? savedActiveThreadId! : savedThreads[0].id);
+        }
+        if (savedConfig) setConfig({ ...DEFAULT_CONFIG, ...savedConfig });
+        if (savedUsage) usageMeter.restore(savedUsage);
+      } catch (e) {
+        console.error("Error restoring session:", e);
+      } finally {
+        setIsRestoring(false);
+      }
+    };
+    restoreSession();
   }, []);
 
+  // Persist threads + config once restored (otherwise defaults would overwrite saved data)
+  useEffect(() => {
+    if (isRestoring) return;
+    for (const thread of threads) {
+      if (savedThreadsRef.current.get(thread.id) === thread) continue;
+      savedThreadsRef.current.set(thread.id, thread);
+      saveThread(thread).catch(e => console.error("Error saving thread:", e));
+    }
+  }, [threads, isRestoring]);
+
+  useEffect(() => {
+    if (isRestoring) return;
+    saveSetting(ACTIVE_THREAD_SETTING_KEY, activeThreadId).catch(e => console.error("Error saving active thread:", e));
+  }, [activeThreadId, isRestoring]);
+
+  useEffect(() => {
+    if (isRestoring) return;
+    saveSetting(CONFIG_SETTING_KEY, config).catch(e => console.error("Error saving config:", e));
+  }, [config, isRestoring]);
+
+  // Daily totals, prices and budgets survive reloads; session totals don't
+  useEffect(() => {
+    if (isRestoring) return;
+    return usageMeter.subscribe(() => {
+      const { days, prices, budget } = usageMeter.getState();
+      saveSetting<SavedUsage>(USAGE_SETTING_KEY, { days, prices, budget }).catch(e => console.error("Error saving usage:", e));
+    });
+  }, [isRestoring]);
+
+  const persistImage = (image: GeneratedImage) => {
+    saveImage(image).catch(e => console.error("Error saving image:", e));
+  };
+
   const handleConnectApiKey = async () => {
     try {
       if (window.aistudio?.openSelectKey) {
@@ -41,7 +164,7 @@ function App() {
       setHasApiKey(true);
     } catch (e) {
       console.error("Error selecting key:", e);
-      alert("Failed to open key selector. Please try again.");
+      toasts.show({ kind: 'auth', title: "Couldn't open the key selector", message: e instanceof Error ? e.message : String(e), nextStep: 'Please try again.' });
     }
   };
 
@@ -49,25 +172,257 @@ function App() {
     setPrompt(newPrompt);
   };
 
+  /**
+   * Fill the prompt and settings from a Muse prompt block. The block wins,
+   * then its preset; model and aspect otherwise keep the current choice.
+   * The negative prompt is specific to an idea, so it is never carried over.
+   */
+  const handleUsePromptBlock = (block: PromptBlock, generateNow: boolean) => {
+    const preset = block.preset
+      ? presets.find(p => p.name.toLowerCase() === block.preset!.toLowerCase())
+      : undefined;
+    const nextConfig = fitConfigToModel({
+      ...config,
+      model: block.model ?? preset?.model ?? config.model,
+      aspectRatio: block.aspectRatio ?? preset?.aspectRatio ?? config.aspectRatio,
+      negativePrompt: block.negativePrompt ?? preset?.negativePrompt ?? ''
+    });
+    setPrompt(block.prompt);
+    setConfig(nextConfig);
+    if (generateNow) setGenerateRequest({ prompt: block.prompt, config: nextConfig });
+  };
+
   const handleImageGenerated = (image: GeneratedImage) => {
     setGeneratedImages(prev => [image, ...prev]);
+    persistImage(image);
   };
 
-  const handleImportImage = (base64: string) => {
+  const handleImageUpdated = (image: GeneratedImage) => {
+    setGeneratedImages(prev => prev.map(img => img.id === image.id ? image : img));
+    persistImage(image);
+  };
+
+  const handleImportImage = (base64: string, label = "Imported from Chat") => {
+    // Our own exports carry their generation record; anything else gets defaults
+    const record = readGenerationRecord(base64);
     const importedImage: GeneratedImage = {
-        id: Date.now().toString(),
+        id: createImageId(),
         url: base64,
-        prompt: "Imported from Chat",
+        prompt: record?.prompt || label,
+        negativePrompt: record?.negativePrompt,
         timestamp: new Date(),
-        aspectRatio: AspectRatio.Square, // Default
-        model: GenerationModel.Flash, // Default assumption
-        source: 'imported'
+        aspectRatio: record?.aspectRatio || AspectRatio.Square,
+        model: record?.model || GenerationModel.Flash,
+        source: 'imported',
+        operation: 'import',
+        threadId: activeThread.id
     };
+    if (record) {
+      setPrompt(record.prompt);
+      setConfig(prev => ({
+        ...prev,
+        model: record.model as GenerationModel,
+        aspectRatio: record.aspectRatio as AspectRatio,
+        negativePrompt: record.negativePrompt || ''
+      }));
+    }
     setGeneratedImages(prev => [importedImage, ...prev]);
+    persistImage(importedImage);
     // The ImageWorkspace useEffect will automatically select this new image
   };
 
-  if (checkingKey) {
+  // New references start as "style"; the tray lets the user pick another role
+  const handleAddReference = (url: string, origin: ReferenceImage['origin'], imageId?: string) => {
+    if (references.some(ref => ref.url === url)) return;
+    if (references.length >= MAX_REFERENCE_IMAGES) {
+      toasts.show({
+        kind: 'info',
+        title: 'Reference limit reached',
+        message: `A generation can use up to ${MAX_REFERENCE_IMAGES} reference images. Remove one to add another.`
+      });
+      return;
+    }
+    // Several uploads can land in one render, so re-check against the latest list
+    setReferences(prev => prev.length >= MAX_REFERENCE_IMAGES || prev.some(ref => ref.url === url)
+      ? prev
+      : [...prev, { id: `ref-${Date.now()}-${prev.length}`, url, role: 'style', origin, imageId }]
+    );
+  };
+
+  /**
+   * Run a tool call the user approved in chat. Results land in the gallery
+   * like any other generation; the chat shows them inline.
+   */
+  const handleRunToolCall = async (call: MuseToolCall): Promise<ToolResult> => {
+    const result = await runToolCall(call, { provider, images: generatedImages, threadId: activeThread.id, config });
+    // Add oldest first so the first result ends up newest (and selected)
+    [...result.created].reverse().forEach(handleImageGenerated);
+    if (result.updated) handleImageUpdated(result.updated);
+    return result;
+  };
+
+  /**
+   * Remove images and chat messages created before the cutoff.
+   * Returns the number of items removed.
+   */
+  const handlePurge = async (cutoff: Date): Promise<number> => {
+    // Messages sent while purging are newer than the cutoff, so counting now is exact
+    const removedMessages = threads.reduce(
+      (sum, thread) => sum + thread.messages.filter(m => m.timestamp < cutoff).length,
+      0
+    );
+    const removedIds = await purgeImagesOlderThan(cutoff);
+    setGeneratedImages(prev => prev.filter(img => !removedIds.includes(img.id)));
+    // Functional update, so threads changed during the purge aren't rolled back
+    setThreads(prev => prev.map(thread => {
+      const kept = thread.messages.filter(m => m.timestamp >= cutoff);
+      if (kept.length === thread.messages.length) return thread;
+      return { ...thread, messages: kept.length > 0 ? kept : [WELCOME_MESSAGE], updatedAt: new Date() };
+    }));
+
+    return removedIds.length + removedMessages;
+  };
+
+  // --- Style presets ---
+
+  const sortPresets = (list: StylePreset[]) => [...list].sort((a, b) => a.name.localeCompare(b.name));
+
+  /**
+   * Fill the workspace prompt and adopt the preset's preferred settings.
+   * Settings the preset leaves unset keep their current value.
+   */
+  const handleApplyPreset = (preset: StylePreset, filledPrompt: string) => {
+    setPrompt(filledPrompt);
+    setConfig(prev => fitConfigToModel({
+      ...prev,
+      model: preset.model ?? prev.model,
+      aspectRatio: preset.aspectRatio ?? prev.aspectRatio,
+      negativePrompt: preset.negativePrompt ?? prev.negativePrompt
+    }));
+  };
+
+  const handleSavePreset = (preset: StylePreset) => {
+    setPresets(prev => sortPresets([...prev.filter(p => p.id !== preset.id), preset]));
+    savePreset(preset).catch(e => console.error("Error saving preset:", e));
+  };
+
+  const handleDeletePreset = (id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id));
+    deletePreset(id).catch(e => console.error("Error deleting preset:", e));
+  };
+
+  const handleImportPresets = (imported: StylePreset[]) => {
+    setPresets(prev => sortPresets([...prev, ...imported]));
+    imported.forEach(preset => savePreset(preset).catch(e => console.error("Error saving preset:", e)));
+  };
+
+  // --- Characters ---
+
+  const sortCharacters = (list: Character[]) => [...list].sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleSaveCharacter = (character: Character) => {
+    setCharacters(prev => sortCharacters([...prev.filter(c => c.id !== character.id), character]));
+    saveCharacter(character).catch(e => console.error("Error saving character:", e));
+  };
+
+  const handleDeleteCharacter = (id: string) => {
+    setCharacters(prev => prev.filter(c => c.id !== id));
+    deleteCharacter(id).catch(e => console.error("Error deleting character:", e));
+  };
+
+  // --- Project bundles ---
+
+  const handleExportProject = () => {
+    try {
+      const { blob, fileName } = createProjectBundle({ images: generatedImages, threads, activeThreadId: activeThread.id, presets, characters, config });
+      downloadBlob(blob, fileName);
+    } catch (e) {
+      console.error("Project Export Error:", e);
+      notifyError(e, 'Project export');
+    }
+  };
+
+  const describeProject = ({ images, threads: projectThreads, presets: projectPresets, characters: projectCharacters }: Omit<Project, 'activeThreadId' | 'config'>) =>
+    [plural(images.length, 'image'), plural(projectThreads.length, 'thread'), plural(projectPresets.length, 'preset'), plural(projectCharacters.length, 'character')].join(', ');
+
+  /**
+   * Open a .glowmint file and merge it into, or replace, the workspace.
+   * Resolves to a summary for the settings panel; rejects with a message
+   * fit for the user when the file can't be used.
+   */
+  const handleImportProject = async (file: File, mode: ProjectImportMode): Promise<string> => {
+    const incoming = await readProjectBundle(file);
+
+    if (mode === 'replace') {
+      await clearWorkspace();
+      const nextThreads = incoming.threads.length > 0 ? incoming.threads : [createThread(DEFAULT_THREAD_NAME, DEFAULT_THREAD_ID)];
+      // Nothing is stored any more, so every thread gets saved by the persist effect
+      savedThreadsRef.current = new Map();
+      setThreads(nextThreads);
+      setActiveThreadId(nextThreads.some(t => t.id === incoming.activeThreadId) ? incoming.activeThreadId! : nextThreads[0].id);
+      setGeneratedImages(incoming.images);
+      setPresets(sortPresets(incoming.presets));
+      setCharacters(sortCharacters(incoming.characters));
+      if (incoming.config) setConfig({ ...DEFAULT_CONFIG, ...incoming.config });
+      await Promise.all([
+        ...incoming.images.map(saveImage),
+        ...incoming.presets.map(savePreset),
+        ...incoming.characters.map(saveCharacter)
+      ]);
+      return `Replaced the workspace with ${describeProject(incoming)}.`;
+    }
+
+    const { added, skipped } = mergeProjects({ images: generatedImages, threads, presets, characters }, incoming);
+    // Functional updates, so images generated while the file was read aren't lost
+    setGeneratedImages(prev => [...prev, ...added.images].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
+    setThreads(prev => [...prev, ...added.threads]);
+    setPresets(prev => sortPresets([...prev, ...added.presets]));
+    setCharacters(prev => sortCharacters([...prev, ...added.characters]));
+    await Promise.all([
+      ...added.images.map(saveImage),
+      ...added.presets.map(savePreset),
+      ...added.characters.map(saveCharacter)
+    ]);
+    return `Added ${describeProject(added)}${skipped > 0 ? `; skipped ${skipped} already in this workspace` : ''}.`;
+  };
+
+  // --- Threads ---
+
+  const handleCreateThread = () => {
+    const thread = createThread(`Idea ${threads.length + 1}`);
+    setThreads(prev => [thread, ...prev]);
+    setActiveThreadId(thread.id);
+  };
+
+  const handleRenameThread = (id: string, name: string) => {
+    setThreads(prev => prev.map(t => t.id === id ? { ...t, name, updatedAt: new Date() } : t));
+  };
+
+  const handleDeleteThread = (id: string) => {
+    const remaining = threads.filter(t => t.id !== id);
+    const nextThreads = remaining.length > 0 ? remaining : [createThread(DEFAULT_THREAD_NAME)];
+    setThreads(nextThreads);
+    if (id === activeThread.id) setActiveThreadId(nextThreads[0].id);
+    savedThreadsRef.current.delete(id);
+    deleteThread(id).catch(e => console.error("Error deleting thread:", e));
+
+    // Images stay in history, just no longer linked to the deleted thread
+    const orphaned = generatedImages.filter(img => img.threadId === id).map(img => ({ ...img, threadId: undefined }));
+    if (orphaned.length > 0) {
+      setGeneratedImages(prev => prev.map(img => orphaned.find(o => o.id === img.id) || img));
+      orphaned.forEach(persistImage);
+    }
+  };
+
+  const threadImageCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const img of generatedImages) {
+      if (img.threadId) counts[img.threadId] = (counts[img.threadId] || 0) + 1;
+    }
+    return counts;
+  }, [generatedImages]);
+
+  if (checkingKey || isRestoring) {
     return <div className="flex h-screen w-screen bg-slate-950 items-center justify-center text-teal-500">
       <span className="w-8 h-8 border-4 border-current border-t-transparent rounded-full animate-spin" />
     </div>;
@@ -110,9 +465,30 @@ function App() {
       {/* Sidebar / Chat Area */}
       <div className="w-96 flex-shrink-0 h-full border-r border-slate-800 relative z-30 shadow-2xl">
         <ChatInterface 
+            messages={messages}
+            setMessages={setMessages}
+            threads={threads}
+            activeThreadId={activeThread.id}
+            threadImageCounts={threadImageCounts}
+            onSelectThread={setActiveThreadId}
+            onCreateThread={handleCreateThread}
+            onRenameThread={handleRenameThread}
+            onDeleteThread={handleDeleteThread}
             onGeneratePrompt={handlePromptFromChat} 
+            onUsePromptBlock={handleUsePromptBlock}
             onImportImage={handleImportImage}
+            onUseAsReference={(url) => handleAddReference(url, 'chat')}
+            onRunToolCall={handleRunToolCall}
+            generatedImages={generatedImages}
+            onPurge={handlePurge}
+            onExportProject={handleExportProject}
+            onImportProject={handleImportProject}
             generatedCount={generatedImages.length}
+            presets={presets}
+            onApplyPreset={handleApplyPreset}
+            onSavePreset={handleSavePreset}
+            onDeletePreset={handleDeletePreset}
+            onImportPresets={handleImportPresets}
         />
       </div>
 
@@ -121,11 +497,32 @@ function App() {
         <ImageWorkspace 
             prompt={prompt} 
             setPrompt={setPrompt}
+            config={config}
+            setConfig={setConfig}
+            activeThreadId={activeThread.id}
+            activeThreadName={activeThread.name}
             generatedImages={generatedImages}
             onImageGenerated={handleImageGenerated}
+            onImageUpdated={handleImageUpdated}
+            presets={presets}
+            onApplyPreset={handleApplyPreset}
+            onSavePreset={handleSavePreset}
+            onDeletePreset={handleDeletePreset}
+            onImportPresets={handleImportPresets}
+            generateRequest={generateRequest}
+            onGenerateRequestHandled={() => setGenerateRequest(null)}
+            references={references}
+            onAddReference={handleAddReference}
+            onChangeReferences={setReferences}
+            characters={characters}
+            onSaveCharacter={handleSaveCharacter}
+            onDeleteCharacter={handleDeleteCharacter}
+            onImportImage={handleImportImage}
         />
       </div>
       
+      <ToastStack />
+
       {/* Background Ambience */}
       <div className="fixed inset-0 pointer-events-none z-0 overflow-hidden">
         <div className="absolute top-[-10%] right-[-5%] w-[500px] h-[500px] bg-teal-600/10 rounded-full blur-3xl animate-pulse" style={{ animationDuration: '4s' }} />
@@ -0,0 +1,101 @@
+import React from 'react';
+import { Button } from './Button';
+import { CritiqueLoopStopReason } from '../services/critiqueLoop';
+
+export interface AutoImproveRun {
+  controller: AbortController;
+  maxIterations: number;
+  iteration: number;
+  scores: number[]; // Average critique score after each step, starting image first
+  reason?: CritiqueLoopStopReason; // Set once the loop has ended
+  error?: string;
+}
+
+interface AutoImprovePanelProps {
+  run: AutoImproveRun | null;
+  targetScore: number;
+  maxIterations: number;
+  onTargetScoreChange: (score: number) => void;
+  onMaxIterationsChange: (count: number) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const TARGET_SCORES = [6, 7, 7.5, 8, 8.5, 9];
+const ITERATION_CAPS = [1, 2, 3, 4, 5];
+
+const STOP_MESSAGES: Record<CritiqueLoopStopReason, string> = {
+  target: 'Target reached. Best version selected.',
+  maxIterations: 'Round limit reached. Best version selected.',
+  noIssues: 'The critique found nothing left to fix.',
+  stopped: 'Stopped. Every version so far is in your history.'
+};
+
+export const AutoImprovePanel: React.FC<AutoImprovePanelProps> = ({
+  run,
+  targetScore,
+  maxIterations,
+  onTargetScoreChange,
+  onMaxIterationsChange,
+  onStart,
+  onStop,
+  onClose
+}) => {
+  const isRunning = !!run && !run.reason && !run.error;
+  const selectClass = "bg-slate-900 border border-slate-700 text-slate-300 rounded-lg px-2 py-1 text-xs focus:ring-1 focus:ring-teal-500 outline-none";
+
+  return (
+    <div className="w-full bg-slate-800/50 border border-teal-500/30 rounded-xl p-3 flex gap-3 items-center animate-slide-up shadow-lg shadow-teal-500/5">
+      <div className={`bg-teal-500/20 p-2 rounded-lg text-teal-300 text-xl ${isRunning ? 'animate-spin' : ''}`} style={{ animationDuration: '3s' }}>♻️</div>
+      <div className="flex-1 min-w-0">
+        <label className="block text-[10px] text-teal-300 mb-1 font-semibold">
+          AUTO-IMPROVE · CRITIQUE, FIX, RE-SCORE
+        </label>
+        {run ? (
+          <div className="text-xs text-slate-300 space-y-0.5">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="text-slate-500">Scores:</span>
+              {run.scores.length === 0 && <span className="text-slate-500">scoring...</span>}
+              {run.scores.map((score, i) => (
+                <span key={i} className={score >= targetScore ? 'text-emerald-300 font-semibold' : ''}>
+                  {i > 0 && <span className="text-slate-600 mr-2">→</span>}{score.toFixed(1)}
+                </span>
+              ))}
+            </div>
+            <div className="text-[10px] text-slate-500">
+              {run.error
+                ? <span className="text-red-300">Failed: {run.error}</span>
+                : run.reason
+                  ? STOP_MESSAGES[run.reason]
+                  : `Round ${Math.min(run.iteration + 1, run.maxIterations)}/${run.maxIterations} · target ${targetScore}`}
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center gap-3 text-xs text-slate-400">
+            <label className="flex items-center gap-1">
+              Target score
+              <select value={targetScore} onChange={(e) => onTargetScoreChange(Number(e.target.value))} className={selectClass}>
+                {TARGET_SCORES.map(score => <option key={score} value={score}>{score}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              Max rounds
+              <select value={maxIterations} onChange={(e) => onMaxIterationsChange(Number(e.target.value))} className={selectClass}>
+                {ITERATION_CAPS.map(count => <option key={count} value={count}>{count}</option>)}
+              </select>
+            </label>
+          </div>
+        )}
+      </div>
+      {isRunning ? (
+        <Button variant="danger" onClick={onStop} icon="⏹">Stop</Button>
+      ) : (
+        <>
+          <Button variant="ghost" onClick={onClose}>Close</Button>
+          <Button onClick={onStart}>{run ? 'Run Again' : 'Start'}</Button>
+        </>
+      )}
+    </div>
+  );
+};
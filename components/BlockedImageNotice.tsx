@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GeneratedImage, GenerationConfig } from '../types';
+import { AIError } from '../services/errors';
+import { useAIProvider } from '../services/providers';
+import { notifyError } from '../services/toasts';
+import { explainMissingImage, findFlaggedTerms, harmCategoryLabel, segmentFlaggedText, TOPIC_LABELS } from '../services/safetyReview';
+
+/**
+ * An image request that finished without an image, with what's needed to
+ * run it again: the generation config, or the source image and mask of an edit.
+ */
+export interface BlockedRequest {
+  operation: 'generate' | 'refine';
+  text: string;
+  error: AIError;
+  config?: GenerationConfig;
+  source?: GeneratedImage;
+  mask?: string | null;
+}
+
+interface BlockedImageNoticeProps {
+  request: BlockedRequest;
+  onUseText: (text: string) => void;
+  onRetry: (text: string) => void;
+  onDismiss: () => void;
+}
+
+export const BlockedImageNotice: React.FC<BlockedImageNoticeProps> = ({ request, onUseText, onRetry, onDismiss }) => {
+  const provider = useAIProvider();
+  const [suggestion, setSuggestion] = useState<string | null>(null);
+  const [isRephrasing, setIsRephrasing] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const { error, text, operation } = request;
+  const details = error.details;
+  const explanation = explainMissingImage(details);
+  const flagged = useMemo(() => findFlaggedTerms(text), [text]);
+  const isSafety = error.kind === 'safety';
+  const label = operation === 'generate' ? 'prompt' : 'edit instruction';
+
+  // A new failure replaces the old one, so drop its suggestion and any rephrase still running
+  useEffect(() => {
+    setSuggestion(null);
+    setIsRephrasing(false);
+    return () => controllerRef.current?.abort();
+  }, [request]);
+
+  const handleRephrase = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRephrasing(true);
+    const categories = details?.categories.map(harmCategoryLabel).join(', ');
+    const reason = [explanation, categories && `Flagged categories: ${categories}.`, details?.modelText && `The model said: "${details.modelText}"`]
+      .filter(Boolean)
+      .join(' ');
+    try {
+      const rephrased = await provider.rephrasePrompt(text, reason, { signal: controller.signal });
+      if (!controller.signal.aborted) setSuggestion(rephrased);
+    } catch (e) {
+      if (!controller.signal.aborted) notifyError(e, 'Rephrase');
+    } finally {
+      if (!controller.signal.aborted) setIsRephrasing(false);
+    }
+  };
+
+  return (
+    <div className="mx-4 mt-3 bg-slate-900/90 border border-amber-500/30 rounded-xl p-4 shadow-lg animate-slide-up space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="text-amber-300 text-sm font-semibold flex items-center gap-2">
+            <span>{isSafety ? '🛡️' : '🖼️'}</span>
+            {isSafety ? 'Blocked by safety filters' : 'No image came back'}
+          </h3>
+          <p className="text-slate-300 text-xs mt-1">{explanation}</p>
+        </div>
+        <button onClick={onDismiss} className="text-slate-600 hover:text-slate-300 px-1" title="Dismiss">×</button>
+      </div>
+
+      {/* What the API reported */}
+      {(details?.categories.length || details?.finishReason || details?.blockReason) ? (
+        <div className="flex flex-wrap items-center gap-1.5">
+          {details?.categories.map(category => (
+            <span key={category} className="text-[10px] px-2 py-0.5 rounded-full border border-red-500/30 bg-red-500/10 text-red-300">
+              {harmCategoryLabel(category)}
+            </span>
+          ))}
+          {(details?.blockReason || details?.finishReason) && (
+            <span className="text-[10px] font-mono text-slate-500" title="Reason reported by the API">
+              {details.blockReason || details.finishReason}
+            </span>
+          )}
+        </div>
+      ) : null}
+
+      {(details?.blockMessage || details?.finishMessage) && (
+        <p className="text-[11px] text-slate-400">{details.blockMessage || details.finishMessage}</p>
+      )}
+
+      {details?.modelText && (
+        <blockquote className="text-[11px] text-slate-400 italic border-l-2 border-slate-700 pl-2 line-clamp-3" title={details.modelText}>
+          {details.modelText}
+        </blockquote>
+      )}
+
+      {/* The request with likely offending words highlighted */}
+      <div>
+        <div className="text-[10px] uppercase tracking-wider text-slate-500 mb-1">
+          Your {label}{flagged.length > 0 && ' · highlighted words may have triggered it'}
+        </div>
+        <p className="text-xs text-slate-300 bg-slate-950/60 border border-slate-800 rounded-lg p-2 break-words">
+          {segmentFlaggedText(text, flagged).map((segment, i) =>
+            segment.flagged ? (
+              <mark key={i} className="bg-amber-500/20 text-amber-200 rounded px-0.5" title={TOPIC_LABELS[segment.flagged.topic]}>
+                {segment.text}
+              </mark>
+            ) : (
+              <React.Fragment key={i}>{segment.text}</React.Fragment>
+            )
+          )}
+        </p>
+      </div>
+
+      {suggestion !== null && (
+        <div>
+          <div className="text-[10px] uppercase tracking-wider text-teal-400 mb-1">Suggested rephrase</div>
+          <textarea
+            value={suggestion}
+            onChange={(e) => setSuggestion(e.target.value)}
+            rows={3}
+            className="w-full text-xs text-slate-200 bg-slate-950/60 border border-teal-500/30 rounded-lg p-2 resize-none focus:outline-none focus:ring-1 focus:ring-teal-500/50 custom-scrollbar"
+          />
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {suggestion === null ? (
+          <button
+            onClick={handleRephrase}
+            disabled={isRephrasing}
+            className="text-xs font-semibold px-3 py-1.5 rounded-lg bg-teal-500/10 hover:bg-teal-500/20 text-teal-300 border border-teal-500/30 transition-colors active:scale-95 disabled:opacity-50"
+          >
+            {isRephrasing ? 'Rephrasing…' : '✨ Suggest a rephrase'}
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={() => onRetry(suggestion)}
+              disabled={!suggestion.trim()}
+              className="text-xs font-semibold px-3 py-1.5 rounded-lg bg-teal-600 hover:bg-teal-500 text-white transition-colors active:scale-95 disabled:opacity-50"
+            >
+              {operation === 'generate' ? 'Generate' : 'Apply edit'}
+            </button>
+            <button
+              onClick={() => onUseText(suggestion)}
+              disabled={!suggestion.trim()}
+              className="text-xs font-semibold px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700 transition-colors active:scale-95 disabled:opacity-50"
+            >
+              Use {label}
+            </button>
+            <button
+              onClick={handleRephrase}
+              disabled={isRephrasing}
+              className="text-xs px-3 py-1.5 rounded-lg text-slate-400 hover:text-slate-200 transition-colors disabled:opacity-50"
+            >
+              {isRephrasing ? 'Rephrasing…' : 'Try another'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
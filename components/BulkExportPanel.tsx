@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { GeneratedImage } from '../types';
+import { Button } from './Button';
+import { DEFAULT_SESSION_EXPORT_OPTIONS, downloadBlob, exportSession, ExportFormat, FORMAT_LABELS, SessionExportOptions } from '../services/exportService';
+import { notifyError, toasts } from '../services/toasts';
+
+interface BulkExportPanelProps {
+  images: GeneratedImage[];
+  /** Every image in history, so lineage can name parents outside the selection. */
+  library: GeneratedImage[];
+  onClose: () => void;
+}
+
+const FORMATS: ExportFormat[] = ['original', 'image/png', 'image/jpeg', 'image/webp'];
+
+export const BulkExportPanel: React.FC<BulkExportPanelProps> = ({ images, library, onClose }) => {
+  const [options, setOptions] = useState<SessionExportOptions>(DEFAULT_SESSION_EXPORT_OPTIONS);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const usesQuality = options.format === 'image/jpeg' || options.format === 'image/webp';
+
+  const handleExport = async () => {
+    setProgress({ done: 0, total: images.length });
+    try {
+      const { blob, fileName, fallbackCount } = await exportSession(images, library, options, (done, total) => setProgress({ done, total }));
+      downloadBlob(blob, fileName);
+      if (fallbackCount > 0) {
+        toasts.show({
+          kind: 'info',
+          title: `${fallbackCount} ${fallbackCount === 1 ? 'image' : 'images'} saved as PNG`,
+          message: `This browser can't encode ${FORMAT_LABELS[options.format] || options.format} images.`
+        });
+      }
+      onClose();
+    } catch (e) {
+      console.error("Bulk Export Error:", e);
+      notifyError(e, 'Export');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="w-full bg-slate-800/50 border border-teal-500/30 rounded-xl p-3 flex flex-wrap gap-3 items-center animate-slide-up shadow-lg shadow-teal-500/5">
+      <div className="bg-teal-500/20 p-2 rounded-lg text-teal-300 text-xl">🗜️</div>
+      <span className="text-xs text-slate-300 font-medium">
+        {images.length} {images.length === 1 ? 'image' : 'images'} → ZIP
+      </span>
+      <label className="text-xs text-slate-400 flex items-center gap-2">
+        Format
+        <select
+          value={options.format}
+          onChange={(e) => setOptions({ ...options, format: e.target.value as ExportFormat })}
+          className="bg-slate-900 border border-slate-700 text-slate-300 rounded-lg px-2 py-1 text-xs focus:ring-1 focus:ring-teal-500 outline-none cursor-pointer"
+        >
+          {FORMATS.map(format => (
+            <option key={format} value={format}>
+              {format === 'original' ? 'Original' : FORMAT_LABELS[format]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {usesQuality && (
+        <label className="text-xs text-slate-400 flex items-center gap-2">
+          Quality
+          <input
+            type="range"
+            min={50}
+            max={100}
+            value={Math.round(options.quality * 100)}
+            onChange={(e) => setOptions({ ...options, quality: Number(e.target.value) / 100 })}
+            className="w-24 accent-teal-500"
+          />
+          <span className="w-8 text-slate-300">{Math.round(options.quality * 100)}</span>
+        </label>
+      )}
+      <label className="text-xs text-slate-400 flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={options.embedMetadata}
+          onChange={(e) => setOptions({ ...options, embedMetadata: e.target.checked })}
+          className="accent-teal-500"
+        />
+        Embed generation details
+      </label>
+      <label className="text-xs text-slate-400 flex items-center gap-2 cursor-pointer" title="One overview image with every file's number and prompt">
+        <input
+          type="checkbox"
+          checked={options.contactSheet}
+          onChange={(e) => setOptions({ ...options, contactSheet: e.target.checked })}
+          className="accent-teal-500"
+        />
+        Contact sheet
+      </label>
+      <div className="flex-1" />
+      {progress && (
+        <span className="text-[11px] text-slate-500">Packing {progress.done}/{progress.total}…</span>
+      )}
+      <Button variant="ghost" onClick={onClose} disabled={!!progress}>Cancel</Button>
+      <Button onClick={handleExport} isLoading={!!progress} disabled={images.length === 0}>Download ZIP</Button>
+    </div>
+  );
+};
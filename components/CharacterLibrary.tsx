@@ -0,0 +1,236 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Character, GeneratedImage, MAX_REFERENCE_IMAGES } from '../types';
+import { Button } from './Button';
+import { isValidCharacterName } from '../services/characterService';
+
+interface CharacterLibraryProps {
+  characters: Character[];
+  images: GeneratedImage[];
+  /** Offered as a reference when editing a character. */
+  selectedImage: GeneratedImage | null;
+  onSave: (character: Character) => void;
+  onDelete: (id: string) => void;
+  onMention: (character: Character) => void;
+  onSelectImage: (image: GeneratedImage) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+type View =
+  | { mode: 'list' }
+  | { mode: 'edit'; draft: Character }
+  | { mode: 'gallery'; character: Character };
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:ring-1 focus:ring-teal-500 outline-none";
+
+const newCharacter = (): Character => ({
+  id: `character-${Date.now()}`,
+  name: '',
+  description: '',
+  references: [],
+  updatedAt: new Date()
+});
+
+export const CharacterLibrary: React.FC<CharacterLibraryProps> = ({
+  characters,
+  images,
+  selectedImage,
+  onSave,
+  onDelete,
+  onMention,
+  onSelectImage,
+  onClose,
+  className = ''
+}) => {
+  const [view, setView] = useState<View>({ mode: 'list' });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Every image each character appeared in, newest first (images already are)
+  const appearances = useMemo(() => {
+    const byCharacter = new Map<string, GeneratedImage[]>();
+    images.forEach(img => img.characterIds?.forEach(id => {
+      byCharacter.set(id, [...(byCharacter.get(id) || []), img]);
+    }));
+    return byCharacter;
+  }, [images]);
+
+  const draftError = (draft: Character): string | null => {
+    const name = draft.name.trim();
+    if (!name) return null;
+    if (!isValidCharacterName(name)) return 'Use letters, digits, - or _ (no spaces), starting with a letter.';
+    if (characters.some(c => c.id !== draft.id && c.name.toLowerCase() === name.toLowerCase())) return `@${name} already exists.`;
+    return null;
+  };
+
+  // Uploads finish asynchronously, so add to whatever the draft is by then
+  const addReferences = (urls: string[]) => setView(prev => {
+    if (prev.mode !== 'edit') return prev;
+    const { draft } = prev;
+    const references = [...draft.references, ...urls.filter(url => !draft.references.includes(url))].slice(0, MAX_REFERENCE_IMAGES);
+    return { mode: 'edit', draft: { ...draft, references } };
+  });
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    const urls = await Promise.all(files.map(file => new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    })));
+    addReferences(urls);
+  };
+
+  const handleDelete = (character: Character) => {
+    if (window.confirm(`Delete @${character.name}? Images it appeared in are kept.`)) onDelete(character.id);
+  };
+
+  return (
+    <div className={`bg-slate-900/95 backdrop-blur border border-slate-700 rounded-xl shadow-2xl overflow-hidden animate-pop-in flex flex-col ${className}`}>
+      <div className="flex items-center justify-between px-3 py-2 bg-slate-800/60 border-b border-slate-800">
+        <span className="text-xs font-semibold text-slate-200">
+          👥 {view.mode === 'gallery' ? `@${view.character.name} · ${appearances.get(view.character.id)?.length || 0} images` : 'Characters'}
+        </span>
+        <div className="flex items-center gap-1">
+          {view.mode === 'list' && (
+            <button onClick={() => setView({ mode: 'edit', draft: newCharacter() })} className="text-[10px] px-2 py-0.5 text-slate-400 hover:text-teal-300">＋ New</button>
+          )}
+          {view.mode === 'gallery' && (
+            <button onClick={() => setView({ mode: 'list' })} className="text-[10px] px-2 py-0.5 text-slate-400 hover:text-teal-300">← Back</button>
+          )}
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-200 px-1" title="Close">×</button>
+        </div>
+      </div>
+
+      {view.mode === 'list' && (
+        <div className="max-h-80 overflow-y-auto custom-scrollbar divide-y divide-slate-800">
+          {characters.length === 0 && (
+            <div className="px-3 py-4 text-xs text-slate-500 text-center">
+              No characters yet. Add one, then mention it as <span className="text-teal-300">@Name</span> in a prompt.
+            </div>
+          )}
+          {characters.map(character => (
+            <div key={character.id} className="group/character px-3 py-2 flex items-center gap-2 hover:bg-slate-800/40">
+              {character.references[0] ? (
+                <img src={character.references[0]} alt={character.name} className="w-9 h-9 rounded-lg object-cover shrink-0" />
+              ) : (
+                <div className="w-9 h-9 rounded-lg bg-slate-800 flex items-center justify-center text-slate-600 shrink-0">👤</div>
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="text-xs text-slate-200 font-medium truncate">@{character.name}</div>
+                <div className="text-[10px] text-slate-500 truncate" title={character.description}>{character.description || 'No description'}</div>
+              </div>
+              <div className="flex gap-1 opacity-0 group-hover/character:opacity-100 transition-opacity">
+                <button onClick={() => setView({ mode: 'gallery', character })} className="text-[10px] p-1 text-slate-500 hover:text-teal-300" title="Gallery">🖼️</button>
+                <button onClick={() => setView({ mode: 'edit', draft: character })} className="text-[10px] p-1 text-slate-500 hover:text-teal-300" title="Edit">✏️</button>
+                <button onClick={() => handleDelete(character)} className="text-[10px] p-1 text-slate-500 hover:text-red-400" title="Delete">🗑️</button>
+              </div>
+              <button
+                onClick={() => onMention(character)}
+                className="shrink-0 text-[10px] px-2 py-1 rounded-md border border-teal-500/30 text-teal-300 hover:bg-teal-500/10 transition-colors active:scale-95"
+                title="Add the mention to the prompt"
+              >
+                @ Mention
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {view.mode === 'gallery' && (
+        <div className="max-h-80 overflow-y-auto custom-scrollbar p-2">
+          {(appearances.get(view.character.id) || []).length === 0 ? (
+            <div className="px-3 py-4 text-xs text-slate-500 text-center">@{view.character.name} hasn't appeared in any images yet.</div>
+          ) : (
+            <div className="grid grid-cols-4 gap-1.5">
+              {appearances.get(view.character.id)!.map(img => (
+                <button
+                  key={img.id}
+                  onClick={() => onSelectImage(img)}
+                  className="aspect-square rounded-md overflow-hidden ring-1 ring-slate-800 hover:ring-teal-500 transition-all"
+                  title={img.prompt}
+                >
+                  <img src={img.url} alt={img.prompt} className="w-full h-full object-cover" />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {view.mode === 'edit' && (
+        <div className="p-3 space-y-2">
+          <div className="flex items-center gap-1">
+            <span className="text-xs text-slate-500">@</span>
+            <input
+              autoFocus
+              placeholder="Mintbot"
+              value={view.draft.name}
+              onChange={(e) => setView({ mode: 'edit', draft: { ...view.draft, name: e.target.value } })}
+              className={inputClass}
+            />
+          </div>
+          {draftError(view.draft) && <p className="text-[10px] text-red-300">{draftError(view.draft)}</p>}
+          <textarea
+            placeholder="Canonical description, e.g. a small round mint-green robot with one cyan eye and a leaf antenna"
+            value={view.draft.description}
+            onChange={(e) => setView({ mode: 'edit', draft: { ...view.draft, description: e.target.value } })}
+            className={`${inputClass} h-20 resize-none`}
+          />
+          <div>
+            <div className="text-[10px] text-slate-500 uppercase tracking-wider mb-1">
+              Reference images ({view.draft.references.length}/{MAX_REFERENCE_IMAGES})
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {view.draft.references.map(url => (
+                <div key={url.slice(-32)} className="relative group/ref">
+                  <img src={url} alt="Reference" className="w-14 h-14 rounded-md object-cover ring-1 ring-slate-700" />
+                  <button
+                    onClick={() => setView({ mode: 'edit', draft: { ...view.draft, references: view.draft.references.filter(r => r !== url) } })}
+                    className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-slate-900 text-slate-400 hover:text-red-300 text-[10px] leading-none opacity-0 group-hover/ref:opacity-100"
+                    title="Remove"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              {view.draft.references.length < MAX_REFERENCE_IMAGES && (
+                <>
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="w-14 h-14 rounded-md border border-dashed border-slate-700 text-slate-500 hover:text-teal-300 hover:border-teal-500/50 text-[10px]"
+                  >
+                    ＋ Upload
+                  </button>
+                  {selectedImage && !view.draft.references.includes(selectedImage.url) && (
+                    <button
+                      onClick={() => addReferences([selectedImage.url])}
+                      className="w-14 h-14 rounded-md border border-dashed border-slate-700 text-slate-500 hover:text-teal-300 hover:border-teal-500/50 text-[10px]"
+                      title="Use the image open in the workspace"
+                    >
+                      ＋ Current
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+            <input ref={fileInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleUpload} />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setView({ mode: 'list' })}>Cancel</Button>
+            <Button
+              onClick={() => {
+                onSave({ ...view.draft, name: view.draft.name.trim(), updatedAt: new Date() });
+                setView({ mode: 'list' });
+              }}
+              disabled={!view.draft.name.trim() || !!draftError(view.draft)}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
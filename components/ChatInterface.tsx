@@ -1,14 +1,59 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { ChatMessage, Sender } from '../types';
+import { ChatMessage, ChatThread, GeneratedImage, MuseToolCall, Sender, StylePreset } from '../types';
 import { Button } from './Button';
-import { sendChatMessage } from '../services/geminiService';
+import { StoragePanel } from './StoragePanel';
+import { Markdown } from './Markdown';
+import { formatCost, UsagePanel } from './UsagePanel';
+import { ThreadList } from './ThreadList';
+import { PresetLibrary } from './PresetLibrary';
+import { ToolCallCard } from './ToolCallCard';
+import { useAIProvider } from '../services/providers';
+import { parsePromptBlock, PromptBlock } from '../services/promptBlocks';
+import { modelBadge } from '../services/modelRegistry';
+import { describeToolCall, toMuseToolCall, ToolResult } from '../services/museTools';
+import { dayKey, sumUsage, useUsage } from '../services/usageMeter';
+import { notifyError } from '../services/toasts';
+import { classifyError } from '../services/errors';
+import { ProjectImportMode } from '../services/projectBundle';
 
 interface ChatInterfaceProps {
+  messages: ChatMessage[];
+  setMessages: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+  threads: ChatThread[];
+  activeThreadId: string;
+  threadImageCounts: Record<string, number>;
+  onSelectThread: (id: string) => void;
+  onCreateThread: () => void;
+  onRenameThread: (id: string, name: string) => void;
+  onDeleteThread: (id: string) => void;
   onGeneratePrompt: (prompt: string) => void;
+  /** Fill the prompt and settings from a ```prompt block, optionally generating right away. */
+  onUsePromptBlock: (block: PromptBlock, generateNow: boolean) => void;
   onImportImage: (base64: string) => void;
+  /** Attach an image to the workspace's next generation as a reference. */
+  onUseAsReference: (base64: string) => void;
+  /** Run a tool call the user approved; results are added to the gallery. */
+  onRunToolCall: (call: MuseToolCall) => Promise<ToolResult>;
+  generatedImages: GeneratedImage[];
+  onPurge: (cutoff: Date) => Promise<number>;
+  onExportProject: () => void;
+  /** Open a .glowmint file; resolves to a summary, rejects with a readable error. */
+  onImportProject: (file: File, mode: ProjectImportMode) => Promise<string>;
   generatedCount: number;
+  presets: StylePreset[];
+  onApplyPreset: (preset: StylePreset, prompt: string) => void;
+  onSavePreset: (preset: StylePreset) => void;
+  onDeletePreset: (id: string) => void;
+  onImportPresets: (presets: StylePreset[]) => void;
 }
 
+export const WELCOME_MESSAGE: ChatMessage = {
+  id: 'welcome',
+  sender: Sender.Gemini,
+  text: "Welcome to **GlowMint Muse**. I am your creative partner. Describe your vision, upload an image for feedback, or use the microphone.",
+  timestamp: new Date()
+};
+
 const SUGGESTION_CHIPS = [
   "Cyberpunk street food stall at night 🍜",
   "Oil painting of a cozy cottage 🏡",
@@ -18,27 +63,51 @@ const SUGGESTION_CHIPS = [
 ];
 
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
+  messages,
+  setMessages,
+  threads,
+  activeThreadId,
+  threadImageCounts,
+  onSelectThread,
+  onCreateThread,
+  onRenameThread,
+  onDeleteThread,
   onGeneratePrompt, 
+  onUsePromptBlock,
   onImportImage,
-  generatedCount 
+  onUseAsReference,
+  onRunToolCall,
+  generatedImages,
+  onPurge,
+  onExportProject,
+  onImportProject,
+  generatedCount,
+  presets,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
+  onImportPresets
 }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: 'welcome',
-      sender: Sender.Gemini,
-      text: "Welcome to **GlowMint Muse**. I am your creative partner. Describe your vision, upload an image for feedback, or use the microphone.",
-      timestamp: new Date()
-    }
-  ]);
+  const provider = useAIProvider();
   const [input, setInput] = useState('');
   const [attachment, setAttachment] = useState<string | null>(null);
-  const [isTyping, setIsTyping] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [showProfile, setShowProfile] = useState(false);
-  // Mock credits for profile display
-  const [credits, setCredits] = useState(85);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showThreads, setShowThreads] = useState(false);
+  const [showPresets, setShowPresets] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const usage = useUsage();
+  const todayCost = sumUsage(usage.days[dayKey(new Date())]).cost;
+  const dailyBudget = usage.budget.daily;
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // One controller per in-flight reply, keyed by the reply's message id
+  const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
+
+  // Derived per thread, so another thread's streaming reply doesn't lock this one
+  const isTyping = messages.some(m => m.isThinking);
+  const activeThread = threads.find(t => t.id === activeThreadId);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const scrollToBottom = () => {
@@ -109,12 +178,12 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     setInput('');
     setAttachment(null);
     if (fileInputRef.current) fileInputRef.current.value = '';
-    
-    setIsTyping(true);
 
     // Construct history properly for multimodal usage
     const history = messages.map(m => {
-        const parts: any[] = [{ text: m.text || (m.attachment ? "Sent an image" : "") }];
+        // Tool outcomes go back as text so the Muse can refer to result ids
+        const toolNotes = (m.toolCalls || []).map(describeToolCall);
+        const parts: any[] = [{ text: [m.text || (m.attachment ? "Sent an image" : ""), ...toolNotes].filter(Boolean).join("\n") }];
         if (m.attachment) {
             const base64 = m.attachment.split(',')[1];
             const mime = m.attachment.split(';')[0].split(':')[1];
@@ -126,17 +195,82 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         };
     });
 
-    const responseText = await sendChatMessage(userMsg.text, history, userMsg.attachment);
-
-    const geminiMsg: ChatMessage = {
-      id: (Date.now() + 1).toString(),
+    // Placeholder reply that fills in as chunks stream
+    const geminiMsgId = (Date.now() + 1).toString();
+    setMessages(prev => [...prev, {
+      id: geminiMsgId,
       sender: Sender.Gemini,
-      text: responseText,
-      timestamp: new Date()
+      text: '',
+      timestamp: new Date(),
+      isThinking: true
+    }]);
+
+    const updateReply = (patch: Partial<ChatMessage>) => {
+      setMessages(prev => prev.map(m => m.id === geminiMsgId ? { ...m, ...patch } : m));
     };
 
-    setMessages(prev => [...prev, geminiMsg]);
-    setIsTyping(false);
+    const controller = new AbortController();
+    abortControllersRef.current.set(geminiMsgId, controller);
+
+    let streamedText = '';
+    try {
+      const responseText = await provider.sendChatMessage(userMsg.text, history, userMsg.attachment, {
+        signal: controller.signal,
+        onChunk: (textSoFar) => {
+          streamedText = textSoFar;
+          updateReply({ text: textSoFar });
+        },
+        onToolCalls: (calls) => updateReply({
+          toolCalls: calls
+            .map((call, idx) => toMuseToolCall(call, `${geminiMsgId}-tool-${idx}`))
+            .filter((call): call is MuseToolCall => !!call)
+        })
+      });
+
+      if (controller.signal.aborted && !responseText) {
+        // Stopped before anything arrived: drop the empty bubble
+        setMessages(prev => prev.filter(m => m.id !== geminiMsgId));
+      } else {
+        updateReply({ text: responseText, isThinking: false });
+      }
+    } catch (e) {
+      // Keep any partial reply; otherwise drop the bubble and give the text back to retry
+      if (streamedText) {
+        updateReply({ isThinking: false });
+      } else {
+        setMessages(prev => prev.filter(m => m.id !== geminiMsgId));
+        setInput(prev => prev || userMsg.text);
+      }
+      notifyError(e, 'Muse');
+    } finally {
+      abortControllersRef.current.delete(geminiMsgId);
+    }
+  };
+
+  const updateToolCall = (messageId: string, callId: string, patch: Partial<MuseToolCall>) => {
+    setMessages(prev => prev.map(m => m.id === messageId
+      ? { ...m, toolCalls: m.toolCalls?.map(c => c.id === callId ? { ...c, ...patch } : c) }
+      : m));
+  };
+
+  const handleApproveToolCall = async (messageId: string, call: MuseToolCall) => {
+    updateToolCall(messageId, call.id, { status: 'running' });
+    try {
+      const result = await onRunToolCall(call);
+      updateToolCall(messageId, call.id, {
+        status: 'done',
+        resultImageIds: result.created.map(img => img.id),
+        resultSummary: result.summary
+      });
+    } catch (e) {
+      console.error("Tool Call Error:", e);
+      updateToolCall(messageId, call.id, { status: 'failed', error: classifyError(e).message });
+      notifyError(e, 'Muse action');
+    }
+  };
+
+  const handleStop = () => {
+    messages.filter(m => m.isThinking).forEach(m => abortControllersRef.current.get(m.id)?.abort());
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -148,6 +282,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
   const handleClearChat = () => {
     if (window.confirm("Clear conversation history?")) {
+      handleStop();
       setMessages([{
         id: 'welcome',
         sender: Sender.Gemini,
@@ -162,21 +297,26 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   };
 
   // --- Helpers ---
-  const formatText = (text: string) => {
-    let formatted = text
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em>$1</em>')
-      .replace(/\n/g, '<br />');
-    return formatted;
-  };
-
   /**
    * Parses message text to find ```prompt ... ``` blocks.
-   * Renders prompts as interactive cards and normal text as HTML.
+   * Renders prompts as interactive cards and normal text as Markdown.
+   * While streaming, an unclosed trailing prompt block shows as a placeholder
+   * card until its closing fence arrives.
    */
-  const renderMessageContent = (text: string) => {
+  const renderMessageContent = (fullText: string, isStreaming = false) => {
+    let text = fullText;
+    let pendingPrompt = false;
+    if (isStreaming) {
+      const openFences = text.match(/```prompt/g)?.length || 0;
+      const closedBlocks = text.match(/```prompt\s*[\s\S]*?\s*```/g)?.length || 0;
+      if (openFences > closedBlocks) {
+        text = text.substring(0, text.lastIndexOf('```prompt'));
+        pendingPrompt = true;
+      }
+    }
+
     const promptRegex = /```prompt\s*([\s\S]*?)\s*```/g;
-    const parts = [];
+    const parts: { type: 'text' | 'prompt'; content: string; block?: PromptBlock }[] = [];
     let lastIndex = 0;
     let match;
 
@@ -184,7 +324,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       if (match.index > lastIndex) {
         parts.push({ type: 'text', content: text.substring(lastIndex, match.index) });
       }
-      parts.push({ type: 'prompt', content: match[1].trim() });
+      parts.push({ type: 'prompt', content: match[1].trim(), block: parsePromptBlock(match[1]) });
       lastIndex = promptRegex.lastIndex;
     }
 
@@ -192,8 +332,8 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       parts.push({ type: 'text', content: text.substring(lastIndex) });
     }
 
-    if (parts.length === 0) {
-      return <div dangerouslySetInnerHTML={{ __html: formatText(text) }} />;
+    if (parts.length === 0 && !pendingPrompt) {
+      return <Markdown text={text} />;
     }
 
     return (
@@ -201,8 +341,16 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         {parts.map((part, idx) => {
           if (part.type === 'text') {
              if (!part.content.trim()) return null;
-             return <div key={idx} dangerouslySetInnerHTML={{ __html: formatText(part.content) }} />;
+             return <Markdown key={idx} text={part.content} />;
           } else {
+             const block = part.block!;
+             const presetFound = !block.preset || presets.some(p => p.name.toLowerCase() === block.preset!.toLowerCase());
+             const settingChips = [
+               block.aspectRatio && `📐 ${block.aspectRatio}`,
+               block.model && modelBadge(block.model),
+               block.preset && `🎨 ${block.preset}${presetFound ? '' : ' (not found)'}`,
+               block.negativePrompt && `🚫 ${block.negativePrompt}`
+             ].filter(Boolean) as string[];
              return (
                <div key={idx} className="relative mt-1 rounded-xl bg-slate-950/50 border border-teal-500/20 overflow-hidden group/prompt animate-fade-in">
                   <div className="absolute left-0 top-0 bottom-0 w-1 bg-gradient-to-b from-teal-400 to-emerald-500"></div>
@@ -212,19 +360,45 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                           <span className="text-[10px] text-slate-500 font-medium">Gemini 2.5</span>
                       </div>
                       <div className="text-sm text-slate-300 font-mono bg-black/30 rounded p-2.5 border border-white/5 whitespace-pre-wrap leading-relaxed select-all">
-                          {part.content}
+                          {block.prompt}
+                      </div>
+                      {settingChips.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {settingChips.map(chip => (
+                            <span key={chip} className="text-[10px] px-2 py-0.5 rounded-full bg-slate-800 border border-slate-700 text-slate-400 max-w-full truncate" title={chip}>{chip}</span>
+                          ))}
+                        </div>
+                      )}
+                      <div className="mt-3 flex gap-2">
+                        <button 
+                          onClick={() => onUsePromptBlock(block, false)}
+                          className="flex-1 bg-teal-500/10 hover:bg-teal-500/20 text-teal-300 text-xs font-semibold py-2 px-3 rounded-lg border border-teal-500/30 transition-all active:scale-95 flex items-center justify-center gap-2 group-hover/prompt:shadow-lg group-hover/prompt:shadow-teal-500/10"
+                          title="Fill the prompt and settings in the workspace"
+                        >
+                          <span>🎨</span> Use This Prompt
+                        </button>
+                        <button 
+                          onClick={() => onUsePromptBlock(block, true)}
+                          className="bg-gradient-to-r from-teal-500 to-emerald-600 hover:from-teal-600 hover:to-emerald-700 text-white text-xs font-semibold py-2 px-3 rounded-lg transition-all active:scale-95 flex items-center justify-center gap-1 shadow-lg shadow-teal-500/20"
+                          title="Apply the settings and start generating"
+                        >
+                          ⚡ Generate Now
+                        </button>
                       </div>
-                      <button 
-                        onClick={() => onGeneratePrompt(part.content)}
-                        className="mt-3 w-full bg-teal-500/10 hover:bg-teal-500/20 text-teal-300 text-xs font-semibold py-2 px-3 rounded-lg border border-teal-500/30 transition-all active:scale-95 flex items-center justify-center gap-2 group-hover/prompt:shadow-lg group-hover/prompt:shadow-teal-500/10"
-                      >
-                        <span>🎨</span> Use This Prompt
-                      </button>
                   </div>
                </div>
              );
           }
         })}
+        {pendingPrompt && (
+           <div className="relative mt-1 rounded-xl bg-slate-950/50 border border-teal-500/20 overflow-hidden animate-pulse">
+              <div className="absolute left-0 top-0 bottom-0 w-1 bg-gradient-to-b from-teal-400 to-emerald-500"></div>
+              <div className="p-3 pl-4">
+                  <span className="text-[10px] font-bold text-teal-400 uppercase tracking-wider">Composing Prompt...</span>
+                  <div className="mt-2 h-10 bg-black/30 rounded border border-white/5" />
+              </div>
+           </div>
+        )}
       </div>
     );
   };
@@ -237,7 +411,14 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           <h2 className="text-lg font-bold flex items-center gap-2 text-transparent bg-clip-text bg-gradient-to-r from-teal-400 to-emerald-400 animate-shimmer">
             ✨ GlowMint Muse
           </h2>
-          <p className="text-xs text-slate-400">AI Ideation Partner</p>
+          <button 
+            onClick={() => setShowThreads(!showThreads)}
+            className="text-xs text-slate-400 hover:text-teal-300 transition-colors flex items-center gap-1 max-w-[200px]"
+            title="Conversation threads"
+          >
+            <span className="truncate">💬 {activeThread?.name}</span>
+            <span className={`transition-transform ${showThreads ? 'rotate-180' : ''}`}>▾</span>
+          </button>
         </div>
         <div className="flex items-center gap-2">
             <button 
@@ -258,7 +439,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         
         {/* Profile Popover */}
         {showProfile && (
-            <div className="absolute top-16 right-4 w-80 bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl z-50 overflow-hidden animate-pop-in ring-1 ring-white/10">
+            <div className="absolute top-16 right-4 w-80 max-h-[calc(100vh-5rem)] bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl z-50 overflow-y-auto custom-scrollbar animate-pop-in ring-1 ring-white/10">
                 {/* Profile Header with Gradient */}
                 <div className="bg-gradient-to-r from-teal-900/80 to-emerald-900/80 p-6 pt-8 text-center relative">
                      <div className="absolute top-0 left-0 w-full h-full bg-[url('https://www.transparenttextures.com/patterns/cubes.png')] opacity-10"></div>
@@ -279,15 +460,21 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
                 {/* Stats Section */}
                 <div className="p-5 space-y-5">
-                    {/* Credit Usage */}
+                    {/* Today's Spend (estimated from metered usage) */}
                     <div>
                         <div className="flex justify-between text-xs mb-1.5">
-                            <span className="text-slate-400 font-medium">Monthly Credits</span>
-                            <span className="text-teal-400 font-bold">{credits}/100</span>
+                            <span className="text-slate-400 font-medium">Today's Spend</span>
+                            <span className={`font-bold ${dailyBudget !== undefined && todayCost > dailyBudget ? 'text-red-400' : 'text-teal-400'}`}>
+                                {formatCost(todayCost)}{dailyBudget !== undefined ? ` / ${formatCost(dailyBudget)}` : ''}
+                            </span>
                         </div>
                         <div className="w-full bg-slate-800 rounded-full h-2 overflow-hidden">
-                            <div className="bg-gradient-to-r from-teal-500 to-emerald-500 h-full rounded-full transition-all duration-1000 ease-out" style={{ width: `${credits}%` }}></div>
+                            <div
+                                className={`h-full rounded-full transition-all duration-1000 ease-out ${dailyBudget !== undefined && todayCost > dailyBudget ? 'bg-red-500' : 'bg-gradient-to-r from-teal-500 to-emerald-500'}`}
+                                style={{ width: `${dailyBudget ? Math.min(100, (todayCost / dailyBudget) * 100) : 0}%` }}
+                            ></div>
                         </div>
+                        {dailyBudget === undefined && <div className="text-[10px] text-slate-600 mt-1">No daily budget set</div>}
                     </div>
 
                     {/* Stats Grid */}
@@ -304,18 +491,26 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
                     {/* Menu Items */}
                     <div className="space-y-1 pt-2">
-                        <button className="w-full flex items-center justify-between p-2 rounded-lg hover:bg-slate-800 text-sm text-slate-300 transition-colors group active:scale-98">
+                        <button 
+                            onClick={() => setShowSettings(!showSettings)}
+                            className="w-full flex items-center justify-between p-2 rounded-lg hover:bg-slate-800 text-sm text-slate-300 transition-colors group active:scale-98"
+                        >
                             <span className="flex items-center gap-3">
                                 <span className="text-slate-500 group-hover:text-teal-400 transition-colors">⚙️</span> Settings
                             </span>
-                            <span className="text-slate-600 text-xs">›</span>
+                            <span className={`text-slate-600 text-xs transition-transform ${showSettings ? 'rotate-90' : ''}`}>›</span>
                         </button>
-                        <button className="w-full flex items-center justify-between p-2 rounded-lg hover:bg-slate-800 text-sm text-slate-300 transition-colors group active:scale-98">
+                        {showSettings && <StoragePanel onPurge={onPurge} onExportProject={onExportProject} onImportProject={onImportProject} />}
+                        <button 
+                            onClick={() => setShowUsage(!showUsage)}
+                            className="w-full flex items-center justify-between p-2 rounded-lg hover:bg-slate-800 text-sm text-slate-300 transition-colors group active:scale-98"
+                        >
                             <span className="flex items-center gap-3">
-                                <span className="text-slate-500 group-hover:text-teal-400 transition-colors">💳</span> Subscription
+                                <span className="text-slate-500 group-hover:text-teal-400 transition-colors">💳</span> Usage & Budgets
                             </span>
-                            <span className="text-slate-600 text-xs">›</span>
+                            <span className={`text-slate-600 text-xs transition-transform ${showUsage ? 'rotate-90' : ''}`}>›</span>
                         </button>
+                        {showUsage && <UsagePanel />}
                     </div>
                 </div>
 
@@ -332,9 +527,23 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         )}
       </div>
 
+      {/* Thread Switcher */}
+      {showThreads && (
+        <ThreadList
+          threads={threads}
+          activeThreadId={activeThreadId}
+          imageCounts={threadImageCounts}
+          onSelect={(id) => { onSelectThread(id); setShowThreads(false); }}
+          onCreate={() => { onCreateThread(); setShowThreads(false); }}
+          onRename={onRenameThread}
+          onDelete={onDeleteThread}
+        />
+      )}
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-6 custom-scrollbar relative">
-        {messages.map((msg) => (
+        {/* An empty in-progress reply is represented by the typing indicator below */}
+        {messages.filter(m => !(m.isThinking && !m.text)).map((msg) => (
           <div
             key={msg.id}
             className={`flex flex-col animate-message ${msg.sender === Sender.User ? 'items-end' : 'items-start'} group`}
@@ -357,24 +566,43 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                   {msg.attachment && (
                       <div className="relative group/image overflow-hidden rounded-lg mb-1 border border-black/10">
                           <img src={msg.attachment} alt="Attachment" className="max-w-full h-auto max-h-48 object-cover" />
-                          <div className="absolute inset-0 bg-black/40 opacity-0 group-hover/image:opacity-100 transition-opacity flex items-center justify-center">
+                          <div className="absolute inset-0 bg-black/40 opacity-0 group-hover/image:opacity-100 transition-opacity flex items-center justify-center gap-2">
                                <button 
                                   onClick={() => onImportImage(msg.attachment!)}
                                   className="bg-white/10 hover:bg-white/20 backdrop-blur text-white text-xs px-3 py-1.5 rounded-full flex items-center gap-1 transition-colors border border-white/20 active:scale-95"
                                >
                                    🪄 Edit in Canvas
                                </button>
+                               <button 
+                                  onClick={() => onUseAsReference(msg.attachment!)}
+                                  className="bg-white/10 hover:bg-white/20 backdrop-blur text-white text-xs px-3 py-1.5 rounded-full flex items-center gap-1 transition-colors border border-white/20 active:scale-95"
+                               >
+                                   📌 Use as Reference
+                               </button>
                           </div>
                       </div>
                   )}
 
-                  {msg.text && renderMessageContent(msg.text)}
+                  {msg.text && renderMessageContent(msg.text, msg.isThinking)}
+                  {/* Actions the Muse asked to run, waiting on approval */}
+                  {msg.toolCalls?.map(call => (
+                    <ToolCallCard
+                      key={call.id}
+                      call={call}
+                      images={generatedImages}
+                      onApprove={() => handleApproveToolCall(msg.id, call)}
+                      onDecline={() => updateToolCall(msg.id, call.id, { status: 'declined' })}
+                    />
+                  ))}
+                  {msg.isThinking && (
+                      <span className="inline-block w-1.5 h-4 bg-teal-400 animate-pulse rounded-sm" />
+                  )}
                   
                   {/* Footer Actions: Copy only (Use Prompt moved to card) */}
-                  {msg.sender === Sender.Gemini && (
+                  {msg.sender === Sender.Gemini && !msg.isThinking && (
                     <div className="mt-1 pt-1 border-t border-slate-700/50 flex justify-end opacity-0 group-hover:opacity-100 transition-opacity">
                        {/* Only show 'Use Prompt' generic button if NO prompt block was detected (legacy/fallback) */}
-                       {!msg.text.includes('```prompt') && (
+                       {msg.text && !msg.text.includes('```prompt') && !msg.toolCalls?.length && (
                           <button 
                              onClick={() => onGeneratePrompt(msg.text)}
                              className="text-[10px] text-teal-400 hover:text-teal-300 mr-2 transition-colors"
@@ -415,7 +643,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
            </div>
         )}
 
-        {isTyping && (
+        {isTyping && !messages.some(m => m.isThinking && m.text) && (
           <div className="flex justify-start gap-2 items-end animate-fade-in">
              <div className="w-6 h-6 rounded-full bg-slate-800 flex items-center justify-center text-[10px] shrink-0">✨</div>
              <div className="bg-slate-800 rounded-2xl rounded-tl-none p-3 border border-slate-700">
@@ -447,7 +675,19 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       )}
 
       {/* Input Area */}
-      <div className="p-4 bg-slate-900/80 border-t border-slate-800">
+      <div className="p-4 bg-slate-900/80 border-t border-slate-800 relative">
+        {showPresets && (
+          <PresetLibrary
+            presets={presets}
+            initialSubject={input}
+            onApply={(preset, prompt) => { onApplyPreset(preset, prompt); setShowPresets(false); }}
+            onSave={onSavePreset}
+            onDelete={onDeletePreset}
+            onImport={onImportPresets}
+            onClose={() => setShowPresets(false)}
+            className="absolute bottom-full left-4 right-4 mb-2 z-20"
+          />
+        )}
         <div className="flex gap-2 items-end">
           <div className="flex-1 relative group">
             <textarea
@@ -456,7 +696,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 onKeyDown={handleKeyDown}
                 placeholder={isListening ? "Listening..." : "Describe your idea..."}
                 rows={1}
-                className={`w-full bg-slate-950 border ${isListening ? 'border-teal-500 ring-1 ring-teal-500' : 'border-slate-800'} rounded-xl pl-10 pr-10 py-3 text-sm text-slate-200 focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none placeholder-slate-600 resize-none custom-scrollbar transition-all duration-200`}
+                className={`w-full bg-slate-950 border ${isListening ? 'border-teal-500 ring-1 ring-teal-500' : 'border-slate-800'} rounded-xl pl-10 pr-16 py-3 text-sm text-slate-200 focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none placeholder-slate-600 resize-none custom-scrollbar transition-all duration-200`}
                 disabled={isTyping}
                 style={{ minHeight: '46px', maxHeight: '120px' }}
             />
@@ -477,6 +717,15 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 className="hidden" 
             />
 
+            {/* Preset Button: fills the workspace prompt from a style preset */}
+            <button
+                onClick={() => setShowPresets(!showPresets)}
+                className={`absolute right-9 bottom-2 p-1.5 rounded-lg transition-all hover:scale-110 active:scale-95 ${showPresets ? 'text-teal-400 bg-slate-800' : 'text-slate-400 hover:text-teal-400 hover:bg-slate-800'}`}
+                title="Style Presets"
+            >
+                🎨
+            </button>
+
             {/* Mic Button */}
             <button
                 onClick={handleVoiceInput}
@@ -487,13 +736,24 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             </button>
           </div>
           
-          <Button 
-            onClick={handleSend} 
-            disabled={(!input.trim() && !attachment) || isTyping} 
-            className="h-[46px] w-[46px] p-0 flex items-center justify-center rounded-xl transition-all"
-          >
-            ➤
-          </Button>
+          {isTyping ? (
+            <Button 
+              variant="danger"
+              onClick={handleStop} 
+              className="h-[46px] w-[46px] p-0 flex items-center justify-center rounded-xl transition-all"
+              title="Stop generating"
+            >
+              ⏹
+            </Button>
+          ) : (
+            <Button 
+              onClick={handleSend} 
+              disabled={!input.trim() && !attachment} 
+              className="h-[46px] w-[46px] p-0 flex items-center justify-center rounded-xl transition-all"
+            >
+              ➤
+            </Button>
+          )}
         </div>
       </div>
     </div>
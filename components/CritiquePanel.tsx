@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { CRITIQUE_CATEGORIES, CritiqueCategory, CritiqueIssue, ImageCritique } from '../types';
+import { averageScore } from '../services/critiqueLoop';
+
+interface CritiquePanelProps {
+  critique: ImageCritique;
+  onApplyFix: (issue: CritiqueIssue) => void;
+}
+
+const CATEGORY_LABELS: Record<CritiqueCategory, string> = {
+  composition: 'Composition',
+  anatomy: 'Anatomy',
+  lighting: 'Lighting',
+  promptAdherence: 'Prompt Adherence'
+};
+
+const SEVERITY_STYLES: Record<CritiqueIssue['severity'], string> = {
+  high: 'text-red-300 bg-red-500/10 border-red-500/30',
+  medium: 'text-amber-300 bg-amber-500/10 border-amber-500/30',
+  low: 'text-slate-400 bg-slate-800 border-slate-700'
+};
+
+const scoreColor = (score: number) =>
+  score >= 8 ? 'bg-emerald-500' : score >= 5 ? 'bg-amber-500' : 'bg-red-500';
+
+export const CritiquePanel: React.FC<CritiquePanelProps> = ({ critique, onApplyFix }) => {
+  // Clicking a score narrows the issue list to that category
+  const [filter, setFilter] = useState<CritiqueCategory | null>(null);
+  const issues = filter ? critique.issues.filter(issue => issue.category === filter) : critique.issues;
+
+  return (
+    <div className="w-full bg-slate-900/80 border border-slate-700 rounded-lg p-3 animate-slide-up max-h-56 overflow-y-auto custom-scrollbar shadow-lg space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="text-teal-400 text-xs font-semibold mb-1 flex items-center gap-1">
+            <span>👁️</span> Gemini Vision Analysis
+          </h3>
+          <p className="text-slate-300 text-xs leading-relaxed">{critique.summary}</p>
+        </div>
+        <span className="shrink-0 text-lg font-bold text-slate-200" title="Average score">
+          {averageScore(critique).toFixed(1)}<span className="text-[10px] text-slate-500">/10</span>
+        </span>
+      </div>
+
+      {/* Tags */}
+      <div className="flex flex-wrap gap-1">
+        {critique.tags.map(tag => (
+          <span key={tag} className="text-[10px] px-2 py-0.5 rounded-full bg-teal-500/10 border border-teal-500/20 text-teal-300">{tag}</span>
+        ))}
+      </div>
+
+      {/* Scores */}
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1.5">
+        {CRITIQUE_CATEGORIES.map(category => (
+          <button
+            key={category}
+            onClick={() => setFilter(filter === category ? null : category)}
+            className={`text-left group/score ${filter && filter !== category ? 'opacity-40' : ''}`}
+            title="Show issues in this category"
+          >
+            <div className="flex justify-between text-[10px] text-slate-400 group-hover/score:text-slate-200">
+              <span>{CATEGORY_LABELS[category]}</span>
+              <span className="font-semibold">{critique.scores[category]}</span>
+            </div>
+            <div className="h-1 rounded-full bg-slate-800 overflow-hidden">
+              <div className={`h-full rounded-full ${scoreColor(critique.scores[category])}`} style={{ width: `${critique.scores[category] * 10}%` }} />
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {/* Issues with one-click fixes */}
+      {issues.length > 0 ? (
+        <ul className="space-y-1.5">
+          {issues.map((issue, idx) => (
+            <li key={idx} className="flex items-start gap-2 text-xs">
+              <span className={`shrink-0 px-1.5 py-0.5 rounded border text-[10px] font-semibold uppercase tracking-wider ${SEVERITY_STYLES[issue.severity]}`}>
+                {issue.severity}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="text-slate-300">{issue.description}</p>
+                <p className="text-[10px] text-slate-500 italic truncate" title={issue.fix}>Fix: {issue.fix}</p>
+              </div>
+              <button
+                onClick={() => onApplyFix(issue)}
+                className="shrink-0 text-[10px] px-2 py-1 rounded-md border border-teal-500/30 text-teal-300 hover:bg-teal-500/10 transition-colors active:scale-95"
+              >
+                🪄 Apply
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-[10px] text-slate-500">{filter ? `No ${CATEGORY_LABELS[filter].toLowerCase()} issues.` : 'No issues found.'}</p>
+      )}
+    </div>
+  );
+};
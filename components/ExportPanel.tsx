@@ -0,0 +1,87 @@
+import React, { useMemo, useState } from 'react';
+import { GeneratedImage } from '../types';
+import { Button } from './Button';
+import { DEFAULT_EXPORT_OPTIONS, detectImageType, downloadBlob, exportImage, ExportFormat, ExportOptions, FORMAT_LABELS } from '../services/exportService';
+import { notifyError, toasts } from '../services/toasts';
+
+interface ExportPanelProps {
+  image: GeneratedImage;
+  onClose: () => void;
+}
+
+const FORMATS: ExportFormat[] = ['original', 'image/png', 'image/jpeg', 'image/webp'];
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ image, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+  const originalType = useMemo(() => detectImageType(image.url), [image.url]);
+  const originalLabel = FORMAT_LABELS[originalType] || originalType;
+  const usesQuality = options.format === 'image/jpeg' || options.format === 'image/webp';
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const { blob, fileName, mimeType, fallbackFrom } = await exportImage(image, options);
+      downloadBlob(blob, fileName);
+      if (fallbackFrom) {
+        toasts.show({
+          kind: 'info',
+          title: `Saved as ${FORMAT_LABELS[mimeType]}`,
+          message: `This browser can't encode ${FORMAT_LABELS[fallbackFrom] || fallbackFrom} images.`
+        });
+      }
+      onClose();
+    } catch (e) {
+      console.error("Export Error:", e);
+      notifyError(e, 'Export');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="w-full bg-slate-800/50 border border-teal-500/30 rounded-xl p-3 flex flex-wrap gap-3 items-center animate-slide-up shadow-lg shadow-teal-500/5">
+      <div className="bg-teal-500/20 p-2 rounded-lg text-teal-300 text-xl">⬇️</div>
+      <label className="text-xs text-slate-400 flex items-center gap-2">
+        Format
+        <select
+          value={options.format}
+          onChange={(e) => setOptions({ ...options, format: e.target.value as ExportFormat })}
+          className="bg-slate-900 border border-slate-700 text-slate-300 rounded-lg px-2 py-1 text-xs focus:ring-1 focus:ring-teal-500 outline-none cursor-pointer"
+        >
+          {FORMATS.map(format => (
+            <option key={format} value={format}>
+              {format === 'original' ? `Original (${originalLabel})` : FORMAT_LABELS[format]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {usesQuality && (
+        <label className="text-xs text-slate-400 flex items-center gap-2">
+          Quality
+          <input
+            type="range"
+            min={50}
+            max={100}
+            value={Math.round(options.quality * 100)}
+            onChange={(e) => setOptions({ ...options, quality: Number(e.target.value) / 100 })}
+            className="w-24 accent-teal-500"
+          />
+          <span className="w-8 text-slate-300">{Math.round(options.quality * 100)}</span>
+        </label>
+      )}
+      <label className="text-xs text-slate-400 flex items-center gap-2 cursor-pointer" title="Prompt, model, aspect ratio and negative prompt, readable by other tools and restored on import">
+        <input
+          type="checkbox"
+          checked={options.embedMetadata}
+          onChange={(e) => setOptions({ ...options, embedMetadata: e.target.checked })}
+          className="accent-teal-500"
+        />
+        Embed generation details
+      </label>
+      <div className="flex-1" />
+      <Button variant="ghost" onClick={onClose}>Cancel</Button>
+      <Button onClick={handleExport} isLoading={isExporting}>Download</Button>
+    </div>
+  );
+};
@@ -1,151 +1,536 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { AspectRatio, GeneratedImage, GenerationConfig, GenerationModel } from '../types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { AspectRatio, Character, CritiqueIssue, GeneratedImage, GenerationConfig, GenerationModel, ImageSize, ReferenceImage, StylePreset } from '../types';
 import { Button } from './Button';
-import { generateImage, refineImage, analyzeImage } from '../services/geminiService';
+import { VariationGrid, Variation } from './VariationGrid';
+import { useAIProvider } from '../services/providers';
+import { jobQueue, useJobs, isFinished, JobCancelledError } from '../services/jobQueue';
+import { JobsPanel } from './JobsPanel';
+import { CritiquePanel } from './CritiquePanel';
+import { averageScore, runCritiqueLoop } from '../services/critiqueLoop';
+import { AutoImprovePanel, AutoImproveRun } from './AutoImprovePanel';
+import { MaskEditor } from './MaskEditor';
+import { compositeWithMask } from '../services/imageUtils';
+import { createImageId } from '../services/ids';
+import { VersionTree } from './VersionTree';
+import { PresetLibrary } from './PresetLibrary';
+import { PromptBuilder } from './PromptBuilder';
+import { buildVersionTree, findRoot, flattenTree, indexChildren } from '../services/versionTree';
+import { notifyError, toasts } from '../services/toasts';
+import { classifyError } from '../services/errors';
+import { BlockedImageNotice, BlockedRequest } from './BlockedImageNotice';
+import { ReferenceTray } from './ReferenceTray';
+import { CharacterLibrary } from './CharacterLibrary';
+import { ExportPanel } from './ExportPanel';
+import { BulkExportPanel } from './BulkExportPanel';
+import { resolveMentions, trailingMention } from '../services/characterService';
+import { ASPECT_RATIO_LABELS, findUnsupported, fitConfigToModel, IMAGE_MODELS, MODEL_CAPABILITIES, relativeCost } from '../services/modelRegistry';
+
+const MAX_VARIATIONS = 8;
+
+export interface GenerateRequest {
+  prompt: string;
+  config: GenerationConfig;
+}
 
 interface ImageWorkspaceProps {
   prompt: string;
   setPrompt: (p: string) => void;
+  config: GenerationConfig;
+  setConfig: (c: GenerationConfig) => void;
+  activeThreadId: string;
+  activeThreadName: string;
   onImageGenerated: (img: GeneratedImage) => void;
+  onImageUpdated: (img: GeneratedImage) => void;
   generatedImages: GeneratedImage[];
+  presets: StylePreset[];
+  onApplyPreset: (preset: StylePreset, prompt: string) => void;
+  onSavePreset: (preset: StylePreset) => void;
+  onDeletePreset: (id: string) => void;
+  onImportPresets: (presets: StylePreset[]) => void;
+  generateRequest: GenerateRequest | null;
+  onGenerateRequestHandled: () => void;
+  /** Sent with every new generation until removed. */
+  references: ReferenceImage[];
+  onAddReference: (url: string, origin: ReferenceImage['origin'], imageId?: string) => void;
+  onChangeReferences: (references: ReferenceImage[]) => void;
+  /** Mentioned as @Name in prompts and edit instructions. */
+  characters: Character[];
+  onSaveCharacter: (character: Character) => void;
+  onDeleteCharacter: (id: string) => void;
+  /** Add an image file to history, restoring any generation details embedded in it. */
+  onImportImage: (base64: string, label: string) => void;
 }
 
 export const ImageWorkspace: React.FC<ImageWorkspaceProps> = ({ 
   prompt, 
   setPrompt, 
+  config,
+  setConfig,
+  activeThreadId,
+  activeThreadName,
   onImageGenerated,
-  generatedImages 
+  onImageUpdated,
+  generatedImages,
+  presets,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
+  onImportPresets,
+  generateRequest,
+  onGenerateRequestHandled,
+  references,
+  onAddReference,
+  onChangeReferences,
+  characters,
+  onSaveCharacter,
+  onDeleteCharacter,
+  onImportImage
 }) => {
-  const [config, setConfig] = useState<GenerationConfig>({
-    aspectRatio: AspectRatio.Square,
-    model: GenerationModel.Flash,
-    negativePrompt: ''
-  });
-  const [isGenerating, setIsGenerating] = useState(false);
+  const provider = useAIProvider();
   const [selectedImage, setSelectedImage] = useState<GeneratedImage | null>(null);
   const [editMode, setEditMode] = useState(false);
   const [editPrompt, setEditPrompt] = useState('');
-  const [analysis, setAnalysis] = useState<string | null>(null);
+  const [editMask, setEditMask] = useState<string | null>(null);
+  const [threadOnly, setThreadOnly] = useState(false);
+  const [historyView, setHistoryView] = useState<'recent' | 'versions'>('recent');
+  const [compareImage, setCompareImage] = useState<GeneratedImage | null>(null);
+  const [showPresets, setShowPresets] = useState(false);
+  const [showBuilder, setShowBuilder] = useState(false);
+  const [showCharacters, setShowCharacters] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  // Multi-select in the history strip, for bulk export
+  const [selectingHistory, setSelectingHistory] = useState(false);
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+  const lastCheckedRef = useRef<string | null>(null);
+  const [bulkExport, setBulkExport] = useState<GeneratedImage[] | null>(null);
+  const [autoPanelOpen, setAutoPanelOpen] = useState(false);
+  const [autoTargetScore, setAutoTargetScore] = useState(8);
+  const [autoMaxIterations, setAutoMaxIterations] = useState(3);
+  const [autoRun, setAutoRun] = useState<AutoImproveRun | null>(null);
+  // Which child redo should return to, per parent (the branch the user came from)
+  const lastChildRef = useRef<Record<string, string>>({});
+  const [variations, setVariations] = useState<Variation[]>([]);
+  const variationBatchRef = useRef<AbortController | null>(null);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // The latest image request that came back without an image
+  const [blocked, setBlocked] = useState<BlockedRequest | null>(null);
+  const variationCount = Math.min(MAX_VARIATIONS, Math.max(1, config.variationCount || 1));
+  // Presets and Muse cards can set a model without its other settings, so
+  // the pickers show (and jobs use) the config as the model can take it
+  const modelConfig = fitConfigToModel(config);
+  const capabilities = MODEL_CAPABILITIES[config.model];
+  const generateProblem = findUnsupported(config.model, { references: references.length });
+  const editProblem = findUnsupported(config.model, { edit: true });
+  const jobs = useJobs();
+  const hasActiveGeneration = jobs.some(job => job.kind === 'generate' && !isFinished(job));
+
+  const historyImages = useMemo(() =>
+    threadOnly ? generatedImages.filter(img => img.threadId === activeThreadId) : generatedImages,
+    [threadOnly, generatedImages, activeThreadId]
+  );
+
+  const imagesById = useMemo(() => new Map(generatedImages.map(img => [img.id, img])), [generatedImages]);
+  const childrenById = useMemo(() => indexChildren(generatedImages), [generatedImages]);
+
+  const versionNodes = useMemo(() => {
+    if (!selectedImage) return [];
+    const root = findRoot(selectedImage, imagesById);
+    return flattenTree(buildVersionTree(root, childrenById));
+  }, [selectedImage, imagesById, childrenById]);
 
-  // Sync selected image when a new one is added to the top of the list
+  const toggleChecked = (image: GeneratedImage, extendRange: boolean) => {
+    const next = new Set(checkedIds);
+    const from = lastCheckedRef.current ? historyImages.findIndex(img => img.id === lastCheckedRef.current) : -1;
+    const to = historyImages.findIndex(img => img.id === image.id);
+    if (extendRange && from >= 0) {
+      // Shift-click checks everything between the last click and this one
+      historyImages.slice(Math.min(from, to), Math.max(from, to) + 1).forEach(img => next.add(img.id));
+    } else if (next.has(image.id)) {
+      next.delete(image.id);
+    } else {
+      next.add(image.id);
+    }
+    lastCheckedRef.current = image.id;
+    setCheckedIds(next);
+  };
+
+  const stopSelecting = () => {
+    setSelectingHistory(false);
+    setCheckedIds(new Set());
+    lastCheckedRef.current = null;
+  };
+
+  // Checked images that still exist, in history order
+  const checkedImages = useMemo(() => generatedImages.filter(img => checkedIds.has(img.id)), [generatedImages, checkedIds]);
+
+  const closeEditor = () => {
+    setEditMode(false);
+    setEditMask(null);
+  };
+
+  // Safety blocks and empty results get an explanation in the workspace instead of a toast
+  const reportImageFailure = (e: unknown, context: string, request: Omit<BlockedRequest, 'error'>) => {
+    const error = classifyError(e);
+    if (error.kind === 'safety' || error.kind === 'emptyImage') {
+      setBlocked({ ...request, error });
+    } else {
+      notifyError(e, context);
+    }
+  };
+
+  // Sync selected image when a new one is added to the top of the list,
+  // and drop the selection if it was purged from storage
   useEffect(() => {
-    if (generatedImages.length > 0 && !selectedImage) {
+    if (selectedImage && !generatedImages.some(img => img.id === selectedImage.id)) {
+      setSelectedImage(generatedImages[0] || null);
+      closeEditor();
+    } else if (generatedImages.length > 0 && !selectedImage) {
       setSelectedImage(generatedImages[0]);
     }
   }, [generatedImages, selectedImage]);
 
-  // Determine history state
-  const currentIndex = useMemo(() => 
-    selectedImage ? generatedImages.findIndex(img => img.id === selectedImage.id) : -1,
-    [selectedImage, generatedImages]
-  );
+  // A compared image that was purged can't stay on screen
+  useEffect(() => {
+    if (compareImage && !imagesById.has(compareImage.id)) setCompareImage(null);
+  }, [compareImage, imagesById]);
+
+  const selectImage = (image: GeneratedImage) => {
+    setSelectedImage(image);
+    setPrompt(image.prompt); // Restore prompt for context
+    closeEditor();
+    if (image.parentId) lastChildRef.current[image.parentId] = image.id;
+  };
 
-  // History is mostly newest-first: [Newest (0), Older (1), Oldest (2)]
-  const canUndo = currentIndex !== -1 && currentIndex < generatedImages.length - 1; // Can go to older
-  const canRedo = currentIndex !== -1 && currentIndex > 0; // Can go to newer
+  // Undo/redo walk the lineage of the selected image, not the history order
+  const parentImage = selectedImage?.parentId ? imagesById.get(selectedImage.parentId) : undefined;
+  const childImages = selectedImage ? childrenById.get(selectedImage.id) || [] : [];
+  const canUndo = !!parentImage;
+  const canRedo = childImages.length > 0;
+  const comparedImage = compareImage && compareImage.id !== selectedImage?.id ? compareImage : null;
 
   const handleUndo = () => {
-    if (canUndo) {
-      const prevImage = generatedImages[currentIndex + 1];
-      setSelectedImage(prevImage);
-      setPrompt(prevImage.prompt); // Restore prompt for context
-      setEditMode(false);
-      setAnalysis(null);
-    }
+    if (parentImage) selectImage(parentImage);
   };
 
   const handleRedo = () => {
-    if (canRedo) {
-      const nextImage = generatedImages[currentIndex - 1];
-      setSelectedImage(nextImage);
-      setPrompt(nextImage.prompt);
-      setEditMode(false);
-      setAnalysis(null);
-    }
+    if (!selectedImage || !canRedo) return;
+    const rememberedId = lastChildRef.current[selectedImage.id];
+    // Prefer the branch we came from, else the newest one
+    selectImage(childImages.find(img => img.id === rememberedId) || childImages[childImages.length - 1]);
   };
 
-  const handleGenerate = async () => {
-    if (!prompt.trim()) return;
-    setIsGenerating(true);
-    setAnalysis(null);
-
-    try {
-      const base64 = await generateImage(
-        prompt,
-        config.model,
-        config.aspectRatio,
-        config.negativePrompt
-      );
-
-      if (base64) {
-        const newImage: GeneratedImage = {
-          id: Date.now().toString(),
-          url: base64,
-          prompt: prompt,
-          timestamp: new Date(),
-          aspectRatio: config.aspectRatio,
-          model: config.model
-        };
-        onImageGenerated(newImage);
-        setSelectedImage(newImage);
+  // Refused up front, rather than sent and failing at the API
+  const refuseUnsupported = (problem: string | undefined) => {
+    if (!problem) return false;
+    toasts.show({ kind: 'info', title: 'Not supported by this model', message: problem });
+    return true;
+  };
+
+  // Runs in the background: the prompt box stays usable while jobs run
+  const startGeneration = (jobPrompt: string, requestedConfig: GenerationConfig) => {
+    if (!jobPrompt.trim()) return;
+    const jobConfig = fitConfigToModel(requestedConfig);
+    const referenceCount = resolveMentions(jobPrompt, characters, references).references.length;
+    if (refuseUnsupported(findUnsupported(jobConfig.model, { references: referenceCount }))) return;
+    const count = Math.min(MAX_VARIATIONS, Math.max(1, jobConfig.variationCount || 1));
+    setBlocked(null);
+    if (count > 1) return startVariations(jobPrompt, jobConfig, count);
+
+    const jobReferences = references.length > 0 ? references : undefined;
+    const resolved = resolveMentions(jobPrompt, characters, references);
+    jobQueue.enqueue({
+      kind: 'generate',
+      label: jobPrompt,
+      run: (signal) => provider.generateImage(
+        resolved.prompt,
+        jobConfig.model,
+        jobConfig.aspectRatio,
+        jobConfig.negativePrompt,
+        { signal, references: resolved.references, imageSize: jobConfig.imageSize }
+      )
+    }).then(base64 => {
+      const newImage: GeneratedImage = {
+        id: createImageId(),
+        url: base64,
+        prompt: jobPrompt,
+        negativePrompt: jobConfig.negativePrompt || undefined,
+        timestamp: new Date(),
+        aspectRatio: jobConfig.aspectRatio,
+        model: jobConfig.model,
+        threadId: activeThreadId,
+        operation: 'generate',
+        references: jobReferences,
+        characterIds: resolved.characterIds.length > 0 ? resolved.characterIds : undefined
+      };
+      onImageGenerated(newImage);
+      setSelectedImage(newImage);
+    }).catch(e => reportImageFailure(e, 'Generation', { operation: 'generate', text: jobPrompt, config: jobConfig }));
+  };
+
+  const handleGenerate = () => startGeneration(prompt, config);
+
+  // "Generate now" from a Muse prompt card: App passes the exact prompt and
+  // config so we don't depend on its state updates having landed yet
+  useEffect(() => {
+    if (!generateRequest) return;
+    startGeneration(generateRequest.prompt, generateRequest.config);
+    onGenerateRequestHandled();
+  }, [generateRequest]);
+
+  /**
+   * Queue `count` generations and show them in a comparison grid.
+   * Nothing reaches history until the user keeps it.
+   */
+  const startVariations = (batchPrompt: string, batchConfig: GenerationConfig, count: number) => {
+    const ids = Array.from({ length: count }, createImageId);
+    // A new batch replaces the grid, so stop whatever the old one still has running
+    variationBatchRef.current?.abort();
+    const batch = new AbortController();
+    variationBatchRef.current = batch;
+    closeEditor();
+    setVariations(ids.map(id => ({ id, status: 'pending', keep: false })));
+    const batchReferences = references.length > 0 ? references : undefined;
+    const resolved = resolveMentions(batchPrompt, characters, references);
+
+    const updateVariation = (id: string, patch: Partial<Variation>) => {
+      setVariations(prev => prev.map(v => v.id === id ? { ...v, ...patch } : v));
+    };
+
+    ids.forEach((id, i) => {
+      jobQueue.enqueue({
+        kind: 'generate',
+        label: `Variation ${i + 1}/${ids.length}: ${batchPrompt}`,
+        signal: batch.signal,
+        run: (signal) => provider.generateImage(
+          resolved.prompt,
+          batchConfig.model,
+          batchConfig.aspectRatio,
+          batchConfig.negativePrompt,
+          { signal, references: resolved.references, imageSize: batchConfig.imageSize }
+        )
+      }).then(base64 => {
+        updateVariation(id, {
+          status: 'done',
+          image: {
+            id,
+            url: base64,
+            prompt: batchPrompt,
+            negativePrompt: batchConfig.negativePrompt || undefined,
+            timestamp: new Date(),
+            aspectRatio: batchConfig.aspectRatio,
+            model: batchConfig.model,
+            threadId: activeThreadId,
+            operation: 'generate',
+            references: batchReferences,
+            characterIds: resolved.characterIds.length > 0 ? resolved.characterIds : undefined
+          }
+        });
+      }).catch(e => {
+        updateVariation(id, { status: e instanceof JobCancelledError ? 'cancelled' : 'failed' });
+        reportImageFailure(e, 'Variation', { operation: 'generate', text: batchPrompt, config: batchConfig });
+      });
+    });
+  };
+
+  const handleToggleKeep = (id: string) => {
+    setVariations(prev => prev.map(v => v.id === id ? { ...v, keep: !v.keep } : v));
+  };
+
+  const handleKeepVariations = () => {
+    const kept = variations.filter(v => v.keep && v.image).map(v => v.image!);
+    // History is newest-first, so add in reverse to keep #1 on top
+    [...kept].reverse().forEach(onImageGenerated);
+    if (kept.length > 0) setSelectedImage(kept[0]);
+    setVariations([]);
+  };
+
+  const handleDiscardVariations = () => {
+    const keptCount = variations.filter(v => v.keep).length;
+    if (keptCount > 0 && !window.confirm(`Discard all variations, including ${keptCount} selected?`)) return;
+    variationBatchRef.current?.abort();
+    setVariations([]);
+  };
+
+  /**
+   * With a mask, the model is asked to stay inside it and the result is then
+   * composited over the original, so unmasked pixels are guaranteed untouched.
+   */
+  const queueRefine = (source: GeneratedImage, instruction: string, mask: string | null) => {
+    const model = config.model;
+    const resolved = resolveMentions(instruction, characters);
+    if (refuseUnsupported(findUnsupported(model, { edit: true, references: resolved.references.length }))) return;
+    setBlocked(null);
+    jobQueue.enqueue({
+      kind: 'refine',
+      label: mask ? `Masked edit: ${instruction}` : instruction,
+      run: async (signal) => {
+        const refined = await provider.refineImage(source.url, resolved.prompt, model, {
+          signal,
+          mask: mask || undefined,
+          references: resolved.references
+        });
+        return mask ? compositeWithMask(source.url, refined, mask) : refined;
       }
-    } catch (e) {
-      alert("Failed to generate image. Please try again.");
-    } finally {
-      setIsGenerating(false);
-    }
+    }).then(refinedBase64 => {
+      const newImage: GeneratedImage = {
+        id: createImageId(),
+        url: refinedBase64,
+        prompt: `Refined: ${instruction}`,
+        timestamp: new Date(),
+        aspectRatio: source.aspectRatio,
+        model,
+        threadId: source.threadId || activeThreadId,
+        operation: 'refine',
+        parentId: source.id,
+        characterIds: resolved.characterIds.length > 0 ? resolved.characterIds : undefined
+      };
+      onImageGenerated(newImage);
+      setSelectedImage(newImage);
+    }).catch(e => reportImageFailure(e, 'Edit', { operation: 'refine', text: instruction, source, mask }));
   };
 
-  const handleRefine = async () => {
+  const handleRefine = () => {
     if (!selectedImage || !editPrompt.trim()) return;
-    setIsGenerating(true);
-
-    try {
-      const refinedBase64 = await refineImage(selectedImage.url, editPrompt, config.model);
-      
-      if (refinedBase64) {
-        const newImage: GeneratedImage = {
-          id: Date.now().toString(),
-          url: refinedBase64,
-          prompt: `Refined: ${editPrompt}`,
-          timestamp: new Date(),
-          aspectRatio: selectedImage.aspectRatio,
-          model: selectedImage.model
-        };
-        onImageGenerated(newImage);
-        setSelectedImage(newImage);
-        setEditMode(false);
-        setEditPrompt('');
+    queueRefine(selectedImage, editPrompt, editMask);
+    closeEditor();
+    setEditPrompt('');
+  };
+
+  const handleApplyFix = (issue: CritiqueIssue) => {
+    if (selectedImage) queueRefine(selectedImage, issue.fix, null);
+  };
+
+  /**
+   * The critique is stored on the image itself, so it survives reloads and
+   * a late result still lands on the image it was run for.
+   */
+  // Refinements are judged against the prompt their lineage started from
+  const sourcePromptFor = (image: GeneratedImage) => {
+    const root = findRoot(image, imagesById);
+    return root.operation === 'generate' ? root.prompt : undefined;
+  };
+
+  const handleAnalyze = () => {
+    if (!selectedImage) return;
+    const image = selectedImage;
+    const sourcePrompt = sourcePromptFor(image);
+
+    jobQueue.enqueue({
+      kind: 'analyze',
+      label: `Critique: ${image.prompt}`,
+      run: (signal) => provider.analyzeImage(image.url, sourcePrompt, { signal })
+    }).then(critique => {
+      const updated = { ...image, critique };
+      onImageUpdated(updated);
+      setSelectedImage(prev => prev?.id === updated.id ? updated : prev);
+    }).catch(e => notifyError(e, 'Critique'));
+  };
+
+  const isAutoRunning = !!autoRun && !autoRun.reason && !autoRun.error;
+
+  /**
+   * Critique → refine → re-score until the target or the round cap is hit.
+   * Every version lands in history as it is made; the best one is selected at the end.
+   */
+  const handleStartAutoImprove = () => {
+    if (!selectedImage || isAutoRunning || refuseUnsupported(editProblem)) return;
+    const controller = new AbortController();
+    const maxIterations = autoMaxIterations;
+    setAutoRun({ controller, maxIterations, iteration: 0, scores: [] });
+
+    runCritiqueLoop({
+      image: selectedImage,
+      sourcePrompt: sourcePromptFor(selectedImage),
+      targetScore: autoTargetScore,
+      maxIterations,
+      model: config.model,
+      provider,
+      signal: controller.signal,
+      onCritiqued: (image) => {
+        onImageUpdated(image);
+        setSelectedImage(prev => prev?.id === image.id ? image : prev);
+        setAutoRun(prev => prev && { ...prev, scores: [...prev.scores, averageScore(image.critique!)] });
+      },
+      onRefined: (image) => {
+        onImageGenerated(image);
+        setSelectedImage(image);
+        setAutoRun(prev => prev && { ...prev, iteration: prev.iteration + 1 });
       }
-    } catch (e) {
-      alert("Failed to refine image.");
-    } finally {
-      setIsGenerating(false);
+    }).then(({ reason, best }) => {
+      setAutoRun(prev => prev && { ...prev, reason });
+      if (reason !== 'stopped') setSelectedImage(best);
+    }).catch(e => {
+      setAutoRun(prev => prev && { ...prev, error: e instanceof Error ? e.message : String(e) });
+      notifyError(e, 'Auto-Improve');
+    });
+  };
+
+  const handleCloseAutoImprove = () => {
+    setAutoPanelOpen(false);
+    setAutoRun(null);
+  };
+
+  const handleUseBlockedText = (text: string) => {
+    if (!blocked) return;
+    if (blocked.operation === 'generate') {
+      setPrompt(text);
+    } else if (blocked.source) {
+      setSelectedImage(blocked.source);
+      setEditPrompt(text);
+      // The mask editor starts blank, so any earlier mask has to be repainted
+      setEditMask(null);
+      setEditMode(true);
     }
+    setBlocked(null);
   };
 
-  const handleAnalyze = async () => {
-    if (!selectedImage) return;
-    setIsGenerating(true);
-    const result = await analyzeImage(selectedImage.url);
-    setAnalysis(result);
-    setIsGenerating(false);
+  const handleRetryBlocked = (text: string) => {
+    if (!blocked) return;
+    if (blocked.operation === 'generate') {
+      startGeneration(text, blocked.config || config);
+    } else if (blocked.source) {
+      queueRefine(blocked.source, text, blocked.mask || null);
+    }
   };
 
-  const handleDownload = () => {
-    if (!selectedImage) return;
-    const link = document.createElement('a');
-    link.href = selectedImage.url;
-    link.download = `glowmint-muse-${selectedImage.id}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Characters matching the @mention being typed at the end of the prompt
+  const mentionQuery = trailingMention(prompt);
+  const mentionSuggestions = mentionQuery === null
+    ? []
+    : characters.filter(c => c.name.toLowerCase().startsWith(mentionQuery.toLowerCase()) && c.name !== mentionQuery).slice(0, 5);
+
+  const completeMention = (character: Character) => {
+    setPrompt(`${prompt.slice(0, prompt.length - (mentionQuery || '').length - 1)}@${character.name} `);
+  };
+
+  const handleMentionCharacter = (character: Character) => {
+    const separator = prompt && !/\s$/.test(prompt) ? ' ' : '';
+    setPrompt(`${prompt}${separator}@${character.name} `);
+  };
+
+  const handleReferenceUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    Array.from(e.target.files || []).forEach(file => {
+      const reader = new FileReader();
+      reader.onloadend = () => onAddReference(reader.result as string, 'upload');
+      reader.readAsDataURL(file);
+    });
+    e.target.value = '';
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => onImportImage(reader.result as string, `Imported: ${file.name}`);
+    reader.readAsDataURL(file);
   };
 
   return (
     <div className="flex-1 flex flex-col h-full bg-slate-950 overflow-hidden relative">
       {/* Top Bar: Controls */}
-      <div className="p-6 bg-slate-900/50 border-b border-slate-800 z-20 shrink-0">
+      <div className="p-6 bg-slate-900/50 border-b border-slate-800 z-20 shrink-0 relative">
         <div className="max-w-4xl mx-auto space-y-4">
           <div className="flex gap-4">
              <div className="flex-1 relative group">
@@ -155,6 +540,20 @@ export const ImageWorkspace: React.FC<ImageWorkspaceProps> = ({
                   placeholder="Describe your vision (or ask GlowMint Muse for help)..."
                   className="w-full bg-slate-900 border border-slate-700 rounded-xl p-3 pr-20 text-slate-200 focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none resize-none h-24 text-sm shadow-inner transition-colors duration-200"
                 />
+                {mentionSuggestions.length > 0 && (
+                  <div className="absolute bottom-2 left-2 flex gap-1">
+                    {mentionSuggestions.map(character => (
+                      <button
+                        key={character.id}
+                        onClick={() => completeMention(character)}
+                        className="text-[11px] px-2 py-0.5 rounded-full bg-teal-500/15 border border-teal-500/30 text-teal-200 hover:bg-teal-500/25"
+                        title={character.description}
+                      >
+                        @{character.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
                 <div className="absolute bottom-3 right-3 text-xs text-slate-500">
                     {prompt.length} chars
                 </div>
@@ -163,11 +562,12 @@ export const ImageWorkspace: React.FC<ImageWorkspaceProps> = ({
              <div className="w-64 space-y-3">
                 <Button 
                     onClick={handleGenerate} 
-                    isLoading={isGenerating} 
+                    disabled={!!generateProblem}
+                    title={generateProblem}
                     className="w-full py-3 h-full text-lg shadow-xl shadow-teal-500/10 hover:shadow-teal-500/30 transform transition-all hover:scale-[1.02]"
                     icon="✨"
                 >
-                    Generate
+                    Generate{variationCount > 1 ? ` ×${variationCount}` : ''}
                 </Button>
              </div>
           </div>
@@ -175,23 +575,50 @@ export const ImageWorkspace: React.FC<ImageWorkspaceProps> = ({
           <div className="flex items-center gap-4 text-sm animate-fade-in">
             <select 
               value={config.model}
-              onChange={(e) => setConfig({...config, model: e.target.value as GenerationModel})}
+              onChange={(e) => setConfig(fitConfigToModel({...config, model: e.target.value as GenerationModel}))}
               className="bg-slate-800 border border-slate-700 text-slate-300 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-teal-500 outline-none transition-colors cursor-pointer hover:border-slate-600"
             >
-              <option value={GenerationModel.Flash}>⚡ Gemini Flash (Fast)</option>
-              <option value={GenerationModel.Pro}>💎 Gemini Pro (Quality)</option>
+              {IMAGE_MODELS.map(model => {
+                const { icon, label, tagline } = MODEL_CAPABILITIES[model];
+                const cost = relativeCost(model);
+                return (
+                  <option key={model} value={model}>
+                    {icon} {label} ({tagline}){cost > 1 ? ` · ${cost.toFixed(1)}× cost` : ''}
+                  </option>
+                );
+              })}
             </select>
 
             <select 
-              value={config.aspectRatio}
-              onChange={(e) => setConfig({...config, aspectRatio: e.target.value as AspectRatio})}
+              value={modelConfig.aspectRatio}
+              onChange={(e) => setConfig({...modelConfig, aspectRatio: e.target.value as AspectRatio})}
+              className="bg-slate-800 border border-slate-700 text-slate-300 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-teal-500 outline-none transition-colors cursor-pointer hover:border-slate-600"
+            >
+              {capabilities.aspectRatios.map(ratio => (
+                <option key={ratio} value={ratio}>{ratio} {ASPECT_RATIO_LABELS[ratio]}</option>
+              ))}
+            </select>
+
+            {capabilities.imageSizes.length > 0 && (
+              <select 
+                value={modelConfig.imageSize}
+                onChange={(e) => setConfig({...modelConfig, imageSize: e.target.value as ImageSize})}
+                className="bg-slate-800 border border-slate-700 text-slate-300 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-teal-500 outline-none transition-colors cursor-pointer hover:border-slate-600"
+                title="Output size"
+              >
+                {capabilities.imageSizes.map(size => <option key={size} value={size}>{size}</option>)}
+              </select>
+            )}
+
+            <select 
+              value={variationCount}
+              onChange={(e) => setConfig({...config, variationCount: Number(e.target.value)})}
               className="bg-slate-800 border border-slate-700 text-slate-300 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-teal-500 outline-none transition-colors cursor-pointer hover:border-slate-600"
+              title="Variations per Generate"
             >
-              <option value={AspectRatio.Square}>1:1 Square</option>
-              <option value={AspectRatio.Landscape}>4:3 Landscape</option>
-              <option value={AspectRatio.Wide}>16:9 Wide</option>
-              <option value={AspectRatio.Portrait}>3:4 Portrait</option>
-              <option value={AspectRatio.Tall}>9:16 Tall</option>
+              {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(n => (
+                <option key={n} value={n}>{n === 1 ? '1 image' : `${n} variations`}</option>
+              ))}
             </select>
             
             <input 
@@ -202,6 +629,66 @@ export const ImageWorkspace: React.FC<ImageWorkspaceProps> = ({
                className="flex-1 bg-transparent border-b border-slate-700 text-slate-400 placeholder-slate-600 px-2 py-1 focus:border-teal-500 outline-none transition-colors"
             />
 
+            <Button
+              variant="ghost"
+              onClick={() => referenceInputRef.current?.click()}
+              className={`px-2 ${references.length > 0 ? 'text-teal-300' : ''}`}
+              title="Add reference images (style, subject or composition)"
+            >
+              🖇️
+            </Button>
+            <input
+              type="file"
+              ref={referenceInputRef}
+              onChange={handleReferenceUpload}
+              accept="image/*"
+              multiple
+              className="hidden"
+            />
+
+            <Button
+              variant="ghost"
+              onClick={() => importInputRef.current?.click()}
+              className="px-2"
+              title="Import an image (restores the prompt and settings of GlowMint exports)"
+            >
+              📥
+            </Button>
+            <input
+              type="file"
+              ref={importInputRef}
+              onChange={handleImportFile}
+              accept="image/*"
+              className="hidden"
+            />
+
+            <Button
+              variant="ghost"
+              onClick={() => setShowBuilder(!showBuilder)}
+              className={`px-2 ${showBuilder ? 'text-teal-300' : ''}`}
+              title="Prompt Builder"
+            >
+              🧱
+            </Button>
+
+            <Button
+              variant="ghost"
+              onClick={() => { setShowCharacters(!showCharacters); setShowPresets(false); }}
+              className={`px-2 ${showCharacters ? 'text-teal-300' : ''}`}
+              title="Characters (@mentions)"
+            >
+              👥
+            </Button>
+
+            <Button
+              variant="ghost"
+              onClick={() => { setShowPresets(!showPresets); setShowCharacters(false); }}
+              className={`px-2 ${showPresets ? 'text-teal-300' : ''}`}
+              title="Style Presets"
+            >
+              🎨
+            </Button>
+
             <div className="h-6 w-px bg-slate-700 mx-1" />
 
             <div className="flex gap-1">
@@ -209,7 +696,7 @@ export const ImageWorkspace: React.FC<ImageWorkspaceProps> = ({
                 variant="ghost" 
                 onClick={handleUndo} 
                 disabled={!canUndo} 
-                title="Undo (Previous Image)"
+                title="Undo (Parent Version)"
                 className="px-2"
               >
                 ↩️
@@ -218,19 +705,69 @@ export const ImageWorkspace: React.FC<ImageWorkspaceProps> = ({
                 variant="ghost" 
                 onClick={handleRedo} 
                 disabled={!canRedo} 
-                title="Redo (Next Image)"
+                title="Redo (Child Version)"
                 className="px-2"
               >
                 ↪️
               </Button>
             </div>
           </div>
+
+          {references.length > 0 && <ReferenceTray references={references} onChange={onChangeReferences} />}
+          {generateProblem && (
+            <p className="text-xs text-amber-300">{generateProblem} Remove some, or switch to a model that takes more.</p>
+          )}
+
+          {showBuilder && <PromptBuilder prompt={prompt} setPrompt={setPrompt} />}
         </div>
+
+        {showPresets && (
+          <PresetLibrary
+            presets={presets}
+            initialSubject={prompt}
+            onApply={(preset, filled) => { onApplyPreset(preset, filled); setShowPresets(false); }}
+            onSave={onSavePreset}
+            onDelete={onDeletePreset}
+            onImport={onImportPresets}
+            onClose={() => setShowPresets(false)}
+            className="absolute top-full right-6 mt-2 w-96 z-30"
+          />
+        )}
+
+        {showCharacters && (
+          <CharacterLibrary
+            characters={characters}
+            images={generatedImages}
+            selectedImage={selectedImage}
+            onSave={onSaveCharacter}
+            onDelete={onDeleteCharacter}
+            onMention={handleMentionCharacter}
+            onSelectImage={selectImage}
+            onClose={() => setShowCharacters(false)}
+            className="absolute top-full right-6 mt-2 w-96 z-30"
+          />
+        )}
       </div>
 
+      {blocked && (
+        <BlockedImageNotice
+          request={blocked}
+          onUseText={handleUseBlockedText}
+          onRetry={handleRetryBlocked}
+          onDismiss={() => setBlocked(null)}
+        />
+      )}
+
       {/* Main Content: Viewer or Empty State */}
       <div className="flex-1 overflow-hidden relative flex flex-col">
-        {isGenerating ? (
+        {variations.length > 0 ? (
+           <VariationGrid
+              variations={variations}
+              onToggleKeep={handleToggleKeep}
+              onKeepSelected={handleKeepVariations}
+              onDiscardAll={handleDiscardVariations}
+           />
+        ) : hasActiveGeneration && !selectedImage ? (
            <div className="w-full h-full flex flex-col p-2 gap-2 animate-fade-in">
               {/* Skeleton Canvas */}
               <div className="flex-1 rounded-xl bg-slate-900 relative overflow-hidden flex items-center justify-center ring-1 ring-white/5 shadow-2xl">
@@ -269,40 +806,100 @@ export const ImageWorkspace: React.FC<ImageWorkspaceProps> = ({
             
             {/* Image Viewer */}
             <div className="flex-1 min-h-0 relative group rounded-xl overflow-hidden shadow-2xl ring-1 ring-white/10 bg-slate-900 flex items-center justify-center bg-[url('https://www.transparenttextures.com/patterns/cubes.png')] animate-fade-in">
-               <img 
-                 src={selectedImage.url} 
-                 alt={selectedImage.prompt} 
-                 className="max-w-full max-h-full object-contain transition-transform duration-500 group-hover:scale-[1.01]"
-               />
+               {editMode ? (
+                 <MaskEditor
+                   key={selectedImage.id}
+                   imageUrl={selectedImage.url}
+                   alt={selectedImage.prompt}
+                   onChange={setEditMask}
+                 />
+               ) : comparedImage ? (
+                 <div className="w-full h-full grid grid-cols-2 gap-2 p-2">
+                   {[selectedImage, comparedImage].map((img, i) => (
+                     <div key={img.id} className="relative min-h-0 flex items-center justify-center">
+                       <img src={img.url} alt={img.prompt} className="max-w-full max-h-full object-contain" />
+                       <span className={`absolute top-2 left-2 text-[10px] font-bold rounded-full px-2 py-0.5 bg-black/70 ${i === 0 ? 'text-teal-300' : 'text-amber-300'}`}>
+                         {i === 0 ? 'Selected' : 'Comparing'} · {img.operation}
+                       </span>
+                     </div>
+                   ))}
+                   <button
+                     onClick={() => setCompareImage(null)}
+                     className="absolute top-2 right-2 z-10 text-xs bg-black/70 text-slate-300 hover:text-white rounded-full px-2 py-0.5"
+                   >
+                     ✕ Close compare
+                   </button>
+                 </div>
+               ) : (
+                 <img 
+                   src={selectedImage.url} 
+                   alt={selectedImage.prompt} 
+                   className="max-w-full max-h-full object-contain transition-transform duration-500 group-hover:scale-[1.01]"
+                 />
+               )}
                
-               {/* Overlay Controls */}
+               {/* Overlay Controls (hidden while painting a mask) */}
+               {!editMode && (
                <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/90 to-transparent p-6 opacity-0 group-hover:opacity-100 transition-all duration-300 translate-y-4 group-hover:translate-y-0 flex justify-center items-end h-32">
                   <div className="flex gap-3">
-                    <Button variant="secondary" onClick={handleDownload} icon="⬇️" className="hover:-translate-y-1">Download</Button>
-                    <Button variant="secondary" onClick={() => setEditMode(!editMode)} icon="🪄" className="hover:-translate-y-1">Magic Edit</Button>
+                    <Button variant="secondary" onClick={() => setShowExport(true)} icon="⬇️" className="hover:-translate-y-1">Download</Button>
+                    <Button variant="secondary" onClick={() => setEditMode(true)} disabled={!!editProblem} title={editProblem} icon="🪄" className="hover:-translate-y-1">Magic Edit</Button>
                     <Button variant="secondary" onClick={handleAnalyze} icon="🧐" className="hover:-translate-y-1">Critique</Button>
+                    <Button variant="secondary" onClick={() => onAddReference(selectedImage.url, 'history', selectedImage.id)} icon="📌" className="hover:-translate-y-1">Reference</Button>
+                    <Button variant="secondary" onClick={() => setAutoPanelOpen(true)} disabled={!!editProblem} title={editProblem} icon="♻️" className="hover:-translate-y-1">Auto-Improve</Button>
                   </div>
                </div>
+               )}
             </div>
 
             {/* Bottom Panel: Analysis, Edit, History */}
             <div className="shrink-0 flex flex-col gap-3">
-                {/* Analysis Result */}
-                {analysis && (
-                    <div className="w-full bg-slate-900/80 border border-slate-700 rounded-lg p-3 animate-slide-up max-h-32 overflow-y-auto custom-scrollbar shadow-lg">
-                        <h3 className="text-teal-400 text-xs font-semibold mb-1 flex items-center gap-1">
-                            <span>👁️</span> Gemini Vision Analysis
-                        </h3>
-                        <p className="text-slate-300 text-xs leading-relaxed">{analysis}</p>
+                {/* References the selected image was generated with */}
+                {selectedImage.references && selectedImage.references.length > 0 && (
+                    <div className="flex items-center gap-2 text-[11px] text-slate-500">
+                        <span>Made with</span>
+                        {selectedImage.references.map(ref => (
+                            <span key={ref.id} className="flex items-center gap-1 bg-slate-900 border border-slate-800 rounded-full pl-0.5 pr-2 py-0.5">
+                                <img src={ref.url} alt="" className="w-5 h-5 rounded-full object-cover" />
+                                {ref.role}
+                            </span>
+                        ))}
+                        <button
+                            onClick={() => onChangeReferences(selectedImage.references!)}
+                            className="text-teal-400 hover:text-teal-300"
+                        >
+                            Reuse references
+                        </button>
                     </div>
                 )}
 
+                {/* Analysis Result */}
+                {selectedImage.critique && (
+                    <CritiquePanel critique={selectedImage.critique} onApplyFix={handleApplyFix} />
+                )}
+
+                {/* Auto-Improve Panel */}
+                {(autoPanelOpen || isAutoRunning) && (
+                    <AutoImprovePanel
+                        run={autoRun}
+                        targetScore={autoTargetScore}
+                        maxIterations={autoMaxIterations}
+                        onTargetScoreChange={setAutoTargetScore}
+                        onMaxIterationsChange={setAutoMaxIterations}
+                        onStart={handleStartAutoImprove}
+                        onStop={() => autoRun?.controller.abort()}
+                        onClose={handleCloseAutoImprove}
+                    />
+                )}
+
                 {/* Magic Edit Panel */}
                 {editMode && (
                     <div className="w-full bg-slate-800/50 border border-teal-500/30 rounded-xl p-3 flex gap-3 items-center animate-slide-up shadow-lg shadow-teal-500/5">
                         <div className="bg-teal-500/20 p-2 rounded-lg text-teal-300 text-xl animate-pulse">🪄</div>
                         <div className="flex-1">
-                            <label className="block text-[10px] text-teal-300 mb-0.5 font-semibold">SEMANTIC EDITING</label>
+                            <label className="block text-[10px] text-teal-300 mb-0.5 font-semibold">
+                                {editMask ? 'MASKED EDIT · ONLY THE PAINTED AREA CHANGES' : 'SEMANTIC EDITING · PAINT A MASK TO LIMIT THE EDIT'}
+                            </label>
                             <input 
                                 type="text" 
                                 className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:ring-1 focus:ring-teal-500 outline-none transition-all"
@@ -311,28 +908,134 @@ export const ImageWorkspace: React.FC<ImageWorkspaceProps> = ({
                                 onChange={(e) => setEditPrompt(e.target.value)}
                             />
                         </div>
-                        <Button onClick={handleRefine} isLoading={isGenerating}>Apply</Button>
+                        <Button variant="ghost" onClick={closeEditor}>Cancel</Button>
+                        <Button onClick={handleRefine} disabled={!editPrompt.trim()}>Apply</Button>
                     </div>
                 )}
                 
-                {/* History - Horizontal Scroll */}
+                {/* Export Panel */}
+                {showExport && <ExportPanel image={selectedImage} onClose={() => setShowExport(false)} />}
+
+                {/* Bulk Export Panel */}
+                {bulkExport && <BulkExportPanel images={bulkExport} library={generatedImages} onClose={() => setBulkExport(null)} />}
+
+                {/* History - Horizontal Scroll, or the selected image's version tree */}
                 <div className="w-full pt-2 border-t border-slate-800">
+                    <div className="flex justify-between items-center mb-1">
+                        <div className="flex gap-1">
+                            {(['recent', 'versions'] as const).map(view => (
+                                <button
+                                    key={view}
+                                    onClick={() => setHistoryView(view)}
+                                    className={`text-[10px] px-2 py-0.5 rounded-full transition-colors ${historyView === view ? 'bg-slate-700 text-slate-200' : 'text-slate-500 hover:text-slate-300'}`}
+                                >
+                                    {view === 'recent' ? 'Recent' : `🌳 Versions (${versionNodes.length})`}
+                                </button>
+                            ))}
+                        </div>
+                        {historyView === 'recent' && (
+                        <div className="flex items-center gap-1">
+                            {selectingHistory ? (
+                                <>
+                                    <span className="text-[10px] text-slate-400 px-1">{checkedImages.length} selected</span>
+                                    <button
+                                        onClick={() => setCheckedIds(new Set(historyImages.map(img => img.id)))}
+                                        className="text-[10px] px-2 py-0.5 text-slate-500 hover:text-slate-300"
+                                    >
+                                        All
+                                    </button>
+                                    <button
+                                        onClick={() => setCheckedIds(new Set())}
+                                        className="text-[10px] px-2 py-0.5 text-slate-500 hover:text-slate-300"
+                                    >
+                                        None
+                                    </button>
+                                    <button
+                                        onClick={() => setBulkExport(checkedImages)}
+                                        disabled={checkedImages.length === 0}
+                                        className="text-[10px] px-2 py-0.5 rounded-full border border-teal-500/50 text-teal-300 bg-teal-500/10 hover:bg-teal-500/20 disabled:opacity-40 disabled:cursor-not-allowed"
+                                    >
+                                        ⬇️ Download selection
+                                    </button>
+                                    <button onClick={stopSelecting} className="text-[10px] px-2 py-0.5 text-slate-500 hover:text-slate-300" title="Stop selecting">×</button>
+                                </>
+                            ) : (
+                                <>
+                                    <button
+                                        onClick={() => setSelectingHistory(true)}
+                                        className="text-[10px] px-2 py-0.5 rounded-full border border-slate-700 text-slate-500 hover:text-slate-300 transition-colors"
+                                        title="Pick images to download together (shift-click selects a range)"
+                                    >
+                                        ☑️ Select
+                                    </button>
+                                    <button
+                                        onClick={() => setBulkExport(historyImages)}
+                                        disabled={historyImages.length === 0}
+                                        className="text-[10px] px-2 py-0.5 rounded-full border border-slate-700 text-slate-500 hover:text-slate-300 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                        title="Download every image shown below as a ZIP"
+                                    >
+                                        ⬇️ Download all
+                                    </button>
+                                </>
+                            )}
+                            <button
+                                onClick={() => setThreadOnly(!threadOnly)}
+                                className={`text-[10px] px-2 py-0.5 rounded-full border transition-colors ${threadOnly ? 'border-teal-500/50 text-teal-300 bg-teal-500/10' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+                                title="Show only images created in the current conversation thread"
+                            >
+                                {threadOnly ? `💬 ${activeThreadName}` : 'All threads'}
+                            </button>
+                        </div>
+                        )}
+                    </div>
+                    {historyView === 'versions' ? (
+                        <VersionTree
+                            nodes={versionNodes}
+                            selectedId={selectedImage.id}
+                            compareId={comparedImage?.id || null}
+                            onSelect={selectImage}
+                            onCompare={setCompareImage}
+                        />
+                    ) : (
                     <div className="flex gap-2 overflow-x-auto pb-1 custom-scrollbar h-20 items-center">
-                        {generatedImages.map(img => (
+                        {historyImages.length === 0 && (
+                            <span className="text-xs text-slate-600 px-2">No images in this thread yet.</span>
+                        )}
+                        {historyImages.map(img => (
                             <button 
                                 key={img.id}
-                                onClick={() => { setSelectedImage(img); setEditMode(false); setAnalysis(null); setPrompt(img.prompt); }}
-                                className={`relative h-16 aspect-square shrink-0 rounded-lg overflow-hidden border-2 transition-all duration-200 ${selectedImage.id === img.id ? 'border-teal-500 scale-105 shadow-lg shadow-teal-500/20' : 'border-transparent opacity-60 hover:opacity-100 hover:scale-105'}`}
+                                onClick={(e) => selectingHistory ? toggleChecked(img, e.shiftKey) : selectImage(img)}
+                                className={`relative h-16 aspect-square shrink-0 rounded-lg overflow-hidden border-2 transition-all duration-200 ${
+                                    selectingHistory
+                                        ? checkedIds.has(img.id) ? 'border-teal-500' : 'border-transparent opacity-60 hover:opacity-100'
+                                        : selectedImage.id === img.id ? 'border-teal-500 scale-105 shadow-lg shadow-teal-500/20' : 'border-transparent opacity-60 hover:opacity-100 hover:scale-105'
+                                }`}
                             >
                                 <img src={img.url} className="w-full h-full object-cover" loading="lazy" />
+                                {selectingHistory && (
+                                    <span className={`absolute top-0.5 right-0.5 w-4 h-4 rounded flex items-center justify-center text-[10px] ${checkedIds.has(img.id) ? 'bg-teal-500 text-slate-900' : 'bg-black/60 border border-slate-500'}`}>
+                                        {checkedIds.has(img.id) && '✓'}
+                                    </span>
+                                )}
+                                {img.parentId && (
+                                    <span className="absolute bottom-0.5 right-0.5 text-[9px] bg-black/70 rounded px-0.5" title="Derived version">🪄</span>
+                                )}
+                                {img.critique && (
+                                    <span className="absolute top-0.5 left-0.5 text-[9px] font-bold bg-black/70 text-slate-200 rounded px-1" title="Critique score">
+                                        {averageScore(img.critique).toFixed(1)}
+                                    </span>
+                                )}
                             </button>
                         ))}
                     </div>
+                    )}
                 </div>
             </div>
           </div>
         )}
       </div>
+
+      <JobsPanel />
     </div>
   );
 };
\ No newline at end of file
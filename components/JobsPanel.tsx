@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Job, JobStatus, isFinished, jobQueue, useJobs } from '../services/jobQueue';
+
+const KIND_ICONS: Record<Job['kind'], string> = {
+  generate: '✨',
+  refine: '🪄',
+  analyze: '🧐'
+};
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'text-slate-400 bg-slate-800 border-slate-700',
+  running: 'text-teal-300 bg-teal-500/10 border-teal-500/30',
+  retrying: 'text-amber-300 bg-amber-500/10 border-amber-500/30',
+  succeeded: 'text-emerald-300 bg-emerald-500/10 border-emerald-500/30',
+  failed: 'text-red-300 bg-red-500/10 border-red-500/30',
+  cancelled: 'text-slate-500 bg-slate-800 border-slate-700'
+};
+
+export const JobsPanel: React.FC = () => {
+  const jobs = useJobs();
+  const [isOpen, setIsOpen] = useState(true);
+
+  if (jobs.length === 0) return null;
+
+  const activeCount = jobs.filter(job => !isFinished(job)).length;
+  const failedCount = jobs.filter(job => job.status === 'failed').length;
+
+  return (
+    <div className="absolute bottom-28 right-4 w-80 z-30 bg-slate-900/95 backdrop-blur border border-slate-700 rounded-xl shadow-2xl overflow-hidden animate-pop-in">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-3 py-2 bg-slate-800/60 hover:bg-slate-800 transition-colors"
+      >
+        <span className="text-xs font-semibold text-slate-200 flex items-center gap-2">
+          {activeCount > 0 && <span className="w-3 h-3 border-2 border-teal-400 border-t-transparent rounded-full animate-spin" />}
+          Jobs · {activeCount} active{failedCount > 0 ? ` · ${failedCount} failed` : ''}
+        </span>
+        <span className={`text-slate-500 text-xs transition-transform ${isOpen ? '' : 'rotate-180'}`}>▾</span>
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="max-h-64 overflow-y-auto custom-scrollbar divide-y divide-slate-800">
+            {jobs.map(job => (
+              <div key={job.id} className="px-3 py-2 flex items-start gap-2 text-xs">
+                <span className="mt-0.5">{KIND_ICONS[job.kind]}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-slate-300 truncate" title={job.label}>{job.label}</div>
+                  <div className="flex items-center gap-2 mt-1">
+                    <span className={`px-1.5 py-0.5 rounded border text-[10px] font-semibold uppercase tracking-wider ${STATUS_STYLES[job.status]}`}>
+                      {job.status}
+                    </span>
+                    {job.attempts > 1 && <span className="text-[10px] text-slate-500">attempt {job.attempts}</span>}
+                  </div>
+                  {job.error && (job.status === 'failed' || job.status === 'retrying') && (
+                    <div className="text-[10px] text-red-300/80 mt-1 line-clamp-2" title={job.error}>{job.error}</div>
+                  )}
+                </div>
+                {isFinished(job) ? (
+                  <button onClick={() => jobQueue.dismiss(job.id)} className="text-slate-600 hover:text-slate-300 px-1" title="Dismiss">×</button>
+                ) : (
+                  <button onClick={() => jobQueue.cancel(job.id)} className="text-[10px] text-slate-400 hover:text-red-400 px-1" title="Cancel">Cancel</button>
+                )}
+              </div>
+            ))}
+          </div>
+          {jobs.some(isFinished) && (
+            <button
+              onClick={jobQueue.clearFinished}
+              className="w-full text-[10px] text-slate-500 hover:text-slate-300 py-1.5 border-t border-slate-800 transition-colors"
+            >
+              Clear finished
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import { Markdown } from './Markdown';
+
+const render = (text: string) => renderToStaticMarkup(<Markdown text={text} />);
+
+describe('Markdown', () => {
+  it('renders inline formatting as elements', () => {
+    const html = render('**bold** *it* ~~gone~~ `code`');
+    expect(html).toContain('<strong class="font-semibold text-white">bold</strong>');
+    expect(html).toContain('<em>it</em>');
+    expect(html).toContain('<del class="text-slate-500">gone</del>');
+    expect(html).toMatch(/<code [^>]*>code<\/code>/);
+  });
+
+  it('escapes raw HTML', () => {
+    const html = render('<img src=x onerror="alert(1)"> <script>alert(2)</script>');
+    expect(html).not.toContain('<img');
+    expect(html).not.toContain('<script');
+    expect(html).toContain('&lt;img src=x onerror=&quot;alert(1)&quot;&gt;');
+  });
+
+  it('opens safe links in a new tab and drops unsafe ones', () => {
+    const html = render('[docs](https://example.com/docs) [bad](javascript:alert(1))');
+    expect(html).toContain('href="https://example.com/docs" target="_blank" rel="noopener noreferrer nofollow"');
+    expect(html).not.toContain('javascript:');
+    expect(html).toContain('bad');
+  });
+
+  it('renders tables with their alignment', () => {
+    const html = render('| a | b |\n|:-:|--:|\n| 1 | 2 |');
+    expect(html).toMatch(/<th [^>]*text-center[^>]*>a<\/th>/);
+    expect(html).toMatch(/<td [^>]*text-right[^>]*>2<\/td>/);
+  });
+
+  it('renders hostile nesting without overflowing the stack', () => {
+    expect(() => render('>'.repeat(5000) + ' deep\n\n' + '['.repeat(5000) + 'x' + '](https://a.com)'.repeat(5000))).not.toThrow();
+  });
+});
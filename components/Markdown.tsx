@@ -0,0 +1,123 @@
+import React, { useMemo } from 'react';
+import { MarkdownBlock, MarkdownInline, parseMarkdown, TableAlign } from '../services/markdown';
+import { CodeTokenKind, highlightCode } from '../services/syntaxHighlight';
+
+interface MarkdownProps {
+  text: string;
+}
+
+const TOKEN_CLASSES: Record<CodeTokenKind, string> = {
+  plain: '',
+  comment: 'text-slate-500 italic',
+  string: 'text-emerald-300',
+  number: 'text-amber-300',
+  keyword: 'text-teal-300',
+  literal: 'text-sky-300',
+  tag: 'text-teal-300'
+};
+
+const HEADING_CLASSES = [
+  'text-base font-bold text-white',
+  'text-sm font-bold text-white',
+  'text-sm font-semibold text-slate-100',
+  'text-xs font-semibold text-slate-200 uppercase tracking-wider',
+  'text-xs font-semibold text-slate-300',
+  'text-xs font-medium text-slate-400'
+];
+
+const ALIGN_CLASSES: Record<string, string> = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const alignClass = (align: TableAlign) => (align ? ALIGN_CLASSES[align] : 'text-left');
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={i} />;
+      case 'strong':
+        return <strong key={i} className="font-semibold text-white">{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case 'strike':
+        return <del key={i} className="text-slate-500">{renderInline(node.children)}</del>;
+      case 'code':
+        return <code key={i} className="bg-slate-900/80 border border-slate-700/60 rounded px-1 py-0.5 text-[0.85em] font-mono text-teal-200">{node.text}</code>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-teal-300 underline decoration-teal-500/40 hover:decoration-teal-300 break-words">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const renderBlocks = (blocks: MarkdownBlock[]): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={i}>{renderInline(block.children)}</p>;
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1';
+        return <Tag key={i} className={HEADING_CLASSES[block.level - 1]}>{renderInline(block.children)}</Tag>;
+      }
+      case 'code':
+        return (
+          <div key={i} className="rounded-lg border border-slate-700/60 bg-slate-950/80 overflow-hidden">
+            {block.language && (
+              <div className="px-3 py-1 text-[10px] uppercase tracking-wider text-slate-500 border-b border-slate-800">{block.language}</div>
+            )}
+            <pre className="p-3 overflow-x-auto custom-scrollbar text-xs leading-relaxed font-mono text-slate-200">
+              <code>
+                {highlightCode(block.code, block.language).map((token, t) =>
+                  token.kind === 'plain' ? token.text : <span key={t} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+                )}
+              </code>
+            </pre>
+          </div>
+        );
+      case 'list': {
+        const items = block.items.map((item, j) => <li key={j} className="space-y-1">{renderBlocks(item)}</li>);
+        return block.ordered
+          ? <ol key={i} start={block.start} className="list-decimal pl-5 space-y-1 marker:text-slate-500">{items}</ol>
+          : <ul key={i} className="list-disc pl-5 space-y-1 marker:text-slate-500">{items}</ul>;
+      }
+      case 'blockquote':
+        return <blockquote key={i} className="border-l-2 border-teal-500/50 pl-3 text-slate-400 space-y-2">{renderBlocks(block.children)}</blockquote>;
+      case 'table':
+        return (
+          <div key={i} className="overflow-x-auto custom-scrollbar">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, c) => (
+                    <th key={c} className={`border-b border-slate-600 px-2 py-1 font-semibold text-slate-200 ${alignClass(block.align[c])}`}>{renderInline(cell)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r} className="border-b border-slate-800 last:border-0">
+                    {row.map((cell, c) => (
+                      <td key={c} className={`px-2 py-1 align-top ${alignClass(block.align[c])}`}>{renderInline(cell)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr key={i} className="border-slate-700" />;
+    }
+  });
+
+/**
+ * Chat message Markdown, rendered as React elements: text is always
+ * escaped, and links only ever point to http(s) or mailto URLs.
+ */
+export const Markdown: React.FC<MarkdownProps> = ({ text }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className="space-y-2 break-words">{renderBlocks(blocks)}</div>;
+};
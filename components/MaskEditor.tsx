@@ -0,0 +1,211 @@
+import React, { useRef, useState } from 'react';
+
+type MaskTool = 'brush' | 'lasso' | 'erase';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  alt: string;
+  /** Called after every stroke with a black/white PNG mask, or null when nothing is painted. */
+  onChange: (mask: string | null) => void;
+}
+
+const TOOLS: { id: MaskTool; icon: string; label: string }[] = [
+  { id: 'brush', icon: '🖌️', label: 'Brush' },
+  { id: 'lasso', icon: '➰', label: 'Lasso' },
+  { id: 'erase', icon: '🧽', label: 'Eraser' }
+];
+
+const MASK_COLOR = '#14b8a6';
+
+/**
+ * Paint the region Magic Edit is allowed to change. The canvas is kept at the
+ * image's natural resolution so the exported mask lines up pixel for pixel.
+ * Key it by image id: a new image needs a fresh canvas.
+ */
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, alt, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [hasMask, setHasMask] = useState(false);
+  const drawingRef = useRef(false);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const lassoRef = useRef<{ points: { x: number; y: number }[]; snapshot: ImageData } | null>(null);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height)
+    };
+  };
+
+  // Brush size is in screen pixels; scale it to image pixels
+  const scaledBrush = (canvas: HTMLCanvasElement) =>
+    brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+
+  const strokeTo = (ctx: CanvasRenderingContext2D, from: { x: number; y: number }, to: { x: number; y: number }) => {
+    ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = scaledBrush(ctx.canvas);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const traceLasso = (ctx: CanvasRenderingContext2D, points: { x: number; y: number }[]) => {
+    ctx.beginPath();
+    points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const point = toCanvasPoint(e);
+    if (tool === 'lasso') {
+      lassoRef.current = { points: [point], snapshot: ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height) };
+    } else {
+      lastPointRef.current = point;
+      strokeTo(ctx, point, point);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const point = toCanvasPoint(e);
+    if (tool === 'lasso' && lassoRef.current) {
+      // Redraw the outline from the pre-lasso state so the preview doesn't accumulate
+      lassoRef.current.points.push(point);
+      ctx.putImageData(lassoRef.current.snapshot, 0, 0);
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.strokeStyle = MASK_COLOR;
+      ctx.lineWidth = Math.max(2, scaledBrush(ctx.canvas) / 8);
+      traceLasso(ctx, lassoRef.current.points);
+      ctx.stroke();
+    } else if (lastPointRef.current) {
+      strokeTo(ctx, lastPointRef.current, point);
+      lastPointRef.current = point;
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    lastPointRef.current = null;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    if (tool === 'lasso' && lassoRef.current) {
+      ctx.putImageData(lassoRef.current.snapshot, 0, 0);
+      if (lassoRef.current.points.length > 2) {
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.fillStyle = MASK_COLOR;
+        traceLasso(ctx, lassoRef.current.points);
+        ctx.closePath();
+        ctx.fill();
+      }
+      lassoRef.current = null;
+    }
+    emitMask(ctx.canvas);
+  };
+
+  const emitMask = (canvas: HTMLCanvasElement) => {
+    const ctx = canvas.getContext('2d')!;
+    const alpha = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+    let painted = false;
+    for (let i = 3; i < alpha.length; i += 4) {
+      if (alpha[i] > 0) { painted = true; break; }
+    }
+    setHasMask(painted);
+    if (!painted) return onChange(null);
+
+    // Painted area → white, everything else → black
+    const white = document.createElement('canvas');
+    white.width = canvas.width;
+    white.height = canvas.height;
+    const whiteCtx = white.getContext('2d')!;
+    whiteCtx.drawImage(canvas, 0, 0);
+    whiteCtx.globalCompositeOperation = 'source-in';
+    whiteCtx.fillStyle = '#ffffff';
+    whiteCtx.fillRect(0, 0, white.width, white.height);
+
+    const mask = document.createElement('canvas');
+    mask.width = canvas.width;
+    mask.height = canvas.height;
+    const maskCtx = mask.getContext('2d')!;
+    maskCtx.fillStyle = '#000000';
+    maskCtx.fillRect(0, 0, mask.width, mask.height);
+    maskCtx.drawImage(white, 0, 0);
+    onChange(mask.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+    onChange(null);
+  };
+
+  return (
+    <div className="relative max-w-full max-h-full flex">
+      <img
+        src={imageUrl}
+        alt={alt}
+        onLoad={handleImageLoad}
+        className="max-w-full max-h-full object-contain select-none pointer-events-none"
+        draggable={false}
+      />
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+      />
+
+      {/* Mask Toolbar */}
+      <div className="absolute top-2 left-2 flex items-center gap-1 bg-slate-900/90 border border-slate-700 rounded-lg p-1 shadow-lg animate-fade-in">
+        {TOOLS.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTool(t.id)}
+            className={`px-2 py-1 rounded text-xs transition-colors ${tool === t.id ? 'bg-teal-500/20 text-teal-300' : 'text-slate-400 hover:text-slate-200'}`}
+            title={t.label}
+          >
+            {t.icon}
+          </button>
+        ))}
+        <input
+          type="range"
+          min={8}
+          max={120}
+          value={brushSize}
+          onChange={(e) => setBrushSize(Number(e.target.value))}
+          className="w-20 mx-1 accent-teal-500"
+          title={`Brush size: ${brushSize}px`}
+        />
+        <button
+          onClick={handleClear}
+          disabled={!hasMask}
+          className="px-2 py-1 rounded text-[10px] text-slate-400 hover:text-red-400 disabled:opacity-30 disabled:hover:text-slate-400"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useRef, useState } from 'react';
+import { AspectRatio, GenerationModel, StylePreset } from '../types';
+import { Button } from './Button';
+import { extractVariables, fillTemplate, parsePresetFile, serializePresets } from '../services/presetService';
+import { IMAGE_MODELS, MODEL_CAPABILITIES, modelBadge } from '../services/modelRegistry';
+
+interface PresetLibraryProps {
+  presets: StylePreset[];
+  /** Pre-fills the {{subject}} variable, e.g. from the current prompt. */
+  initialSubject?: string;
+  onApply: (preset: StylePreset, prompt: string) => void;
+  onSave: (preset: StylePreset) => void;
+  onDelete: (id: string) => void;
+  onImport: (presets: StylePreset[]) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+type View =
+  | { mode: 'list' }
+  | { mode: 'apply'; preset: StylePreset; values: Record<string, string> }
+  | { mode: 'edit'; draft: StylePreset };
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:ring-1 focus:ring-teal-500 outline-none";
+
+const newPreset = (): StylePreset => ({
+  id: `preset-${Date.now()}`,
+  name: '',
+  template: '{{subject}}, ',
+  updatedAt: new Date()
+});
+
+export const PresetLibrary: React.FC<PresetLibraryProps> = ({
+  presets,
+  initialSubject = '',
+  onApply,
+  onSave,
+  onDelete,
+  onImport,
+  onClose,
+  className = ''
+}) => {
+  const [view, setView] = useState<View>({ mode: 'list' });
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startApply = (preset: StylePreset) => {
+    const variables = extractVariables(preset.template);
+    // Nothing to fill in: apply straight away
+    if (variables.length === 0) return onApply(preset, preset.template);
+    setView({
+      mode: 'apply',
+      preset,
+      values: Object.fromEntries(variables.map(name => [name, name === 'subject' ? initialSubject : '']))
+    });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializePresets(presets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'glowmint-presets.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresetFile(await file.text());
+      onImport(imported);
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDelete = (preset: StylePreset) => {
+    if (window.confirm(`Delete the "${preset.name}" preset?`)) onDelete(preset.id);
+  };
+
+  return (
+    <div className={`bg-slate-900/95 backdrop-blur border border-slate-700 rounded-xl shadow-2xl overflow-hidden animate-pop-in flex flex-col ${className}`}>
+      <div className="flex items-center justify-between px-3 py-2 bg-slate-800/60 border-b border-slate-800">
+        <span className="text-xs font-semibold text-slate-200">🎨 Style Presets</span>
+        <div className="flex items-center gap-1">
+          {view.mode === 'list' && (
+            <>
+              <button onClick={() => fileInputRef.current?.click()} className="text-[10px] px-2 py-0.5 text-slate-400 hover:text-teal-300">Import</button>
+              <button onClick={handleExport} disabled={presets.length === 0} className="text-[10px] px-2 py-0.5 text-slate-400 hover:text-teal-300 disabled:opacity-30">Export</button>
+              <button onClick={() => setView({ mode: 'edit', draft: newPreset() })} className="text-[10px] px-2 py-0.5 text-slate-400 hover:text-teal-300">＋ New</button>
+            </>
+          )}
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-200 px-1" title="Close">×</button>
+        </div>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+      </div>
+
+      {view.mode === 'list' && (
+        <div className="max-h-80 overflow-y-auto custom-scrollbar divide-y divide-slate-800">
+          {importError && <div className="px-3 py-2 text-[10px] text-red-300 bg-red-500/10">Import failed: {importError}</div>}
+          {presets.length === 0 && <div className="px-3 py-4 text-xs text-slate-500 text-center">No presets yet.</div>}
+          {presets.map(preset => (
+            <div key={preset.id} className="group/preset px-3 py-2 flex items-start gap-2 hover:bg-slate-800/40">
+              <div className="flex-1 min-w-0">
+                <div className="text-xs text-slate-200 font-medium truncate">{preset.name}</div>
+                <div className="text-[10px] text-slate-500 truncate" title={preset.template}>{preset.template}</div>
+                {(preset.model || preset.aspectRatio) && (
+                  <div className="flex gap-1 mt-1">
+                    {preset.model && <span className="text-[9px] px-1.5 rounded bg-slate-800 text-slate-400">{modelBadge(preset.model)}</span>}
+                    {preset.aspectRatio && <span className="text-[9px] px-1.5 rounded bg-slate-800 text-slate-400">{preset.aspectRatio}</span>}
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-1 opacity-0 group-hover/preset:opacity-100 transition-opacity">
+                <button onClick={() => setView({ mode: 'edit', draft: preset })} className="text-[10px] p-1 text-slate-500 hover:text-teal-300" title="Edit">✏️</button>
+                <button onClick={() => handleDelete(preset)} className="text-[10px] p-1 text-slate-500 hover:text-red-400" title="Delete">🗑️</button>
+              </div>
+              <button
+                onClick={() => startApply(preset)}
+                className="shrink-0 text-[10px] px-2 py-1 rounded-md border border-teal-500/30 text-teal-300 hover:bg-teal-500/10 transition-colors active:scale-95"
+              >
+                Use
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {view.mode === 'apply' && (
+        <div className="p-3 space-y-2">
+          <div className="text-xs text-slate-300 font-medium">{view.preset.name}</div>
+          {Object.keys(view.values).map((name, idx) => (
+            <label key={name} className="block">
+              <span className="text-[10px] text-slate-500 uppercase tracking-wider">{name}</span>
+              <input
+                autoFocus={idx === 0}
+                value={view.values[name]}
+                onChange={(e) => setView({ ...view, values: { ...view.values, [name]: e.target.value } })}
+                className={inputClass}
+              />
+            </label>
+          ))}
+          <p className="text-[10px] text-slate-400 bg-slate-950/60 rounded p-2 leading-relaxed">
+            {fillTemplate(view.preset.template, view.values)}
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setView({ mode: 'list' })}>Back</Button>
+            <Button onClick={() => onApply(view.preset, fillTemplate(view.preset.template, view.values))}>Apply</Button>
+          </div>
+        </div>
+      )}
+
+      {view.mode === 'edit' && (
+        <div className="p-3 space-y-2">
+          <input
+            autoFocus
+            placeholder="Preset name"
+            value={view.draft.name}
+            onChange={(e) => setView({ mode: 'edit', draft: { ...view.draft, name: e.target.value } })}
+            className={inputClass}
+          />
+          <textarea
+            placeholder="Template, e.g. {{subject}}, 35mm film, soft grain"
+            value={view.draft.template}
+            onChange={(e) => setView({ mode: 'edit', draft: { ...view.draft, template: e.target.value } })}
+            className={`${inputClass} h-20 resize-none`}
+          />
+          <p className="text-[10px] text-slate-500">
+            Variables: {extractVariables(view.draft.template).map(v => `{{${v}}}`).join(', ') || 'none'}
+          </p>
+          <input
+            placeholder="Default negative prompt (optional)"
+            value={view.draft.negativePrompt || ''}
+            onChange={(e) => setView({ mode: 'edit', draft: { ...view.draft, negativePrompt: e.target.value || undefined } })}
+            className={inputClass}
+          />
+          <div className="flex gap-2">
+            <select
+              value={view.draft.model || ''}
+              onChange={(e) => setView({ mode: 'edit', draft: { ...view.draft, model: (e.target.value || undefined) as GenerationModel | undefined } })}
+              className={inputClass}
+            >
+              <option value="">Any model</option>
+              {IMAGE_MODELS.map(model => <option key={model} value={model}>{modelBadge(model)}</option>)}
+            </select>
+            <select
+              value={view.draft.aspectRatio || ''}
+              onChange={(e) => setView({ mode: 'edit', draft: { ...view.draft, aspectRatio: (e.target.value || undefined) as AspectRatio | undefined } })}
+              className={inputClass}
+            >
+              <option value="">Any aspect</option>
+              {(view.draft.model ? MODEL_CAPABILITIES[view.draft.model].aspectRatios : Object.values(AspectRatio)).map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+            </select>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setView({ mode: 'list' })}>Cancel</Button>
+            <Button
+              onClick={() => {
+                onSave({ ...view.draft, name: view.draft.name.trim(), updatedAt: new Date() });
+                setView({ mode: 'list' });
+              }}
+              disabled={!view.draft.name.trim() || !view.draft.template.trim()}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { compilePrompt, parsePrompt, PromptFieldKey, PromptFields, PROMPT_FIELD_KEYS } from '../services/promptBuilder';
+
+interface PromptBuilderProps {
+  prompt: string;
+  setPrompt: (p: string) => void;
+}
+
+const FIELD_INFO: Record<PromptFieldKey, { label: string; placeholder: string; suggestions: string[] }> = {
+  subject: { label: 'Subject', placeholder: 'A red fox wearing a knitted scarf', suggestions: [] },
+  setting: { label: 'Setting', placeholder: 'in a snowy birch forest', suggestions: ['in a neon-lit alley', 'on a misty mountain ridge', 'in a cozy cafe'] },
+  style: { label: 'Style / Medium', placeholder: 'watercolor illustration', suggestions: ['cinematic photograph', 'oil painting', '3D render', 'ink sketch'] },
+  lighting: { label: 'Lighting', placeholder: 'soft golden hour light', suggestions: ['golden hour light', 'dramatic rim lighting', 'overcast soft light'] },
+  camera: { label: 'Camera / Lens', placeholder: '85mm lens, shallow depth of field', suggestions: ['35mm wide shot', '85mm portrait lens', 'macro close-up', 'aerial drone shot'] },
+  palette: { label: 'Color Palette', placeholder: 'muted teal and amber tones', suggestions: ['pastel palette', 'teal and orange tones', 'monochrome'] },
+  mood: { label: 'Mood', placeholder: 'serene, nostalgic mood', suggestions: ['serene mood', 'ominous atmosphere', 'whimsical feeling'] }
+};
+
+/**
+ * Guided alternative to the freeform textarea. Editing a field rewrites the
+ * prompt; editing the prompt elsewhere re-parses it into the fields.
+ */
+export const PromptBuilder: React.FC<PromptBuilderProps> = ({ prompt, setPrompt }) => {
+  const [fields, setFields] = useState<PromptFields>(() => parsePrompt(prompt));
+  const filledCount = PROMPT_FIELD_KEYS.filter(key => fields[key].trim()).length;
+
+  // Only re-parse prompts the builder didn't write itself, so fields keep
+  // their exact text (e.g. trailing spaces) while typing here
+  useEffect(() => {
+    if (prompt !== compilePrompt(fields)) setFields(parsePrompt(prompt));
+  }, [prompt]);
+
+  const updateField = (key: PromptFieldKey, value: string) => {
+    const next = { ...fields, [key]: value };
+    setFields(next);
+    setPrompt(compilePrompt(next));
+  };
+
+  return (
+    <div className="bg-slate-900/60 border border-slate-800 rounded-xl p-3 animate-slide-up">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] font-semibold text-teal-300 uppercase tracking-wider">Prompt Builder</span>
+        <span className={`text-[10px] ${filledCount >= 5 ? 'text-emerald-400' : filledCount >= 3 ? 'text-amber-400' : 'text-slate-500'}`}>
+          {filledCount}/{PROMPT_FIELD_KEYS.length} details{filledCount < 3 ? ' · add more for richer results' : ''}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-2">
+        {PROMPT_FIELD_KEYS.map(key => (
+          <div key={key} className={key === 'subject' ? 'col-span-2' : ''}>
+            <label className="block text-[10px] text-slate-500 mb-0.5">{FIELD_INFO[key].label}</label>
+            <input
+              value={fields[key]}
+              onChange={(e) => updateField(key, e.target.value)}
+              placeholder={FIELD_INFO[key].placeholder}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 placeholder-slate-600 focus:ring-1 focus:ring-teal-500 outline-none"
+            />
+            {!fields[key] && FIELD_INFO[key].suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {FIELD_INFO[key].suggestions.map(suggestion => (
+                  <button
+                    key={suggestion}
+                    onClick={() => updateField(key, suggestion)}
+                    className="text-[9px] px-1.5 py-0.5 rounded-full border border-slate-700 text-slate-500 hover:text-teal-300 hover:border-teal-500/50 transition-colors"
+                  >
+                    {suggestion}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
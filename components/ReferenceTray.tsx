@@ -0,0 +1,62 @@
+import React from 'react';
+import { REFERENCE_ROLES, ReferenceImage, ReferenceRole } from '../types';
+
+interface ReferenceTrayProps {
+  references: ReferenceImage[];
+  onChange: (references: ReferenceImage[]) => void;
+}
+
+const ROLE_LABELS: Record<ReferenceRole, string> = {
+  style: '🎨 Style',
+  subject: '🧍 Subject',
+  composition: '📐 Composition'
+};
+
+const ORIGIN_LABELS: Record<ReferenceImage['origin'], string> = {
+  history: 'From history',
+  chat: 'From chat',
+  upload: 'Uploaded'
+};
+
+/**
+ * Reference images attached to the next generation, each with the role
+ * that tells the model what to take from it.
+ */
+export const ReferenceTray: React.FC<ReferenceTrayProps> = ({ references, onChange }) => {
+  const setRole = (id: string, role: ReferenceRole) => {
+    onChange(references.map(ref => ref.id === id ? { ...ref, role } : ref));
+  };
+
+  return (
+    <div className="flex items-center gap-3 animate-fade-in">
+      <span className="text-[10px] uppercase tracking-wider text-slate-500 shrink-0">References</span>
+      <div className="flex gap-2 overflow-x-auto custom-scrollbar">
+        {references.map(ref => (
+          <div key={ref.id} className="shrink-0 flex items-center gap-2 bg-slate-800/80 border border-slate-700 rounded-lg p-1 pr-2">
+            <img src={ref.url} alt={ORIGIN_LABELS[ref.origin]} title={ORIGIN_LABELS[ref.origin]} className="w-9 h-9 rounded object-cover" />
+            <select
+              value={ref.role}
+              onChange={(e) => setRole(ref.id, e.target.value as ReferenceRole)}
+              className="bg-slate-900 border border-slate-700 text-slate-300 text-xs rounded px-1.5 py-1 focus:ring-1 focus:ring-teal-500 outline-none cursor-pointer"
+              title="What the model should take from this image"
+            >
+              {REFERENCE_ROLES.map(role => (
+                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange(references.filter(r => r.id !== ref.id))}
+              className="text-slate-500 hover:text-red-300 text-sm"
+              title="Remove reference"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+      <button onClick={() => onChange([])} className="ml-auto shrink-0 text-[10px] text-slate-500 hover:text-slate-300">
+        Clear all
+      </button>
+    </div>
+  );
+};
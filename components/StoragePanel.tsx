@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from './Button';
+import { getStorageUsage, StorageUsage } from '../services/storageService';
+import { PROJECT_FILE_EXTENSION, ProjectImportMode } from '../services/projectBundle';
+
+interface StoragePanelProps {
+  onPurge: (cutoff: Date) => Promise<number>;
+  onExportProject: () => void;
+  onImportProject: (file: File, mode: ProjectImportMode) => Promise<string>;
+}
+
+const PURGE_OPTIONS = [
+  { label: 'Older than 1 day', days: 1 },
+  { label: 'Older than 7 days', days: 7 },
+  { label: 'Older than 30 days', days: 30 },
+  { label: 'Everything', days: 0 }
+];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+export const StoragePanel: React.FC<StoragePanelProps> = ({ onPurge, onExportProject, onImportProject }) => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [purgeDays, setPurgeDays] = useState(PURGE_OPTIONS[1].days);
+  const [isPurging, setIsPurging] = useState(false);
+  const [lastResult, setLastResult] = useState<string | null>(null);
+  const [importMode, setImportMode] = useState<ProjectImportMode>('merge');
+  const [isImporting, setIsImporting] = useState(false);
+  const [projectResult, setProjectResult] = useState<{ ok: boolean; text: string } | null>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshUsage = async () => {
+    try {
+      setUsage(await getStorageUsage());
+    } catch (e) {
+      console.error("Storage Usage Error:", e);
+    }
+  };
+
+  useEffect(() => {
+    refreshUsage();
+  }, []);
+
+  const handlePurge = async () => {
+    const label = PURGE_OPTIONS.find(o => o.days === purgeDays)?.label.toLowerCase();
+    if (!window.confirm(`Permanently delete saved images and messages (${label})?`)) return;
+
+    setIsPurging(true);
+    try {
+      // "Everything" purges up to now (+1ms so items created this instant go too)
+      const cutoff = new Date(Date.now() - purgeDays * 24 * 60 * 60 * 1000 + (purgeDays === 0 ? 1 : 0));
+      const removed = await onPurge(cutoff);
+      setLastResult(`Removed ${removed} item${removed === 1 ? '' : 's'}.`);
+      await refreshUsage();
+    } catch (e) {
+      console.error("Purge Error:", e);
+      setLastResult("Purge failed. Please try again.");
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  const handleImportProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (importMode === 'replace' && !window.confirm('Replace all images, threads, presets and characters with this project? This cannot be undone.')) return;
+
+    setIsImporting(true);
+    try {
+      setProjectResult({ ok: true, text: await onImportProject(file, importMode) });
+      await refreshUsage();
+    } catch (err) {
+      console.error("Project Import Error:", err);
+      setProjectResult({ ok: false, text: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const quotaPercent = usage?.usage !== undefined && usage.quota
+    ? Math.min(100, (usage.usage / usage.quota) * 100)
+    : 0;
+
+  return (
+    <div className="mt-1 mb-2 p-3 rounded-xl bg-slate-950/60 border border-slate-800 space-y-3 animate-fade-in">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-bold text-teal-400 uppercase tracking-wider">Local Storage</span>
+        <button onClick={refreshUsage} className="text-[10px] text-slate-500 hover:text-slate-300 transition-colors" title="Refresh">
+          ↻
+        </button>
+      </div>
+
+      {usage ? (
+        <>
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <div className="text-slate-400">Images</div>
+            <div className="text-right text-slate-200">{usage.imageCount} · {formatBytes(usage.imageBytes)}</div>
+            <div className="text-slate-400">Messages</div>
+            <div className="text-right text-slate-200">{usage.messageCount}</div>
+          </div>
+          {usage.usage !== undefined && usage.quota !== undefined && (
+            <div>
+              <div className="flex justify-between text-[10px] text-slate-500 mb-1">
+                <span>{formatBytes(usage.usage)} used</span>
+                <span>{formatBytes(usage.quota)} available</span>
+              </div>
+              <div className="w-full bg-slate-800 rounded-full h-1.5 overflow-hidden">
+                <div className="bg-gradient-to-r from-teal-500 to-emerald-500 h-full rounded-full transition-all duration-500" style={{ width: `${quotaPercent}%` }} />
+              </div>
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="text-xs text-slate-500">Calculating usage...</div>
+      )}
+
+      <div className="flex gap-2 items-center">
+        <select
+          value={purgeDays}
+          onChange={(e) => setPurgeDays(Number(e.target.value))}
+          className="flex-1 bg-slate-800 border border-slate-700 text-slate-300 rounded-lg px-2 py-1 text-xs focus:ring-1 focus:ring-teal-500 outline-none"
+        >
+          {PURGE_OPTIONS.map(option => (
+            <option key={option.days} value={option.days}>{option.label}</option>
+          ))}
+        </select>
+        <Button variant="danger" onClick={handlePurge} isLoading={isPurging} className="px-3 py-1 text-xs">
+          Purge
+        </Button>
+      </div>
+      {lastResult && <p className="text-[10px] text-slate-500">{lastResult}</p>}
+
+      {/* Project bundles: the whole workspace in one file */}
+      <div className="pt-3 border-t border-slate-800 space-y-2">
+        <span className="text-[10px] font-bold text-teal-400 uppercase tracking-wider">Project</span>
+        <div className="flex gap-2 items-center">
+          <Button variant="secondary" onClick={onExportProject} className="flex-1 px-3 py-1 text-xs" title={`Images, threads, presets, characters and settings as one ${PROJECT_FILE_EXTENSION} file`}>
+            Export
+          </Button>
+          <select
+            value={importMode}
+            onChange={(e) => setImportMode(e.target.value as ProjectImportMode)}
+            className="bg-slate-800 border border-slate-700 text-slate-300 rounded-lg px-2 py-1 text-xs focus:ring-1 focus:ring-teal-500 outline-none"
+            title="Merge adds to this workspace; Replace discards it first"
+          >
+            <option value="merge">Merge</option>
+            <option value="replace">Replace</option>
+          </select>
+          <Button variant="secondary" onClick={() => projectInputRef.current?.click()} isLoading={isImporting} className="px-3 py-1 text-xs">
+            Import
+          </Button>
+          <input ref={projectInputRef} type="file" accept={`${PROJECT_FILE_EXTENSION},.zip`} className="hidden" onChange={handleImportProject} />
+        </div>
+        {projectResult && (
+          <p className={`text-[10px] ${projectResult.ok ? 'text-slate-500' : 'text-red-300'}`}>{projectResult.text}</p>
+        )}
+      </div>
+    </div>
+  );
+};
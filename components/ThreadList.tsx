@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { ChatThread, Sender } from '../types';
+
+interface ThreadListProps {
+  threads: ChatThread[];
+  activeThreadId: string;
+  imageCounts: Record<string, number>;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ThreadList: React.FC<ThreadListProps> = ({
+  threads,
+  activeThreadId,
+  imageCounts,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (thread: ChatThread) => {
+    setRenamingId(thread.id);
+    setDraftName(thread.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) {
+      onRename(renamingId, draftName.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (thread: ChatThread) => {
+    if (window.confirm(`Delete "${thread.name}"? Its images stay in your history.`)) {
+      onDelete(thread.id);
+    }
+  };
+
+  return (
+    <div className="border-b border-slate-800 bg-slate-900/90 p-3 space-y-1 max-h-72 overflow-y-auto custom-scrollbar animate-slide-up">
+      <button
+        onClick={onCreate}
+        className="w-full flex items-center gap-2 p-2 rounded-lg border border-dashed border-slate-700 hover:border-teal-500/50 text-xs text-slate-400 hover:text-teal-300 transition-colors active:scale-95"
+      >
+        <span>＋</span> New Thread
+      </button>
+
+      {threads.map(thread => {
+        const isActive = thread.id === activeThreadId;
+        const userMessages = thread.messages.filter(m => m.sender === Sender.User).length;
+        return (
+          <div
+            key={thread.id}
+            className={`group/thread flex items-center gap-2 p-2 rounded-lg cursor-pointer transition-colors ${isActive ? 'bg-teal-500/10 border border-teal-500/30' : 'border border-transparent hover:bg-slate-800'}`}
+            onClick={() => renamingId !== thread.id && onSelect(thread.id)}
+          >
+            <span className="text-sm">{isActive ? '💬' : '🗨️'}</span>
+            <div className="flex-1 min-w-0">
+              {renamingId === thread.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                  className="w-full bg-slate-950 border border-teal-500 rounded px-2 py-0.5 text-xs text-slate-200 outline-none"
+                />
+              ) : (
+                <div className={`text-xs truncate ${isActive ? 'text-teal-300 font-semibold' : 'text-slate-300'}`}>{thread.name}</div>
+              )}
+              <div className="text-[10px] text-slate-500">
+                {userMessages} message{userMessages === 1 ? '' : 's'} · {imageCounts[thread.id] || 0} image{imageCounts[thread.id] === 1 ? '' : 's'}
+              </div>
+            </div>
+            <div className="flex gap-1 opacity-0 group-hover/thread:opacity-100 transition-opacity">
+              <button
+                onClick={(e) => { e.stopPropagation(); startRename(thread); }}
+                className="text-[10px] p-1 text-slate-500 hover:text-teal-300"
+                title="Rename"
+              >
+                ✏️
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); handleDelete(thread); }}
+                className="text-[10px] p-1 text-slate-500 hover:text-red-400"
+                title="Delete"
+              >
+                🗑️
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Toast, toasts, useToasts } from '../services/toasts';
+
+const KIND_ICONS: Record<Toast['kind'], string> = {
+  auth: '🔑',
+  quota: '⏳',
+  safety: '🛡️',
+  invalidArgument: '⚠️',
+  network: '📡',
+  emptyImage: '🖼️',
+  budget: '💳',
+  unknown: '⚠️',
+  info: 'ℹ️'
+};
+
+export const ToastStack: React.FC = () => {
+  const items = useToasts();
+  if (items.length === 0) return null;
+
+  return (
+    <div className="fixed top-4 right-4 z-50 w-80 space-y-2" role="status" aria-live="polite">
+      {items.map(toast => (
+        <div
+          key={toast.id}
+          className={`bg-slate-900/95 backdrop-blur border rounded-xl shadow-2xl p-3 flex gap-2 animate-pop-in ${
+            toast.kind === 'info' ? 'border-teal-500/30' : 'border-red-500/30'
+          }`}
+        >
+          <span className="text-base leading-none mt-0.5">{KIND_ICONS[toast.kind]}</span>
+          <div className="flex-1 min-w-0">
+            <div className="text-xs font-semibold text-slate-100 flex items-center gap-2">
+              {toast.title}
+              {toast.count > 1 && <span className="text-[10px] px-1.5 rounded-full bg-slate-800 text-slate-400">×{toast.count}</span>}
+            </div>
+            <div className="text-[11px] text-slate-400 mt-0.5 line-clamp-2 break-words" title={toast.message}>{toast.message}</div>
+            {toast.nextStep && <div className="text-[11px] text-teal-300/90 mt-1">{toast.nextStep}</div>}
+            {toast.action && (
+              <button
+                onClick={() => { toast.action!.run(); toasts.dismiss(toast.id); }}
+                className="mt-2 text-[11px] font-semibold px-2.5 py-1 rounded-lg bg-teal-500/10 hover:bg-teal-500/20 text-teal-300 border border-teal-500/30 transition-colors active:scale-95"
+              >
+                {toast.action.label}
+              </button>
+            )}
+          </div>
+          <button onClick={() => toasts.dismiss(toast.id)} className="text-slate-600 hover:text-slate-300 px-1 self-start" title="Dismiss">×</button>
+        </div>
+      ))}
+    </div>
+  );
+};
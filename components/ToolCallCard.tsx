@@ -0,0 +1,106 @@
+import React from 'react';
+import { GeneratedImage, MuseToolCall, MuseToolName } from '../types';
+import { toolCallCost } from '../services/museTools';
+import { modelBadge } from '../services/modelRegistry';
+
+interface ToolCallCardProps {
+  call: MuseToolCall;
+  /** Used to show thumbnails of the images a finished call produced. */
+  images: GeneratedImage[];
+  onApprove: () => void;
+  onDecline: () => void;
+}
+
+const TOOL_INFO: Record<MuseToolName, { icon: string; title: string }> = {
+  generate_image: { icon: '🖼️', title: 'Generate images' },
+  refine_image: { icon: '🪄', title: 'Refine image' },
+  analyze_image: { icon: '🔍', title: 'Critique image' }
+};
+
+/**
+ * An action the Muse wants to take. Nothing runs (or costs quota) until the
+ * user approves it.
+ */
+export const ToolCallCard: React.FC<ToolCallCardProps> = ({ call, images, onApprove, onDecline }) => {
+  const { args } = call;
+  const cost = toolCallCost(call);
+  const results = (call.resultImageIds || [])
+    .map(id => images.find(img => img.id === id))
+    .filter((img): img is GeneratedImage => !!img);
+  const chips = [
+    call.name === 'generate_image' && `× ${args.count || 1}`,
+    args.aspectRatio && `📐 ${args.aspectRatio}`,
+    args.model && modelBadge(args.model),
+    args.negativePrompt && `🚫 ${args.negativePrompt}`,
+    call.name !== 'generate_image' && (args.imageId ? `Image ${args.imageId}` : 'Latest image')
+  ].filter(Boolean) as string[];
+
+  return (
+    <div className="relative rounded-xl bg-slate-950/50 border border-emerald-500/20 overflow-hidden animate-fade-in">
+      <div className="absolute left-0 top-0 bottom-0 w-1 bg-gradient-to-b from-emerald-400 to-teal-500"></div>
+      <div className="p-3 pl-4 space-y-2">
+        <div className="flex justify-between items-center">
+          <span className="text-[10px] font-bold text-emerald-400 uppercase tracking-wider">
+            {TOOL_INFO[call.name].icon} {TOOL_INFO[call.name].title}
+          </span>
+          {call.status === 'done' && <span className="text-[10px] text-emerald-400">✓ Done</span>}
+          {call.status === 'declined' && <span className="text-[10px] text-slate-500">Declined</span>}
+        </div>
+
+        {(args.prompt || args.instruction) && (
+          <div className="text-xs text-slate-300 font-mono bg-black/30 rounded p-2 border border-white/5 whitespace-pre-wrap leading-relaxed">
+            {args.prompt || args.instruction}
+          </div>
+        )}
+        {chips.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {chips.map(chip => (
+              <span key={chip} className="text-[10px] px-2 py-0.5 rounded-full bg-slate-800 border border-slate-700 text-slate-400 max-w-full truncate" title={chip}>{chip}</span>
+            ))}
+          </div>
+        )}
+
+        {call.status === 'pending' && (
+          <div className="flex gap-2 pt-1">
+            <button
+              onClick={onApprove}
+              className="flex-1 bg-gradient-to-r from-teal-500 to-emerald-600 hover:from-teal-600 hover:to-emerald-700 text-white text-xs font-semibold py-2 px-3 rounded-lg transition-all active:scale-95 shadow-lg shadow-teal-500/20"
+            >
+              Approve · uses {cost} {cost === 1 ? 'call' : 'calls'}
+            </button>
+            <button
+              onClick={onDecline}
+              className="text-xs text-slate-400 hover:text-red-300 py-2 px-3 rounded-lg border border-slate-700 hover:border-red-500/30 transition-all active:scale-95"
+            >
+              Decline
+            </button>
+          </div>
+        )}
+
+        {call.status === 'running' && (
+          <div className="flex items-center gap-2 text-xs text-teal-300">
+            <span className="w-3 h-3 border-2 border-teal-400 border-t-transparent rounded-full animate-spin"></span>
+            Working on it... progress is in the Jobs panel.
+          </div>
+        )}
+
+        {call.status === 'failed' && (
+          <div className="text-[11px] text-red-300 bg-red-500/10 rounded p-2">Failed: {call.error}</div>
+        )}
+
+        {call.status === 'done' && (
+          <>
+            {results.length > 0 && (
+              <div className="grid grid-cols-2 gap-1.5">
+                {results.map(img => (
+                  <img key={img.id} src={img.url} alt={img.prompt} title={img.prompt} className="w-full aspect-square object-cover rounded-lg border border-slate-700" />
+                ))}
+              </div>
+            )}
+            {call.resultSummary && <p className="text-[11px] text-slate-400 leading-relaxed">{call.resultSummary}</p>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { dayKey, DEFAULT_PRICES, ModelPrice, ModelUsage, sumUsage, usageMeter, UsageTotals, useUsage } from '../services/usageMeter';
+import { getCapabilities } from '../services/modelRegistry';
+
+const TEXT_MODEL_LABELS: Record<string, string> = {
+  'gemini-2.5-flash': '💬 Chat & critique'
+};
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'inputPerMillion', label: 'In / 1M' },
+  { key: 'outputPerMillion', label: 'Out / 1M' },
+  { key: 'perImage', label: 'Image' }
+];
+
+export const formatCost = (cost: number) => `$${cost > 0 && cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const modelLabel = (model: string) => {
+  const capabilities = getCapabilities(model);
+  return capabilities ? `${capabilities.icon} ${capabilities.shortLabel} Image` : TEXT_MODEL_LABELS[model] || model;
+};
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-md px-1.5 py-1 text-[11px] text-slate-200 focus:ring-1 focus:ring-teal-500 outline-none";
+
+/**
+ * Number field that commits on blur or Enter, so partial input like "1."
+ * isn't rewritten while typing. Empty commits undefined.
+ */
+const NumberField: React.FC<{ value?: number; placeholder?: string; onCommit: (value: number | undefined) => void }> = ({ value, placeholder, onCommit }) => (
+  <input
+    key={String(value)}
+    type="number"
+    min={0}
+    step="any"
+    defaultValue={value ?? ''}
+    placeholder={placeholder}
+    onBlur={(e) => {
+      const parsed = e.target.value.trim() === '' ? undefined : Math.max(0, Number(e.target.value));
+      if (parsed !== value && !Number.isNaN(parsed)) onCommit(parsed);
+    }}
+    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+    className={inputClass}
+  />
+);
+
+const TotalsCard: React.FC<{ label: string; usage: ModelUsage; limit?: number }> = ({ label, usage, limit }) => (
+  <div className="bg-slate-900/60 rounded-lg p-2 border border-slate-800">
+    <div className="text-[10px] uppercase tracking-wider text-slate-500 font-semibold">{label}</div>
+    <div className={`text-base font-bold ${limit !== undefined && usage.cost > limit ? 'text-red-300' : 'text-white'}`}>
+      {formatCost(usage.cost)}
+      {limit !== undefined && <span className="text-[10px] font-normal text-slate-500"> / {formatCost(limit)}</span>}
+    </div>
+    <div className="text-[10px] text-slate-500">
+      {usage.images} img · {formatTokens(usage.inputTokens + usage.outputTokens)} tok
+    </div>
+  </div>
+);
+
+const ModelBreakdown: React.FC<{ totals: UsageTotals }> = ({ totals }) => {
+  const models = Object.keys(totals);
+  if (models.length === 0) return <div className="text-[11px] text-slate-500 text-center py-1">No model calls today.</div>;
+  return (
+    <div className="space-y-1">
+      {models.map(model => (
+        <div key={model} className="flex items-center justify-between text-[11px]">
+          <span className="text-slate-400 truncate" title={model}>{modelLabel(model)}</span>
+          <span className="text-slate-300 shrink-0">
+            {totals[model].calls}× · {totals[model].images > 0 ? `${totals[model].images} img · ` : ''}{formatTokens(totals[model].inputTokens)}/{formatTokens(totals[model].outputTokens)} · {formatCost(totals[model].cost)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const UsagePanel: React.FC = () => {
+  const { session, days, prices, budget } = useUsage();
+  const [showPrices, setShowPrices] = useState(false);
+  const today = days[dayKey(new Date())] || {};
+
+  const updatePrice = (model: string, key: keyof ModelPrice, value: number | undefined) => {
+    usageMeter.setPrices({ ...prices, [model]: { ...prices[model], [key]: value ?? 0 } });
+  };
+
+  return (
+    <div className="mt-1 mb-2 p-3 rounded-xl bg-slate-950/60 border border-slate-800 space-y-3 animate-fade-in">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-bold text-teal-400 uppercase tracking-wider">Usage & Cost (est.)</span>
+        <button onClick={usageMeter.resetSession} className="text-[10px] text-slate-500 hover:text-slate-300 transition-colors" title="Start a new session count">
+          Reset session
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <TotalsCard label="Session" usage={sumUsage(session)} limit={budget.session} />
+        <TotalsCard label="Today" usage={sumUsage(today)} limit={budget.daily} />
+      </div>
+      <ModelBreakdown totals={today} />
+
+      {/* Budgets */}
+      <div className="space-y-1.5">
+        <div className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">Budgets (USD)</div>
+        <div className="grid grid-cols-3 gap-1.5 items-end">
+          <label className="text-[10px] text-slate-500">
+            Session
+            <NumberField value={budget.session} placeholder="None" onCommit={(session) => usageMeter.setBudget({ ...budget, session })} />
+          </label>
+          <label className="text-[10px] text-slate-500">
+            Daily
+            <NumberField value={budget.daily} placeholder="None" onCommit={(daily) => usageMeter.setBudget({ ...budget, daily })} />
+          </label>
+          <label className="text-[10px] text-slate-500">
+            When over
+            <select
+              value={budget.mode}
+              onChange={(e) => usageMeter.setBudget({ ...budget, mode: e.target.value as 'warn' | 'block' })}
+              className={inputClass}
+            >
+              <option value="warn">Ask first</option>
+              <option value="block">Block</option>
+            </select>
+          </label>
+        </div>
+        <p className="text-[10px] text-slate-600">Checked before each 💎 Pro generation or edit.</p>
+      </div>
+
+      {/* Price table */}
+      <div>
+        <button onClick={() => setShowPrices(!showPrices)} className="text-[10px] text-slate-500 hover:text-teal-300 transition-colors">
+          {showPrices ? '▾' : '▸'} Price table
+        </button>
+        {showPrices && (
+          <div className="mt-1.5 space-y-1.5">
+            {Object.keys(prices).map(model => (
+              <div key={model}>
+                <div className="text-[10px] text-slate-400 mb-0.5" title={model}>{modelLabel(model)}</div>
+                <div className="grid grid-cols-3 gap-1">
+                  {PRICE_FIELDS.map(({ key, label }) => (
+                    <label key={key} className="text-[9px] text-slate-600">
+                      {label}
+                      <NumberField value={prices[model][key]} onCommit={(value) => updatePrice(model, key, value)} />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <button
+              onClick={() => usageMeter.setPrices(DEFAULT_PRICES)}
+              className="text-[10px] text-slate-500 hover:text-slate-300 transition-colors"
+            >
+              Reset to list prices
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
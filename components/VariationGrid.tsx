@@ -0,0 +1,80 @@
+import React from 'react';
+import { GeneratedImage } from '../types';
+import { Button } from './Button';
+
+export interface Variation {
+  id: string;
+  status: 'pending' | 'done' | 'failed' | 'cancelled';
+  image?: GeneratedImage;
+  keep: boolean;
+}
+
+interface VariationGridProps {
+  variations: Variation[];
+  onToggleKeep: (id: string) => void;
+  onKeepSelected: () => void;
+  onDiscardAll: () => void;
+}
+
+export const VariationGrid: React.FC<VariationGridProps> = ({
+  variations,
+  onToggleKeep,
+  onKeepSelected,
+  onDiscardAll
+}) => {
+  const doneCount = variations.filter(v => v.status === 'done').length;
+  const keepCount = variations.filter(v => v.keep && v.image).length;
+  const isRunning = variations.some(v => v.status === 'pending');
+  const columns = variations.length <= 2 ? 'grid-cols-2' : variations.length <= 4 ? 'grid-cols-2 lg:grid-cols-4' : 'grid-cols-3 lg:grid-cols-4';
+
+  return (
+    <div className="w-full h-full flex flex-col p-2 gap-3 animate-fade-in">
+      <div className="flex items-center justify-between px-2">
+        <div>
+          <h3 className="text-sm font-semibold text-teal-400">Compare Variations</h3>
+          <p className="text-xs text-slate-500">
+            {isRunning ? `Generating ${doneCount}/${variations.length}...` : 'Click the ones worth keeping. The rest are discarded.'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="ghost" onClick={onDiscardAll}>Discard All</Button>
+          <Button onClick={onKeepSelected} disabled={keepCount === 0} icon="✅">
+            Keep {keepCount > 0 ? keepCount : ''} Selected
+          </Button>
+        </div>
+      </div>
+
+      <div className={`flex-1 min-h-0 grid ${columns} gap-3 overflow-y-auto custom-scrollbar p-1`}>
+        {variations.map((variation, idx) => (
+          <button
+            key={variation.id}
+            onClick={() => variation.image && onToggleKeep(variation.id)}
+            disabled={!variation.image}
+            className={`relative rounded-xl overflow-hidden bg-slate-900 ring-2 transition-all duration-200 min-h-[160px] flex items-center justify-center ${
+              variation.keep ? 'ring-teal-500 shadow-lg shadow-teal-500/20 scale-[1.01]' : 'ring-white/5 hover:ring-slate-600'
+            }`}
+          >
+            {variation.status === 'pending' && (
+              <div className="absolute inset-0 bg-slate-800/40 animate-pulse flex items-center justify-center">
+                <span className="w-8 h-8 border-4 border-teal-500 border-t-transparent rounded-full animate-spin" />
+              </div>
+            )}
+            {variation.status === 'failed' && (
+              <span className="text-xs text-red-400">⚠️ Variation failed</span>
+            )}
+            {variation.status === 'cancelled' && (
+              <span className="text-xs text-slate-500">Cancelled</span>
+            )}
+            {variation.image && (
+              <img src={variation.image.url} alt={`Variation ${idx + 1}`} className="w-full h-full object-contain animate-fade-in" />
+            )}
+            <span className="absolute top-2 left-2 text-[10px] font-bold bg-black/60 text-slate-200 rounded-full px-2 py-0.5">#{idx + 1}</span>
+            {variation.keep && (
+              <span className="absolute top-2 right-2 w-6 h-6 rounded-full bg-teal-500 text-white text-xs flex items-center justify-center shadow-lg">✓</span>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
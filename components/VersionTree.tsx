@@ -0,0 +1,59 @@
+import React from 'react';
+import { GeneratedImage, ImageOperation } from '../types';
+import { VersionNode } from '../services/versionTree';
+
+interface VersionTreeProps {
+  nodes: VersionNode[]; // Flattened depth-first
+  selectedId: string;
+  compareId: string | null;
+  onSelect: (image: GeneratedImage) => void;
+  onCompare: (image: GeneratedImage | null) => void;
+}
+
+const OPERATION_ICONS: Record<ImageOperation, string> = {
+  generate: '✨',
+  refine: '🪄',
+  import: '📥'
+};
+
+export const VersionTree: React.FC<VersionTreeProps> = ({ nodes, selectedId, compareId, onSelect, onCompare }) => {
+  return (
+    <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-0.5 pr-1">
+      {nodes.map(({ image, depth, children }) => {
+        const isSelected = image.id === selectedId;
+        const isCompared = image.id === compareId;
+        return (
+          <div
+            key={image.id}
+            onClick={() => onSelect(image)}
+            className={`group/version flex items-center gap-2 py-1 pr-2 rounded-lg cursor-pointer transition-colors ${
+              isSelected ? 'bg-teal-500/10 ring-1 ring-teal-500/40' : isCompared ? 'bg-amber-500/10 ring-1 ring-amber-500/40' : 'hover:bg-slate-800/60'
+            }`}
+            style={{ paddingLeft: `${depth * 20 + 4}px` }}
+          >
+            {depth > 0 && <span className="text-slate-600 text-xs">└</span>}
+            <img src={image.url} className="h-9 w-9 shrink-0 rounded object-cover" loading="lazy" />
+            <span className="text-xs" title={image.operation}>{OPERATION_ICONS[image.operation]}</span>
+            <span className={`flex-1 min-w-0 truncate text-xs ${isSelected ? 'text-teal-300' : 'text-slate-400'}`} title={image.prompt}>
+              {image.prompt}
+            </span>
+            {children.length > 1 && (
+              <span className="text-[10px] text-slate-500 shrink-0">{children.length} branches</span>
+            )}
+            {!isSelected && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onCompare(isCompared ? null : image); }}
+                className={`text-[10px] px-1.5 py-0.5 rounded border shrink-0 transition-opacity ${
+                  isCompared ? 'border-amber-500/50 text-amber-300' : 'border-slate-700 text-slate-500 hover:text-slate-200 opacity-0 group-hover/version:opacity-100'
+                }`}
+                title="Compare side by side with the selected version"
+              >
+                {isCompared ? 'Comparing' : '⇆ Compare'}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
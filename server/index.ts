@@ -0,0 +1,326 @@
+import http from "node:http";
+import { createRateLimiter } from "./rateLimiter";
+import {
+  ChatStreamEvent,
+  PROXY_ROUTES,
+  sendChatMessage,
+  generateImage,
+  refineImage,
+  analyzeImage,
+  rephrasePrompt,
+} from "../services/geminiService";
+import { AspectRatio, GenerationModel, ImageSize, MAX_REFERENCE_IMAGES, REFERENCE_ROLES, ReferenceImage, ReferenceRole } from "../types";
+import type { UsageReport } from "../services/providers/types";
+import { classifyError } from "../services/errors";
+import { findUnsupported, ModelRequest } from "../services/modelRegistry";
+
+/**
+ * GlowMint Muse backend proxy.
+ *
+ * Holds the Gemini API key server-side and exposes the geminiService calls
+ * as JSON endpoints under /api. Configure with environment variables:
+ *
+ *   GEMINI_API_KEY        Required. Never shipped to the browser.
+ *   PORT                  Default 8787.
+ *   ALLOWED_ORIGIN        CORS origin to allow (default: same-origin only).
+ *   RATE_LIMIT_MAX        Requests per client per window (default 30).
+ *   RATE_LIMIT_WINDOW_MS  Window length in ms (default 60000).
+ *   TRUST_PROXY           "true" to key clients by X-Forwarded-For.
+ *   MAX_BODY_BYTES        Request size cap (default 20MB, images are base64).
+ */
+
+const PORT = Number(process.env.PORT) || 8787;
+const API_PREFIX = "/api";
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN;
+const TRUST_PROXY = process.env.TRUST_PROXY === "true";
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES) || 20 * 1024 * 1024;
+
+process.env.API_KEY = process.env.API_KEY || process.env.GEMINI_API_KEY;
+// geminiService must run in direct mode here, or it would call itself
+delete process.env.API_PROXY_URL;
+
+if (!process.env.API_KEY) {
+  console.error("GEMINI_API_KEY is not set. Refusing to start the proxy.");
+  process.exit(1);
+}
+
+const rateLimiter = createRateLimiter({
+  windowMs: Number(process.env.RATE_LIMIT_WINDOW_MS) || 60_000,
+  max: Number(process.env.RATE_LIMIT_MAX) || 30,
+});
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// --- Request helpers ---
+
+const getClientId = (req: http.IncomingMessage): string => {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (TRUST_PROXY && typeof forwarded === "string") {
+    return forwarded.split(",")[0].trim();
+  }
+  return req.socket.remoteAddress || "unknown";
+};
+
+const readJsonBody = (req: http.IncomingMessage): Promise<Record<string, unknown>> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        const body = JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+        if (typeof body !== "object" || body === null || Array.isArray(body)) {
+          throw new Error();
+        }
+        resolve(body);
+      } catch {
+        reject(new HttpError(400, "Request body must be a JSON object"));
+      }
+    });
+    req.on("error", reject);
+  });
+};
+
+const requireString = (body: Record<string, unknown>, field: string): string => {
+  const value = body[field];
+  if (typeof value !== "string" || !value) {
+    throw new HttpError(400, `Missing or invalid field: ${field}`);
+  }
+  return value;
+};
+
+const optionalString = (body: Record<string, unknown>, field: string): string | undefined => {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") throw new HttpError(400, `Invalid field: ${field}`);
+  return value;
+};
+
+const optionalReferences = (body: Record<string, unknown>): Pick<ReferenceImage, "url" | "role">[] => {
+  const value = body.references;
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.length > MAX_REFERENCE_IMAGES) {
+    throw new HttpError(400, `references must be an array of at most ${MAX_REFERENCE_IMAGES} images`);
+  }
+  return value.map((item, i) => {
+    const { url, role } = (item || {}) as Record<string, unknown>;
+    if (typeof url !== "string" || !url.startsWith("data:image/") || !REFERENCE_ROLES.includes(role as ReferenceRole)) {
+      throw new HttpError(400, `Invalid reference image at index ${i}`);
+    }
+    return { url, role: role as ReferenceRole };
+  });
+};
+
+const requireEnum = <T extends string>(body: Record<string, unknown>, field: string, values: Record<string, T>): T => {
+  const value = requireString(body, field);
+  if (!(Object.values(values) as string[]).includes(value)) {
+    throw new HttpError(400, `Unsupported ${field}: ${value}`);
+  }
+  return value as T;
+};
+
+const requireSupported = (model: GenerationModel, request: ModelRequest) => {
+  const problem = findUnsupported(model, request);
+  if (problem) throw new HttpError(400, problem);
+};
+
+const sendJson = (res: http.ServerResponse, status: number, payload: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(payload));
+};
+
+// --- Routes ---
+
+type Handler = (body: Record<string, unknown>, signal: AbortSignal) => Promise<unknown>;
+type StreamHandler = (body: Record<string, unknown>, res: http.ServerResponse) => Promise<void>;
+
+/**
+ * Streams the chat reply as NDJSON (see ChatStreamEvent).
+ * If the browser disconnects (Stop button), the upstream request is aborted.
+ */
+const streamChat: StreamHandler = async (body, res) => {
+  const message = optionalString(body, "message") || "";
+  const history = Array.isArray(body.history) ? body.history : [];
+  const attachmentBase64 = optionalString(body, "attachmentBase64");
+
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  res.writeHead(200, { "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache" });
+  const writeEvent = (event: ChatStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+
+  let streamed = "";
+  try {
+    const text = await sendChatMessage(message, history, attachmentBase64, {
+      signal: controller.signal,
+      onChunk: (textSoFar) => {
+        writeEvent({ delta: textSoFar.slice(streamed.length) });
+        streamed = textSoFar;
+      },
+      onToolCalls: (toolCalls) => writeEvent({ toolCalls }),
+      onUsage: (usage) => writeEvent({ usage }),
+    });
+    writeEvent({ done: true, text });
+  } catch (error) {
+    // Headers are already sent, so the failure travels as a stream event
+    const { message: errorMessage, kind } = classifyError(error);
+    writeEvent({ error: errorMessage, kind });
+  }
+  res.end();
+};
+
+const streamHandlers: Record<string, StreamHandler> = {
+  [PROXY_ROUTES.chat]: streamChat,
+};
+
+/**
+ * Run a geminiService call and capture the usage it reports, so the browser
+ * can meter costs in proxy mode too.
+ */
+const withUsage = async <T>(call: (onUsage: (usage: UsageReport) => void) => Promise<T>) => {
+  let usage: UsageReport | undefined;
+  const result = await call((reported) => {
+    usage = reported;
+  });
+  return { result, usage };
+};
+
+const handlers: Record<string, Handler> = {
+  [PROXY_ROUTES.generateImage]: async (body, signal) => {
+    const model = requireEnum(body, "model", GenerationModel);
+    const aspectRatio = requireEnum(body, "aspectRatio", AspectRatio);
+    const imageSize = body.imageSize === undefined ? undefined : requireEnum(body, "imageSize", ImageSize);
+    const references = optionalReferences(body);
+    requireSupported(model, { aspectRatio, imageSize, references: references.length });
+    const { result, usage } = await withUsage((onUsage) =>
+      generateImage(
+        requireString(body, "prompt"),
+        model,
+        aspectRatio,
+        optionalString(body, "negativePrompt"),
+        { signal, onUsage, references, imageSize }
+      )
+    );
+    return { image: result, usage };
+  },
+  [PROXY_ROUTES.refineImage]: async (body, signal) => {
+    const model = body.model === undefined ? undefined : requireEnum(body, "model", GenerationModel);
+    const references = optionalReferences(body);
+    requireSupported(model || GenerationModel.Flash, { edit: true, references: references.length });
+    const { result, usage } = await withUsage((onUsage) =>
+      refineImage(
+        requireString(body, "base64Image"),
+        requireString(body, "instruction"),
+        model,
+        { signal, mask: optionalString(body, "mask"), onUsage, references }
+      )
+    );
+    return { image: result, usage };
+  },
+  [PROXY_ROUTES.analyzeImage]: async (body, signal) => {
+    const { result, usage } = await withUsage((onUsage) =>
+      analyzeImage(requireString(body, "base64Image"), optionalString(body, "prompt"), { signal, onUsage })
+    );
+    return { critique: result, usage };
+  },
+  [PROXY_ROUTES.rephrasePrompt]: async (body, signal) => {
+    const { result, usage } = await withUsage((onUsage) =>
+      rephrasePrompt(requireString(body, "prompt"), optionalString(body, "reason") || "", { signal, onUsage })
+    );
+    return { prompt: result, usage };
+  },
+};
+
+// --- Server ---
+
+const server = http.createServer(async (req, res) => {
+  const startedAt = Date.now();
+  const clientId = getClientId(req);
+
+  res.on("finish", () => {
+    // Never log bodies: they contain prompts and images
+    console.log(
+      `${new Date().toISOString()} ${clientId} ${req.method} ${req.url} ${res.statusCode} ${Date.now() - startedAt}ms`
+    );
+  });
+
+  if (ALLOWED_ORIGIN) {
+    res.setHeader("Access-Control-Allow-Origin", ALLOWED_ORIGIN);
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  }
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const path = (req.url || "").split("?")[0];
+  if (req.method === "GET" && path === `${API_PREFIX}/health`) {
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+
+  const route = path.startsWith(API_PREFIX) ? path.slice(API_PREFIX.length) : "";
+  const handler = handlers[route];
+  const streamHandler = streamHandlers[route];
+  if ((!handler && !streamHandler) || req.method !== "POST") {
+    sendJson(res, 404, { error: "Not found" });
+    return;
+  }
+
+  const limit = rateLimiter.check(clientId);
+  res.setHeader("X-RateLimit-Remaining", String(limit.remaining));
+  if (!limit.allowed) {
+    res.setHeader("Retry-After", String(Math.ceil(limit.retryAfterMs / 1000)));
+    sendJson(res, 429, { error: "Too many requests. Please slow down." });
+    return;
+  }
+
+  try {
+    const body = await readJsonBody(req);
+    if (streamHandler) {
+      await streamHandler(body, res);
+    } else {
+      // Cancelled in the browser (job queue): stop paying for the upstream call
+      const controller = new AbortController();
+      res.on("close", () => {
+        if (!res.writableFinished) controller.abort();
+      });
+      sendJson(res, 200, await handler(body, controller.signal));
+    }
+  } catch (error) {
+    if (res.headersSent) {
+      console.error("Proxy Stream Error:", error);
+      res.end();
+    } else if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+    } else {
+      console.error("Proxy Error:", error);
+      // Forward the upstream Gemini status (e.g. 429, 503) so clients can retry sensibly,
+      // and the error kind so they can explain it
+      const { message, kind, status: upstreamStatus, details } = classifyError(error);
+      const status = upstreamStatus !== undefined && upstreamStatus >= 400 ? upstreamStatus : 502;
+      sendJson(res, status, { error: message || "Upstream request failed", kind, details });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`GlowMint Muse proxy listening on http://localhost:${PORT}${API_PREFIX}`);
+});
@@ -0,0 +1,46 @@
+/**
+ * Fixed-window, in-memory rate limiter keyed by client id.
+ * Good enough for a single proxy instance; use a shared store if you scale out.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+export const createRateLimiter = ({ windowMs, max }: { windowMs: number; max: number }) => {
+  const windows = new Map<string, Window>();
+
+  // Periodically drop expired windows so idle clients don't leak memory
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [clientId, window] of windows) {
+      if (window.resetAt <= now) windows.delete(clientId);
+    }
+  }, windowMs);
+  sweep.unref();
+
+  const check = (clientId: string): RateLimitResult => {
+    const now = Date.now();
+    let window = windows.get(clientId);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(clientId, window);
+    }
+
+    if (window.count >= max) {
+      return { allowed: false, remaining: 0, retryAfterMs: window.resetAt - now };
+    }
+
+    window.count++;
+    return { allowed: true, remaining: max - window.count, retryAfterMs: 0 };
+  };
+
+  return { check };
+};
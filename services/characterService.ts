@@ -0,0 +1,71 @@
+import { Character, MAX_REFERENCE_IMAGES, ReferenceImage } from "../types";
+
+/**
+ * `@Name` mentions of library characters. A mention expands into the
+ * character's canonical description and reference images, so the same
+ * character looks the same from one image to the next.
+ */
+
+const MENTION_PATTERN = /@([A-Za-z][\w-]*)/g;
+
+export const isValidCharacterName = (name: string): boolean => /^[A-Za-z][\w-]*$/.test(name);
+
+const indexByName = (characters: Character[]) => new Map(characters.map((c) => [c.name.toLowerCase(), c]));
+
+/**
+ * Characters mentioned in `text`, in order of first mention. Case-insensitive.
+ */
+export const findMentionedCharacters = (text: string, characters: Character[]): Character[] => {
+  const byName = indexByName(characters);
+  const found: Character[] = [];
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const character = byName.get(match[1].toLowerCase());
+    if (character && !found.includes(character)) found.push(character);
+  }
+  return found;
+};
+
+/**
+ * The mention being typed at the end of `text`, if any (for autocomplete).
+ */
+export const trailingMention = (text: string): string | null => {
+  const match = text.match(/(?:^|\s)@([A-Za-z][\w-]*)?$/);
+  return match ? match[1] || "" : null;
+};
+
+export interface ResolvedMentions {
+  prompt: string;
+  references: Pick<ReferenceImage, "url" | "role">[];
+  characterIds: string[];
+}
+
+/**
+ * Expand mentions for a model call: `@Mintbot` becomes `Mintbot`, each
+ * description is appended, and reference images are added as "subject"
+ * references. Every character gets its first image in before the caller's
+ * `extraReferences`; remaining character images fill any slots left.
+ */
+export const resolveMentions = (
+  text: string,
+  characters: Character[],
+  extraReferences: Pick<ReferenceImage, "url" | "role">[] = []
+): ResolvedMentions => {
+  const mentioned = findMentionedCharacters(text, characters);
+  if (mentioned.length === 0) return { prompt: text, references: extraReferences, characterIds: [] };
+
+  const byName = indexByName(mentioned);
+  const body = text.replace(MENTION_PATTERN, (mention, name: string) => byName.get(name.toLowerCase())?.name ?? mention);
+  const notes = mentioned
+    .filter((c) => c.description.trim())
+    .map((c) => `- ${c.name}: ${c.description.trim()}`);
+  const prompt = notes.length > 0 ? `${body}\n\nKeep these characters consistent with their descriptions and reference images:\n${notes.join("\n")}` : body;
+
+  const subject = (url: string) => ({ url, role: "subject" as const });
+  const references = [
+    ...mentioned.flatMap((c) => c.references.slice(0, 1).map(subject)),
+    ...extraReferences,
+    ...mentioned.flatMap((c) => c.references.slice(1).map(subject)),
+  ].slice(0, MAX_REFERENCE_IMAGES);
+
+  return { prompt, references, characterIds: mentioned.map((c) => c.id) };
+};
@@ -0,0 +1,37 @@
+import { CRITIQUE_CATEGORIES, CritiqueCategory, CritiqueIssue, ImageCritique } from "../types";
+
+const SEVERITY_ORDER: Record<CritiqueIssue["severity"], number> = { high: 0, medium: 1, low: 2 };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+/**
+ * Coerce untrusted critique data (model output, imported projects) into an
+ * ImageCritique: scores are clamped to 1–10 and issues sorted most severe first.
+ */
+export const normalizeCritique = (raw: unknown): ImageCritique => {
+  const data = isRecord(raw) ? raw : {};
+  const rawScores = isRecord(data.scores) ? data.scores : {};
+  const clamp = (value: unknown) => Math.min(10, Math.max(1, Math.round(Number(value) || 1)));
+  const scores = Object.fromEntries(
+    CRITIQUE_CATEGORIES.map((category) => [category, clamp(rawScores[category])])
+  ) as Record<CritiqueCategory, number>;
+  const issues: CritiqueIssue[] = (Array.isArray(data.issues) ? data.issues : [])
+    .filter(isRecord)
+    .filter((issue) => CRITIQUE_CATEGORIES.includes(issue.category as CritiqueCategory) && issue.fix)
+    .map((issue) => ({
+      category: issue.category as CritiqueCategory,
+      severity: typeof issue.severity === "string" && Object.hasOwn(SEVERITY_ORDER, issue.severity)
+        ? (issue.severity as CritiqueIssue["severity"])
+        : "medium",
+      description: String(issue.description || ""),
+      fix: String(issue.fix),
+    }))
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+  return {
+    summary: String(data.summary || ""),
+    tags: (Array.isArray(data.tags) ? data.tags : []).map(String).slice(0, 8),
+    scores,
+    issues,
+  };
+};
@@ -0,0 +1,115 @@
+import { CRITIQUE_CATEGORIES, GeneratedImage, GenerationModel, ImageCritique } from "../types";
+import { createImageId } from "./ids";
+import { JobCancelledError, jobQueue } from "./jobQueue";
+import type { ImageProvider } from "./providers/types";
+
+/**
+ * Automated critique → refine → re-score loop ("Auto-Improve").
+ *
+ * Every call goes through the job queue, so each step shows up in the jobs
+ * panel, gets retried on transient errors and stops when `signal` aborts.
+ */
+
+export const averageScore = (critique: ImageCritique): number =>
+  CRITIQUE_CATEGORIES.reduce((sum, category) => sum + critique.scores[category], 0) / CRITIQUE_CATEGORIES.length;
+
+const MAX_FIXES_PER_STEP = 3;
+
+/**
+ * Merge the most severe fixes into one refine instruction. Issues arrive
+ * sorted most severe first. Returns null when there is nothing to fix.
+ */
+export const buildFixInstruction = (critique: ImageCritique): string | null => {
+  const fixes = critique.issues.slice(0, MAX_FIXES_PER_STEP).map((issue) => issue.fix);
+  if (fixes.length === 0) return null;
+  if (fixes.length === 1) return fixes[0];
+  return `Make these improvements and keep everything else the same:\n${fixes.map((fix, i) => `${i + 1}. ${fix}`).join("\n")}`;
+};
+
+export type CritiqueLoopStopReason = "target" | "maxIterations" | "noIssues" | "stopped";
+
+export interface CritiqueLoopOptions {
+  image: GeneratedImage;
+  /** Original generation prompt, for scoring prompt adherence. */
+  sourcePrompt?: string;
+  targetScore: number;
+  maxIterations: number;
+  model: GenerationModel;
+  provider: ImageProvider;
+  signal: AbortSignal;
+  /** An image (the start image or a new version) received its critique. */
+  onCritiqued: (image: GeneratedImage) => void;
+  /** A new refined version was produced; it is not critiqued yet. */
+  onRefined: (image: GeneratedImage) => void;
+}
+
+export interface CritiqueLoopResult {
+  reason: CritiqueLoopStopReason;
+  best: GeneratedImage;
+}
+
+export const runCritiqueLoop = async ({
+  image,
+  sourcePrompt,
+  targetScore,
+  maxIterations,
+  model,
+  provider,
+  signal,
+  onCritiqued,
+  onRefined,
+}: CritiqueLoopOptions): Promise<CritiqueLoopResult> => {
+  const critique = async (target: GeneratedImage): Promise<GeneratedImage> => {
+    const result = await jobQueue.enqueue({
+      kind: "analyze",
+      label: `Auto-Improve critique: ${target.prompt}`,
+      signal,
+      run: (jobSignal) => provider.analyzeImage(target.url, sourcePrompt, { signal: jobSignal }),
+    });
+    const critiqued = { ...target, critique: result };
+    onCritiqued(critiqued);
+    return critiqued;
+  };
+
+  let current = image;
+  let best = image;
+  try {
+    // Reuse an existing critique of the starting image rather than paying for a new one
+    if (!current.critique) current = await critique(current);
+    best = current;
+
+    for (let iteration = 1; ; iteration++) {
+      if (averageScore(current.critique!) >= targetScore) return { reason: "target", best };
+      if (iteration > maxIterations) return { reason: "maxIterations", best };
+
+      const instruction = buildFixInstruction(current.critique!);
+      if (!instruction) return { reason: "noIssues", best };
+
+      const source = current;
+      const refinedUrl = await jobQueue.enqueue({
+        kind: "refine",
+        label: `Auto-Improve ${iteration}/${maxIterations}: ${instruction}`,
+        signal,
+        run: (jobSignal) => provider.refineImage(source.url, instruction, model, { signal: jobSignal }),
+      });
+      const refined: GeneratedImage = {
+        id: createImageId(),
+        url: refinedUrl,
+        prompt: `Refined: ${instruction}`,
+        timestamp: new Date(),
+        aspectRatio: source.aspectRatio,
+        model,
+        threadId: source.threadId,
+        operation: "refine",
+        parentId: source.id,
+      };
+      onRefined(refined);
+
+      current = await critique(refined);
+      if (averageScore(current.critique!) > averageScore(best.critique!)) best = current;
+    }
+  } catch (error) {
+    if (error instanceof JobCancelledError) return { reason: "stopped", best };
+    throw error;
+  }
+};
@@ -0,0 +1,102 @@
+/**
+ * Typed errors for model calls.
+ *
+ * geminiService converts whatever the SDK, fetch or the proxy throws into an
+ * AIError so the UI can show a specific message and next step instead of a
+ * raw stack of JSON. The proxy forwards `kind` so classification survives
+ * the hop to the browser.
+ */
+
+export type AIErrorKind =
+  | "auth" // Missing, invalid or revoked API key
+  | "quota" // Rate limit or exhausted quota
+  | "safety" // Blocked by safety filters
+  | "invalidArgument" // The request itself was rejected
+  | "network" // Connection failures, timeouts, 5xx
+  | "emptyImage" // The model answered without an image
+  | "budget" // Stopped by the local usage budget
+  | "unknown";
+
+const KINDS: AIErrorKind[] = ["auth", "quota", "safety", "invalidArgument", "network", "emptyImage", "budget", "unknown"];
+
+/**
+ * What an image response said instead of returning an image: the
+ * candidate's finish reason, prompt feedback, safety ratings that were
+ * blocked or rated MEDIUM/HIGH, and any text the model wrote.
+ */
+export interface ImageBlockDetails {
+  finishReason?: string; // e.g. IMAGE_SAFETY, NO_IMAGE
+  finishMessage?: string;
+  blockReason?: string; // Set when the prompt itself was blocked
+  blockMessage?: string;
+  categories: string[]; // HarmCategory names, e.g. HARM_CATEGORY_DANGEROUS_CONTENT
+  modelText?: string;
+}
+
+export class AIError extends Error {
+  constructor(public kind: AIErrorKind, message: string, public status?: number, public details?: ImageBlockDetails) {
+    super(message);
+    this.name = "AIError";
+  }
+}
+
+export const isAIErrorKind = (value: unknown): value is AIErrorKind => KINDS.includes(value as AIErrorKind);
+
+/**
+ * Pull the human-readable part out of SDK errors, which often embed the
+ * API's JSON error body in their message.
+ */
+const cleanMessage = (message: string): string => {
+  const json = message.match(/\{[\s\S]*\}/);
+  if (json) {
+    try {
+      const parsed = JSON.parse(json[0]);
+      const inner = parsed?.error?.message;
+      if (typeof inner === "string" && inner) return inner;
+    } catch {
+      // Not JSON after all: keep the original
+    }
+  }
+  return message;
+};
+
+/**
+ * Classify anything thrown by a model call. Order matters: a 400 about an
+ * invalid key is an auth problem, not an invalid argument.
+ */
+export const classifyError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+
+  const raw = error instanceof Error ? error.message : String(error);
+  const message = cleanMessage(raw);
+  const status = (error as { status?: unknown } | null)?.status;
+  const code = typeof status === "number" ? status : undefined;
+  const { kind: proxyKind, details } = (error || {}) as { kind?: unknown; details?: ImageBlockDetails };
+  if (isAIErrorKind(proxyKind)) return new AIError(proxyKind, message, code, details);
+
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(raw)) return new AIError("network", message, code);
+  if (code === 401 || code === 403 || /API[ _]?key|UNAUTHENTICATED|PERMISSION_DENIED|Requested entity was not found/i.test(raw)) {
+    return new AIError("auth", message, code);
+  }
+  if (code === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(raw)) return new AIError("quota", message, code);
+  if (/SAFETY|PROHIBITED_CONTENT|blocked|BLOCKLIST/i.test(raw)) return new AIError("safety", message, code);
+  if (code === 408 || (code !== undefined && code >= 500) || /UNAVAILABLE|DEADLINE_EXCEEDED|overloaded|network|timed? ?out/i.test(raw)) {
+    return new AIError("network", message, code);
+  }
+  if (code === 400 || /INVALID_ARGUMENT/i.test(raw)) return new AIError("invalidArgument", message, code);
+  return new AIError("unknown", message, code);
+};
+
+/**
+ * Title and next step shown for each kind of error.
+ */
+export const ERROR_GUIDANCE: Record<AIErrorKind, { title: string; nextStep: string }> = {
+  auth: { title: "API key problem", nextStep: "Reconnect your API key, then try again." },
+  quota: { title: "Rate limit reached", nextStep: "Wait a minute before retrying, or check your quota and billing." },
+  safety: { title: "Blocked by safety filters", nextStep: "Rephrase the prompt or edit instruction and try again." },
+  invalidArgument: { title: "Request rejected", nextStep: "Check the prompt, image and settings (e.g. try a different model or aspect ratio)." },
+  network: { title: "Connection problem", nextStep: "Check your connection; the service may also be busy. Try again shortly." },
+  emptyImage: { title: "No image returned", nextStep: "Try again, or make the prompt more explicitly visual." },
+  budget: { title: "Over budget", nextStep: "Raise or clear the budget under Profile → Usage & Budgets, or use ⚡ Flash." },
+  unknown: { title: "Something went wrong", nextStep: "Try again. If it keeps happening, check the console for details." },
+};
@@ -0,0 +1,354 @@
+import { AspectRatio, GeneratedImage, GenerationModel, ImageCritique, ImageOperation, REFERENCE_ROLES, ReferenceImage } from "../types";
+import { dataUrlToBytes, loadImageElement, parseDataUrl } from "./imageUtils";
+import { embedMetadata, METADATA_FORMATS, MetadataFormat, readMetadata, sniffImageType } from "./imageMetadata";
+import { createZip, ZipEntry } from "./zipArchive";
+import { findRoot } from "./versionTree";
+import { averageScore } from "./critiqueLoop";
+
+/**
+ * Image export: real file types, format conversion and the generation
+ * record embedded in the file (see imageMetadata), plus reading it back.
+ * Several images at once go into a ZIP with a manifest (see zipArchive).
+ */
+
+export type ExportFormat = "original" | MetadataFormat;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  quality: number; // 0–1, JPEG and WebP only
+  embedMetadata: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = { format: "original", quality: 0.92, embedMetadata: true };
+
+export const FORMAT_LABELS: Record<string, string> = {
+  "image/png": "PNG",
+  "image/jpeg": "JPEG",
+  "image/webp": "WebP",
+  "image/gif": "GIF",
+  "image/svg+xml": "SVG",
+};
+
+export const FORMAT_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/svg+xml": "svg",
+};
+
+export const GENERATION_RECORD_VERSION = 1;
+
+/**
+ * Everything needed to understand (and redo) a generation. Reference
+ * images are listed by role only; their pixels would dwarf the file.
+ */
+export interface GenerationRecord {
+  app: "GlowMint Muse";
+  version: number;
+  id: string;
+  prompt: string;
+  negativePrompt?: string;
+  model: string;
+  aspectRatio: string;
+  operation: ImageOperation;
+  parentId?: string;
+  createdAt: string; // ISO 8601
+  references?: Pick<ReferenceImage, "role" | "origin">[];
+  characterIds?: string[];
+}
+
+export const toGenerationRecord = (image: GeneratedImage): GenerationRecord => ({
+  app: "GlowMint Muse",
+  version: GENERATION_RECORD_VERSION,
+  id: image.id,
+  prompt: image.prompt,
+  negativePrompt: image.negativePrompt,
+  model: image.model,
+  aspectRatio: image.aspectRatio,
+  operation: image.operation,
+  parentId: image.parentId,
+  createdAt: image.timestamp.toISOString(),
+  references: image.references?.map(({ role, origin }) => ({ role, origin })),
+  characterIds: image.characterIds,
+});
+
+const isEnumValue = <T extends string>(values: Record<string, T>, value: unknown): value is T =>
+  typeof value === "string" && (Object.values(values) as string[]).includes(value);
+
+/**
+ * Validate record JSON read from a file. Unknown models and aspect ratios
+ * fall back to the defaults; returns null if there's no prompt.
+ */
+export const parseGenerationRecord = (json: string): GenerationRecord | null => {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (typeof data?.prompt !== "string" || !data.prompt.trim()) return null;
+  const references = Array.isArray(data.references)
+    ? data.references
+        .filter((ref) => REFERENCE_ROLES.includes(ref?.role))
+        .map((ref) => ({ role: ref.role, origin: ref.origin === "chat" || ref.origin === "history" ? ref.origin : "upload" }))
+    : undefined;
+  return {
+    app: "GlowMint Muse",
+    version: typeof data.version === "number" ? data.version : GENERATION_RECORD_VERSION,
+    id: typeof data.id === "string" ? data.id : "",
+    prompt: data.prompt,
+    negativePrompt: typeof data.negativePrompt === "string" && data.negativePrompt ? data.negativePrompt : undefined,
+    model: isEnumValue(GenerationModel, data.model) ? data.model : GenerationModel.Flash,
+    aspectRatio: isEnumValue(AspectRatio, data.aspectRatio) ? data.aspectRatio : AspectRatio.Square,
+    operation: data.operation === "refine" || data.operation === "import" ? data.operation : "generate",
+    parentId: typeof data.parentId === "string" ? data.parentId : undefined,
+    createdAt: typeof data.createdAt === "string" ? data.createdAt : new Date().toISOString(),
+    references,
+    characterIds: Array.isArray(data.characterIds) ? data.characterIds.filter((id): id is string => typeof id === "string") : undefined,
+  };
+};
+
+/**
+ * The generation record embedded in an image data URL, if any.
+ */
+export const readGenerationRecord = (dataUrl: string): GenerationRecord | null => {
+  const json = readMetadata(dataUrlToBytes(dataUrl));
+  return json ? parseGenerationRecord(json) : null;
+};
+
+/**
+ * What the data URL really contains, whatever its header says.
+ */
+export const detectImageType = (dataUrl: string): string =>
+  sniffImageType(dataUrlToBytes(dataUrl)) || parseDataUrl(dataUrl).mimeType;
+
+/**
+ * Re-encode through a canvas. JPEG has no alpha, so transparency becomes white.
+ */
+export const convertImage = async (dataUrl: string, mimeType: MetadataFormat, quality: number): Promise<string> => {
+  const img = await loadImageElement(dataUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d")!;
+  if (mimeType === "image/jpeg") {
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(img, 0, 0);
+  return canvas.toDataURL(mimeType, quality);
+};
+
+export interface ExportedImage {
+  blob: Blob;
+  fileName: string;
+  mimeType: string;
+  /** Set when the browser couldn't encode the requested format. */
+  fallbackFrom?: string;
+}
+
+interface EncodedImage {
+  bytes: Uint8Array;
+  mimeType: string;
+  fallbackFrom?: string;
+}
+
+/**
+ * Produce the file's bytes. With metadata on, formats that can't carry it
+ * (the mock provider's SVGs, GIFs) are converted to PNG.
+ */
+const encodeImage = async (image: GeneratedImage, { format, quality, embedMetadata: embed }: ExportOptions): Promise<EncodedImage> => {
+  const original = dataUrlToBytes(image.url);
+  const originalType = sniffImageType(original) || parseDataUrl(image.url).mimeType;
+  let target = format === "original" ? originalType : format;
+  if (embed && !METADATA_FORMATS.includes(target as MetadataFormat)) target = "image/png";
+
+  let bytes = target === originalType ? original : dataUrlToBytes(await convertImage(image.url, target as MetadataFormat, quality));
+  // Browsers that can't encode a format (e.g. WebP in older Safari) silently return PNG
+  const produced = sniffImageType(bytes) || target;
+  if (embed && METADATA_FORMATS.includes(produced as MetadataFormat)) {
+    bytes = embedMetadata(bytes, JSON.stringify(toGenerationRecord(image)), image.prompt);
+  }
+  return { bytes, mimeType: produced, fallbackFrom: produced !== target ? target : undefined };
+};
+
+/**
+ * Build the file to download for a single image.
+ */
+export const exportImage = async (image: GeneratedImage, options: ExportOptions): Promise<ExportedImage> => {
+  const { bytes, mimeType, fallbackFrom } = await encodeImage(image, options);
+  return {
+    blob: new Blob([bytes], { type: mimeType }),
+    fileName: `glowmint-muse-${image.id}.${FORMAT_EXTENSIONS[mimeType] || "img"}`,
+    mimeType,
+    fallbackFrom,
+  };
+};
+
+export interface SessionExportOptions extends ExportOptions {
+  contactSheet: boolean;
+}
+
+export const DEFAULT_SESSION_EXPORT_OPTIONS: SessionExportOptions = { ...DEFAULT_EXPORT_OPTIONS, contactSheet: true };
+
+export interface SessionManifestEntry extends Omit<GenerationRecord, "app" | "version"> {
+  file: string;
+  lineage: {
+    parentId?: string;
+    parentFile?: string; // Set when the parent is in the same archive
+    rootId: string;
+    depth: number; // 0 for an original, 1 for its first edit, ...
+  };
+  analysis?: ImageCritique & { averageScore: number };
+}
+
+export interface SessionManifest {
+  app: "GlowMint Muse";
+  version: number;
+  exportedAt: string; // ISO 8601
+  contactSheet?: string;
+  images: SessionManifestEntry[];
+}
+
+export interface ExportedSession {
+  blob: Blob;
+  fileName: string;
+  /** Images the browser couldn't encode in the requested format. */
+  fallbackCount: number;
+}
+
+const MANIFEST_FILE = "manifest.json";
+const CONTACT_SHEET_FILE = "contact-sheet.png";
+
+/**
+ * A file-name friendly excerpt of the prompt, e.g. "neon-fox-in-the-rain".
+ */
+const slugify = (text: string, maxLength = 40): string =>
+  text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // Drop accents: "café" → "cafe"
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, maxLength)
+    .replace(/^-+|-+$/g, "") || "image";
+
+const sequenceNumber = (index: number, total: number) => String(index + 1).padStart(Math.max(3, String(total).length), "0");
+
+/**
+ * Lay the images out on one sheet, each labelled with its number in the
+ * archive so a client can refer to "017" in feedback.
+ */
+export const buildContactSheet = async (images: GeneratedImage[], labels: string[]): Promise<Uint8Array> => {
+  const cell = 256;
+  const caption = 28;
+  const gap = 12;
+  const columns = Math.min(6, Math.ceil(Math.sqrt(images.length)));
+  const rows = Math.ceil(images.length / columns);
+  const canvas = document.createElement("canvas");
+  canvas.width = gap + columns * (cell + gap);
+  canvas.height = gap + rows * (cell + caption + gap);
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#0f172a"; // slate-900
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.font = "13px system-ui, sans-serif";
+  ctx.textBaseline = "middle";
+
+  for (const [i, image] of images.entries()) {
+    const x = gap + (i % columns) * (cell + gap);
+    const y = gap + Math.floor(i / columns) * (cell + caption + gap);
+    const img = await loadImageElement(image.url);
+    const scale = Math.min(cell / img.naturalWidth, cell / img.naturalHeight);
+    const width = img.naturalWidth * scale;
+    const height = img.naturalHeight * scale;
+    ctx.fillStyle = "#1e293b"; // slate-800
+    ctx.fillRect(x, y, cell, cell);
+    ctx.drawImage(img, x + (cell - width) / 2, y + (cell - height) / 2, width, height);
+
+    ctx.fillStyle = "#5eead4"; // teal-300
+    ctx.fillText(labels[i], x, y + cell + caption / 2);
+    const labelWidth = ctx.measureText(`${labels[i]}  `).width;
+    ctx.fillStyle = "#94a3b8"; // slate-400
+    let text = image.prompt;
+    while (text && ctx.measureText(`${text}…`).width > cell - labelWidth) text = text.slice(0, -1);
+    ctx.fillText(text === image.prompt ? text : `${text.trimEnd()}…`, x + labelWidth, y + cell + caption / 2);
+  }
+
+  const dataUrl = canvas.toDataURL("image/png");
+  return dataUrlToBytes(dataUrl);
+};
+
+/**
+ * Pack several images into one ZIP: consistently numbered files (oldest
+ * first), a manifest.json describing each one, and optionally a contact
+ * sheet. `library` is every known image, so lineage reaches parents that
+ * weren't selected.
+ */
+export const exportSession = async (
+  images: GeneratedImage[],
+  library: GeneratedImage[],
+  options: SessionExportOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<ExportedSession> => {
+  const ordered = [...images].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const byId = new Map(library.map((img) => [img.id, img]));
+  const labels = ordered.map((_, i) => sequenceNumber(i, ordered.length));
+  const total = ordered.length + (options.contactSheet ? 1 : 0);
+
+  const entries: ZipEntry[] = [];
+  const fileById = new Map<string, string>();
+  let fallbackCount = 0;
+  for (const [i, image] of ordered.entries()) {
+    const { bytes, mimeType, fallbackFrom } = await encodeImage(image, options);
+    const file = `${labels[i]}-${slugify(image.prompt)}.${FORMAT_EXTENSIONS[mimeType] || "img"}`;
+    entries.push({ name: file, data: bytes, modified: image.timestamp });
+    fileById.set(image.id, file);
+    if (fallbackFrom) fallbackCount++;
+    onProgress?.(i + 1, total);
+  }
+
+  const manifest: SessionManifest = {
+    app: "GlowMint Muse",
+    version: GENERATION_RECORD_VERSION,
+    exportedAt: new Date().toISOString(),
+    contactSheet: options.contactSheet ? CONTACT_SHEET_FILE : undefined,
+    images: ordered.map((image) => {
+      const { app, version, ...record } = toGenerationRecord(image);
+      let depth = 0;
+      for (let current = image; current.parentId && byId.has(current.parentId) && depth < byId.size; depth++) {
+        current = byId.get(current.parentId)!;
+      }
+      return {
+        file: fileById.get(image.id)!,
+        ...record,
+        lineage: {
+          parentId: image.parentId,
+          parentFile: image.parentId ? fileById.get(image.parentId) : undefined,
+          rootId: findRoot(image, byId).id,
+          depth,
+        },
+        analysis: image.critique ? { ...image.critique, averageScore: averageScore(image.critique) } : undefined,
+      };
+    }),
+  };
+  entries.push({ name: MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) });
+
+  if (options.contactSheet) {
+    entries.push({ name: CONTACT_SHEET_FILE, data: await buildContactSheet(ordered, labels) });
+    onProgress?.(total, total);
+  }
+
+  const day = new Date().toISOString().slice(0, 10);
+  return { blob: createZip(entries), fileName: `glowmint-muse-${day}-${ordered.length}-images.zip`, fallbackCount };
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
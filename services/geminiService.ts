@@ -1,38 +1,215 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { AspectRatio, GenerationModel } from "../types";
+import {
+  FinishReason,
+  FunctionDeclaration,
+  GoogleGenAI,
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+  HarmProbability,
+  MediaModality,
+  Type,
+} from "@google/genai";
+import {
+  AspectRatio,
+  CRITIQUE_CATEGORIES,
+  GenerationModel,
+  ImageCritique,
+  MAX_REFERENCE_IMAGES,
+  ReferenceImage,
+  ReferenceRole,
+} from "../types";
+import type { ChatStreamOptions, GenerateOptions, RefineOptions, RequestOptions, ToolCallRequest, UsageReport } from "./providers/types";
+import { AIError, AIErrorKind, classifyError, ImageBlockDetails } from "./errors";
+import { parseDataUrl } from "./imageUtils";
+import { normalizeCritique } from "./critique";
+import { resolveImageSize } from "./modelRegistry";
 
 /**
  * ⚠️ SECURITY WARNING ⚠️
  * 
- * This service initializes the Google GenAI SDK client-side.
- * In a production environment, your API Key should NEVER be exposed to the browser.
+ * In direct mode this service initializes the Google GenAI SDK client-side,
+ * which exposes the API Key to the browser.
  * 
- * For production:
- * 1. Move these API calls to a secure backend server.
- * 2. Proxy requests from the frontend to your backend.
- * 3. Implement rate limiting and authentication.
+ * For production, set `API_PROXY_URL` (e.g. `/api`) at build time and run the
+ * backend in `server/`. Every call is then forwarded to the proxy, which holds
+ * the key, rate-limits clients and logs requests. The server imports this same
+ * module, where API_PROXY_URL is unset, so it runs the direct path.
  */
 
 // Helper to get a fresh client instance.
 // Critical for handling API key changes dynamically (e.g. user selects a paid project).
 const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+/**
+ * Endpoints exposed by the backend proxy, relative to API_PROXY_URL.
+ */
+export const PROXY_ROUTES = {
+  chat: "/chat",
+  generateImage: "/generate-image",
+  refineImage: "/refine-image",
+  analyzeImage: "/analyze-image",
+  rephrasePrompt: "/rephrase-prompt",
+} as const;
+
+const MUSE_SYSTEM_INSTRUCTION =
+  "You are the 'GlowMint Muse', a creative AI assistant for 'GlowMint Muse' platform. Help users brainstorm artistic concepts, suggest prompts, and refine their visual ideas. Be concise, encouraging, and visually descriptive. \n\n" +
+  "IMPORTANT: When you suggest a specific prompt for image generation, you MUST wrap the prompt text in a markdown code block labeled 'prompt'. " +
+  "After the prompt you may add a line containing only '---' followed by generation settings, one 'key: value' per line:\n" +
+  "- negative: things to exclude\n" +
+  `- aspect: one of ${Object.values(AspectRatio).join(", ")}\n` +
+  "- model: flash (fast drafts) or pro (highest quality)\n" +
+  "- preset: the name of a style preset, only if the user mentions one\n" +
+  "Include only the settings that matter for this idea.\nExample:\n" +
+  "```prompt\nA futuristic city with glowing neon lights, cyberpunk style, digital art\n---\nnegative: blurry, text\naspect: 16:9\nmodel: pro\n```\n" +
+  "Do not put conversational text inside the prompt block. If the user asks to generate an image, describe exactly what the prompt should be inside this block.\n\n" +
+  "You can also act directly with the generate_image, refine_image and analyze_image tools, but ONLY when the user explicitly asks you to make, change or critique images " +
+  "(e.g. 'make three versions of that'). The app asks the user to confirm before anything runs. Earlier tool results list image ids you can pass as image_id; " +
+  "omit image_id to use the most recent image. When only brainstorming, suggest a prompt block instead.";
+
+/**
+ * Tools the Muse may call. The browser asks the user to confirm each call
+ * before running it (see services/museTools).
+ */
+const MUSE_TOOL_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: "generate_image",
+    description: "Generate one or more new images from a prompt.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        prompt: { type: Type.STRING, description: "Full image generation prompt." },
+        count: { type: Type.INTEGER, description: "Number of versions to make, 1-4. Default 1." },
+        aspect_ratio: { type: Type.STRING, enum: Object.values(AspectRatio) },
+        model: { type: Type.STRING, enum: ["flash", "pro"], description: "flash for fast drafts, pro for highest quality." },
+        negative_prompt: { type: Type.STRING, description: "Things to exclude." },
+      },
+      required: ["prompt"],
+    },
+  },
+  {
+    name: "refine_image",
+    description: "Edit an existing image with a natural-language instruction.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        instruction: { type: Type.STRING, description: "What to change, e.g. 'make the sky stormy'." },
+        image_id: { type: Type.STRING, description: "Id of the image to edit. Omit for the most recent image." },
+      },
+      required: ["instruction"],
+    },
+  },
+  {
+    name: "analyze_image",
+    description: "Critique an image: style tags, scores and suggested fixes.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        image_id: { type: Type.STRING, description: "Id of the image to critique. Omit for the most recent image." },
+      },
+    },
+  },
+];
+
+/**
+ * One line of the proxy's NDJSON chat stream.
+ */
+export type ChatStreamEvent =
+  | { delta: string }
+  | { toolCalls: ToolCallRequest[] }
+  | { usage: UsageReport }
+  | { error: string; kind: AIErrorKind }
+  | { done: true; text: string };
+
+/**
+ * A failed proxy call. Carries the HTTP status (the proxy forwards the
+ * upstream Gemini status when there is one) and the error kind the proxy
+ * classified, for classifyError.
+ */
+export class ProxyRequestError extends Error {
+  constructor(message: string, public status: number, public kind?: AIErrorKind, public details?: ImageBlockDetails) {
+    super(message);
+    this.name = "ProxyRequestError";
+  }
+}
+
+const getProxyUrl = (): string => process.env.API_PROXY_URL || "";
+
+export const isProxyMode = (): boolean => getProxyUrl() !== "";
+
+const CHAT_MODEL = "gemini-2.5-flash";
+const ANALYSIS_MODEL = "gemini-2.5-flash"; // Good for vision analysis
+
+/**
+ * Convert the API's usage metadata. Image output tokens are left out of
+ * `outputTokens` because generated images are priced per image.
+ */
+const toUsageReport = (
+  model: string,
+  metadata: GenerateContentResponseUsageMetadata | undefined,
+  images = 0
+): UsageReport => {
+  const imageTokens = (metadata?.candidatesTokensDetails || [])
+    .filter((detail) => detail.modality === MediaModality.IMAGE)
+    .reduce((sum, detail) => sum + (detail.tokenCount || 0), 0);
+  return {
+    model,
+    inputTokens: metadata?.promptTokenCount || 0,
+    outputTokens: Math.max(0, (metadata?.candidatesTokenCount || 0) - imageTokens) + (metadata?.thoughtsTokenCount || 0),
+    images,
+  };
+};
+
+/**
+ * POST a JSON payload to the backend proxy and return its JSON response.
+ */
+const callProxy = async <T>(route: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(`${getProxyUrl()}${route}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ProxyRequestError(payload.error || `Proxy request failed with status ${response.status}`, response.status, payload.kind, payload.details);
+  }
+  return payload as T;
+};
+
 /**
  * Chat with Gemini for ideation.
  * Supports Multimodal input (text + image).
+ *
+ * Streams the reply: `onChunk` receives the accumulated text after every
+ * chunk. Aborting via `signal` resolves with whatever arrived so far; any
+ * other failure rejects with an AIError.
  */
 export const sendChatMessage = async (
   message: string,
   history: { role: string; parts: { text?: string; inlineData?: any }[] }[],
-  attachmentBase64?: string
+  attachmentBase64?: string,
+  options: ChatStreamOptions = {}
 ): Promise<string> => {
+  const { signal, onChunk, onToolCalls, onUsage } = options;
+  let text = "";
+  const append = (delta: string) => {
+    text += delta;
+    onChunk?.(text);
+  };
+
   try {
+    if (isProxyMode()) {
+      return await streamProxyChat({ message, history, attachmentBase64 }, append, options);
+    }
+
     const ai = getAI();
     const chat = ai.chats.create({
-      model: "gemini-2.5-flash",
+      model: CHAT_MODEL,
       history: history,
       config: {
-        systemInstruction: "You are the 'GlowMint Muse', a creative AI assistant for 'GlowMint Muse' platform. Help users brainstorm artistic concepts, suggest prompts, and refine their visual ideas. Be concise, encouraging, and visually descriptive. \n\nIMPORTANT: When you suggest a specific prompt for image generation, you MUST wrap the prompt text in a markdown code block labeled 'prompt'. \nExample:\n```prompt\nA futuristic city with glowing neon lights, cyberpunk style, digital art\n```\nDo not put conversational text inside the prompt block. If the user asks to generate an image, describe exactly what the prompt should be inside this block.",
+        systemInstruction: MUSE_SYSTEM_INSTRUCTION,
+        tools: [{ functionDeclarations: MUSE_TOOL_DECLARATIONS }],
+        // Per-request config would not inherit the system instruction, so abort lives here
+        abortSignal: signal,
       },
     });
 
@@ -54,71 +231,243 @@ export const sendChatMessage = async (
       ];
     }
 
-    const result = await chat.sendMessage({ message: msgContent });
-    return result.text || "I'm having trouble thinking of a response right now.";
+    const stream = await chat.sendMessageStream({ message: msgContent });
+    const toolCalls: ToolCallRequest[] = [];
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    for await (const chunk of stream) {
+      if (signal?.aborted) break;
+      if (chunk.text) append(chunk.text);
+      for (const call of chunk.functionCalls || []) {
+        if (call.name) toolCalls.push({ name: call.name, args: call.args || {} });
+      }
+      // Running totals; the last chunk carries the final count
+      usage = chunk.usageMetadata || usage;
+    }
+    if (usage) onUsage?.(toUsageReport(CHAT_MODEL, usage));
+    if (toolCalls.length > 0 && !signal?.aborted) {
+      onToolCalls?.(toolCalls);
+      return text;
+    }
+    return text || "I'm having trouble thinking of a response right now.";
   } catch (error) {
+    // Stopped by the user: keep the partial reply
+    if (signal?.aborted) return text;
     console.error("Chat Error:", error);
-    return "Sorry, I encountered an error connecting to the creative mind.";
+    throw classifyError(error);
+  }
+};
+
+/**
+ * Read the proxy's NDJSON chat stream: `{"delta": "..."}` lines, optional
+ * `{"toolCalls": [...]}` and `{"usage": {...}}` lines, then a final
+ * `{"done": true, "text": "..."}` carrying the full reply. A stream that
+ * ends without one returns the deltas received so far.
+ */
+const streamProxyChat = async (
+  body: unknown,
+  append: (delta: string) => void,
+  { signal, onToolCalls, onUsage }: ChatStreamOptions
+): Promise<string> => {
+  const response = await fetch(`${getProxyUrl()}${PROXY_ROUTES.chat}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    const payload = await response.json().catch(() => ({}));
+    throw new ProxyRequestError(payload.error || `Proxy request failed with status ${response.status}`, response.status, payload.kind, payload.details);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let streamed = "";
+  let finalText: string | undefined;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as ChatStreamEvent;
+      if ("delta" in event) {
+        streamed += event.delta;
+        append(event.delta);
+      }
+      else if ("toolCalls" in event) onToolCalls?.(event.toolCalls);
+      else if ("usage" in event) onUsage?.(event.usage);
+      else if ("error" in event) throw new ProxyRequestError(event.error, response.status, event.kind);
+      else finalText = event.text;
+    }
+  }
+  return finalText ?? streamed;
+};
+
+interface ImageResponse {
+  image: string;
+  usage?: UsageReport;
+}
+
+/**
+ * The first inline image in a response, as a data URL.
+ */
+const extractImage = (response: GenerateContentResponse): string | null => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) {
+      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    }
   }
+  return null;
 };
 
+const SAFETY_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
+
 /**
- * Generate an image using Gemini 2.5 Flash Image or Gemini 3 Pro Image.
+ * Explain a response that should have had an image (or critique) but
+ * didn't: a "safety" AIError when filters stepped in, otherwise
+ * "emptyImage". Either way `details` says what the response reported.
+ */
+const missingOutputError = (response: GenerateContentResponse, fallback: string): AIError => {
+  const candidate = response.candidates?.[0];
+  const feedback = response.promptFeedback;
+  const ratings = [...(feedback?.safetyRatings || []), ...(candidate?.safetyRatings || [])];
+  const flagged = ratings.filter(
+    (rating) => rating.blocked || rating.probability === HarmProbability.MEDIUM || rating.probability === HarmProbability.HIGH
+  );
+  const modelText = (candidate?.content?.parts || [])
+    .map((part) => part.text || "")
+    .join("")
+    .trim();
+  const details: ImageBlockDetails = {
+    finishReason: candidate?.finishReason,
+    finishMessage: candidate?.finishMessage,
+    blockReason: feedback?.blockReason,
+    blockMessage: feedback?.blockReasonMessage,
+    categories: [...new Set(flagged.map((rating) => rating.category || "").filter(Boolean))],
+    modelText: modelText || undefined,
+  };
+  const isSafety =
+    !!details.blockReason || SAFETY_FINISH_REASONS.includes(details.finishReason || "") || ratings.some((rating) => rating.blocked);
+  const message =
+    details.blockMessage || details.finishMessage || (isSafety ? "The request was blocked by safety filters." : fallback);
+  return new AIError(isSafety ? "safety" : "emptyImage", message, undefined, details);
+};
+
+const REFERENCE_INSTRUCTIONS: Record<ReferenceRole, string> = {
+  style: "Style reference: match its medium, color palette, lighting and rendering, but not its content.",
+  subject: "Subject reference: keep this subject recognizably the same (face, build, clothing, markings) in the new image.",
+  composition: "Composition reference: follow its framing, camera angle and layout, but not its style or content.",
+};
+
+// Each reference image is preceded by a line saying what to take from it
+const referenceParts = (references: Pick<ReferenceImage, "url" | "role">[]) =>
+  references.slice(0, MAX_REFERENCE_IMAGES).flatMap((reference, i) => {
+    const { data, mimeType } = parseDataUrl(reference.url);
+    return [{ text: `Reference image ${i + 1}. ${REFERENCE_INSTRUCTIONS[reference.role]}` }, { inlineData: { data, mimeType } }];
+  });
+
+/**
+ * Generate an image using Gemini 2.5 Flash Image or Gemini 3 Pro Image,
+ * optionally conditioned on reference images.
  */
 export const generateImage = async (
   prompt: string,
   model: GenerationModel,
   aspectRatio: AspectRatio,
-  negativePrompt?: string
-): Promise<string | null> => {
+  negativePrompt?: string,
+  { signal, onUsage, references = [], imageSize }: GenerateOptions = {}
+): Promise<string> => {
   try {
+    if (isProxyMode()) {
+      const { image, usage } = await callProxy<ImageResponse>(
+        PROXY_ROUTES.generateImage,
+        { prompt, model, aspectRatio, negativePrompt, imageSize, references: references.map(({ url, role }) => ({ url, role })) },
+        signal
+      );
+      if (usage) onUsage?.(usage);
+      return image;
+    }
+
     const ai = getAI();
     // Construct the prompt with negative prompt if present
     let fullPrompt = prompt;
     if (negativePrompt) {
       fullPrompt += `\n\n(Negative Prompt: ${negativePrompt})`;
     }
+    if (references.length > 0) {
+      fullPrompt = `Create a new image, using the reference images above only as described.\n\n${fullPrompt}`;
+    }
 
     const response = await ai.models.generateContent({
       model: model,
       contents: {
-        parts: [{ text: fullPrompt }],
+        parts: [...referenceParts(references), { text: fullPrompt }],
       },
       config: {
         imageConfig: {
           aspectRatio: aspectRatio,
-          imageSize: model === GenerationModel.Pro ? "2K" : undefined, // Pro supports higher res
+          imageSize: resolveImageSize(model, imageSize),
         },
+        abortSignal: signal,
       },
     });
 
-    // Extract image
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-      }
-    }
-    return null;
+    const image = extractImage(response);
+    onUsage?.(toUsageReport(model, response.usageMetadata, image ? 1 : 0));
+    if (!image) throw missingOutputError(response, "The model returned no image.");
+    return image;
   } catch (error) {
     console.error("Image Gen Error:", error);
-    throw error;
+    throw classifyError(error);
   }
 };
 
+const MASK_INSTRUCTION =
+  "The second image is an edit mask with the same framing as the first. " +
+  "Apply the edit ONLY inside the white area of the mask. Everything in the black area " +
+  "must stay pixel-identical to the original: same composition, colors, lighting and details.";
+
 /**
  * Refine/Edit an image using multimodal input (Image + Text).
  * Used for "Self-Correction" or "Semantic Editing".
+ * With a mask, the model is told to confine the edit to the white region.
  */
 export const refineImage = async (
   base64Image: string,
   instruction: string,
-  model: GenerationModel = GenerationModel.Flash
-): Promise<string | null> => {
+  model: GenerationModel = GenerationModel.Flash,
+  { signal, mask, onUsage, references = [] }: RefineOptions = {}
+): Promise<string> => {
   try {
+    if (isProxyMode()) {
+      const { image, usage } = await callProxy<ImageResponse>(
+        PROXY_ROUTES.refineImage,
+        { base64Image, instruction, model, mask, references: references.map(({ url, role }) => ({ url, role })) },
+        signal
+      );
+      if (usage) onUsage?.(usage);
+      return image;
+    }
+
     const ai = getAI();
     // Remove header to get pure base64
     const base64Data = base64Image.split(',')[1];
     const mimeType = base64Image.split(';')[0].split(':')[1];
+    let editText = mask ? `${MASK_INSTRUCTION}\n\nEdit: ${instruction}` : instruction;
+    if (references.length > 0) {
+      editText = `Edit the first image. The reference images after it are only guides, used as described.\n\n${editText}`;
+    }
 
     const response = await ai.models.generateContent({
       model: model, 
@@ -130,39 +479,127 @@ export const refineImage = async (
               mimeType: mimeType,
             },
           },
+          ...(mask
+            ? [{ inlineData: { data: mask.split(',')[1], mimeType: mask.split(';')[0].split(':')[1] } }]
+            : []),
+          ...referenceParts(references),
           {
-            text: instruction,
+            text: editText,
           },
         ],
       },
       // Note: imageConfig might be restricted in multimodal edit contexts depending on model version,
       // but passing standard config usually defaults safely.
+      config: {
+        abortSignal: signal,
+      },
     });
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-          return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-        }
-      }
-      return null;
+    const image = extractImage(response);
+    onUsage?.(toUsageReport(model, response.usageMetadata, image ? 1 : 0));
+    if (!image) throw missingOutputError(response, "The model returned no image.");
+    return image;
 
   } catch (error) {
     console.error("Refine Image Error:", error);
-    throw error;
+    throw classifyError(error);
   }
 };
 
+const REPHRASE_INSTRUCTION =
+  "You rewrite image generation prompts that were blocked by safety filters or produced no image. " +
+  "Keep the subject, style, composition and mood, but replace or drop whatever likely tripped the filters " +
+  "(graphic violence or gore, nudity, real or famous people, minors in sensitive contexts, weapons aimed at people, hateful symbols). " +
+  "Reply with the rewritten prompt only: no quotes, no explanation.";
+
 /**
- * Analyze an image to provide tags/critique (Critique Loop).
+ * Ask the chat model for a safer wording of a prompt (or edit instruction)
+ * that came back without an image. `reason` is what the API reported.
  */
-export const analyzeImage = async (base64Image: string): Promise<string> => {
+export const rephrasePrompt = async (
+  prompt: string,
+  reason: string,
+  { signal, onUsage }: RequestOptions = {}
+): Promise<string> => {
+  try {
+    if (isProxyMode()) {
+      const { prompt: rephrased, usage } = await callProxy<{ prompt: string; usage?: UsageReport }>(PROXY_ROUTES.rephrasePrompt, { prompt, reason }, signal);
+      if (usage) onUsage?.(usage);
+      return rephrased;
+    }
+
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: CHAT_MODEL,
+      contents: `Prompt: ${prompt}\nWhat happened: ${reason}`,
+      config: {
+        systemInstruction: REPHRASE_INSTRUCTION,
+        abortSignal: signal,
+      },
+    });
+    onUsage?.(toUsageReport(CHAT_MODEL, response.usageMetadata));
+    const rephrased = response.text?.trim().replace(/^["']+|["']+$/g, "");
+    if (!rephrased) throw missingOutputError(response, "The model returned no suggestion.");
+    return rephrased;
+  } catch (error) {
+    console.error("Rephrase Error:", error);
+    throw classifyError(error);
+  }
+};
+
+const CRITIQUE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: "One-sentence overall assessment." },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Five short stylistic tags." },
+    scores: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(
+        CRITIQUE_CATEGORIES.map((category) => [category, { type: Type.INTEGER, description: "1 (poor) to 10 (excellent)" }])
+      ),
+      required: [...CRITIQUE_CATEGORIES],
+    },
+    issues: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          category: { type: Type.STRING, enum: [...CRITIQUE_CATEGORIES] },
+          severity: { type: Type.STRING, enum: ["low", "medium", "high"] },
+          description: { type: Type.STRING },
+          fix: { type: Type.STRING, description: "Imperative edit instruction for an image editing model." },
+        },
+        required: ["category", "severity", "description", "fix"],
+      },
+    },
+  },
+  required: ["summary", "tags", "scores", "issues"],
+};
+
+const parseCritique = (json: string): ImageCritique => normalizeCritique(JSON.parse(json));
+
+/**
+ * Analyze an image into a structured critique (Critique Loop).
+ * Throws on failure so the job queue can retry or report it.
+ */
+export const analyzeImage = async (
+  base64Image: string,
+  prompt?: string,
+  { signal, onUsage }: RequestOptions = {}
+): Promise<ImageCritique> => {
     try {
+        if (isProxyMode()) {
+          const { critique, usage } = await callProxy<{ critique: ImageCritique; usage?: UsageReport }>(PROXY_ROUTES.analyzeImage, { base64Image, prompt }, signal);
+          if (usage) onUsage?.(usage);
+          return critique;
+        }
+
         const ai = getAI();
         const base64Data = base64Image.split(',')[1];
         const mimeType = base64Image.split(';')[0].split(':')[1];
     
         const response: GenerateContentResponse = await ai.models.generateContent({
-          model: "gemini-2.5-flash", // Good for vision analysis
+          model: ANALYSIS_MODEL,
           contents: {
             parts: [
               {
@@ -172,15 +609,26 @@ export const analyzeImage = async (base64Image: string): Promise<string> => {
                 },
               },
               {
-                text: "Analyze this image. Provide a comma-separated list of 5 stylistic tags, followed by a brief 1-sentence critique of the composition or anatomy.",
+                text:
+                  "Critique this generated image as an art director. Tag its style, score each category, " +
+                  "and list concrete issues, each with a one-line edit instruction that would fix it. " +
+                  "Only score anatomy on what is present; score 10 if there are no figures." +
+                  (prompt ? `\n\nThe image was generated from this prompt: "${prompt}"` : "\n\nNo prompt is available; score prompt adherence 10."),
               },
             ],
           },
+          config: {
+            abortSignal: signal,
+            responseMimeType: "application/json",
+            responseSchema: CRITIQUE_SCHEMA,
+          },
         });
     
-        return response.text || "Could not analyze image.";
+        onUsage?.(toUsageReport(ANALYSIS_MODEL, response.usageMetadata));
+        if (!response.text) throw missingOutputError(response, "The model returned no critique.");
+        return parseCritique(response.text);
       } catch (error) {
         console.error("Analysis Error:", error);
-        return "Error analyzing image.";
+        throw classifyError(error);
       }
 }
\ No newline at end of file
@@ -0,0 +1,10 @@
+/**
+ * Ids for images. Several jobs can finish in the same millisecond (the
+ * queue runs them in parallel, next to Auto-Improve and Muse tool runs), so
+ * timestamps would collide and overwrite each other in storage.
+ */
+export const createImageId = (): string =>
+  // randomUUID needs a secure context; plain-http LAN access falls back
+  typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}${Math.random().toString(36).slice(2, 10)}`;
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { crc32, embedMetadata, readMetadata, sniffImageType } from "./imageMetadata";
+
+const fromBase64 = (base64: string) => Uint8Array.from(Buffer.from(base64, "base64"));
+
+// 1×1 images as real encoders write them
+const PNG = fromBase64("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=");
+const WEBP = fromBase64("UklGRhoAAABXRUJQVlA4TA0AAAAvAAAAEAcQERGIiP4HAA==");
+// SOI, a JFIF APP0 segment, then a stub scan and EOI
+const JPEG = Uint8Array.from([
+  0xff, 0xd8,
+  0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00,
+  0xff, 0xda, 0x00, 0x04, 0x00, 0x00, 0x12, 0x34,
+  0xff, 0xd9,
+]);
+
+const RECORD = JSON.stringify({ prompt: 'A "neon" fox <café> & friends', model: "gemini-2.5-flash-image" });
+
+describe("sniffImageType", () => {
+  it("recognizes images by their magic bytes", () => {
+    expect(sniffImageType(PNG)).toBe("image/png");
+    expect(sniffImageType(JPEG)).toBe("image/jpeg");
+    expect(sniffImageType(WEBP)).toBe("image/webp");
+    expect(sniffImageType(new TextEncoder().encode('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBe("image/svg+xml");
+    expect(sniffImageType(new TextEncoder().encode("hello"))).toBeNull();
+  });
+});
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+});
+
+describe("embedMetadata / readMetadata", () => {
+  it.each([
+    ["PNG", PNG],
+    ["JPEG", JPEG],
+    ["WebP", WEBP],
+  ])("round-trips the record through a %s file", (_, image) => {
+    expect(readMetadata(image)).toBeNull();
+    const tagged = embedMetadata(image, RECORD, "A neon fox");
+    expect(sniffImageType(tagged)).toBe(sniffImageType(image));
+    expect(readMetadata(tagged)).toBe(RECORD);
+  });
+
+  it.each([
+    ["PNG", PNG],
+    ["JPEG", JPEG],
+    ["WebP", WEBP],
+  ])("replaces an earlier record in a %s file instead of adding another", (_, image) => {
+    const once = embedMetadata(image, RECORD, "first");
+    const twice = embedMetadata(once, '{"prompt":"second"}', "second");
+    expect(readMetadata(twice)).toBe('{"prompt":"second"}');
+    expect(twice.length - once.length).toBeLessThan(RECORD.length);
+  });
+
+  it("keeps PNG chunk checksums valid", () => {
+    const tagged = embedMetadata(PNG, RECORD, "A neon fox");
+    const view = new DataView(tagged.buffer);
+    for (let offset = 8; offset < tagged.length; ) {
+      const length = view.getUint32(offset);
+      expect(view.getUint32(offset + 8 + length)).toBe(crc32(tagged.subarray(offset + 4, offset + 8 + length)));
+      offset += 12 + length;
+    }
+  });
+
+  it("gives a simple WebP an extended header with the XMP flag", () => {
+    const tagged = embedMetadata(WEBP, RECORD, "A neon fox");
+    expect(String.fromCharCode(...tagged.subarray(12, 16))).toBe("VP8X");
+    expect(tagged[20] & 0x04).toBe(0x04);
+    expect(new DataView(tagged.buffer).getUint32(4, true)).toBe(tagged.length - 8);
+  });
+
+  it("refuses formats it can't tag", () => {
+    expect(() => embedMetadata(new TextEncoder().encode("GIF89a"), RECORD, "")).toThrow("PNG, JPEG and WebP");
+  });
+});
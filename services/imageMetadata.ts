@@ -0,0 +1,329 @@
+/**
+ * Read and write a generation record inside image files, so an exported
+ * image remembers how it was made: PNG tEXt/iTXt chunks, or an XMP packet
+ * for JPEG (APP1 segment) and WebP ("XMP " chunk).
+ *
+ * Everything here works on raw bytes and never decodes pixels.
+ */
+
+export type MetadataFormat = "image/png" | "image/jpeg" | "image/webp";
+
+export const METADATA_FORMATS: MetadataFormat[] = ["image/png", "image/jpeg", "image/webp"];
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const PNG_RECORD_KEYWORD = "GlowMintGeneration";
+const SOFTWARE = "GlowMint Muse";
+
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+const XMP_NAMESPACE = "urn:glowmint-muse:xmp:1.0/";
+// A JPEG segment length is 16 bits and includes its own two bytes
+const MAX_JPEG_SEGMENT = 0xffff - 2;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const startsWith = (bytes: Uint8Array, prefix: number[], offset = 0) => prefix.every((b, i) => bytes[offset + i] === b);
+const ascii = (bytes: Uint8Array, start: number, length: number) => String.fromCharCode(...bytes.subarray(start, start + length));
+const asciiBytes = (text: string) => Uint8Array.from(text, (c) => c.charCodeAt(0));
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/**
+ * The real type of an image from its magic bytes (data URL headers lie:
+ * the API labels JPEGs as PNG now and then). Null if unrecognized.
+ */
+export const sniffImageType = (bytes: Uint8Array): string | null => {
+  if (startsWith(bytes, PNG_SIGNATURE)) return "image/png";
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") return "image/webp";
+  if (ascii(bytes, 0, 4) === "GIF8") return "image/gif";
+  const head = decoder.decode(bytes.subarray(0, 256)).trimStart();
+  if (head.startsWith("<svg") || (head.startsWith("<?xml") && head.includes("<svg"))) return "image/svg+xml";
+  return null;
+};
+
+// --- PNG ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 as used by PNG chunks (and ZIP entries, see zipArchive).
+ */
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const body = concat(asciiBytes(type), data);
+  const out = new Uint8Array(body.length + 8);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(body, 4);
+  view.setUint32(body.length + 4, crc32(body));
+  return out;
+};
+
+// tEXt is Latin-1 only, so anything user-written goes in UTF-8 iTXt
+const textChunk = (keyword: string, text: string) => pngChunk("tEXt", asciiBytes(`${keyword}\0${text}`));
+const itxtChunk = (keyword: string, text: string) =>
+  pngChunk("iTXt", concat(asciiBytes(`${keyword}\0\0\0\0\0`), encoder.encode(text)));
+
+interface PngChunk {
+  type: string;
+  start: number; // Offset of the length field
+  end: number; // Offset just past the CRC
+  data: Uint8Array;
+}
+
+const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const end = offset + 12 + length;
+    if (end > bytes.length) break;
+    chunks.push({ type, start: offset, end, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset = end;
+    if (type === "IEND") break;
+  }
+  return chunks;
+};
+
+const chunkKeyword = (chunk: PngChunk) => ascii(chunk.data, 0, Math.max(0, chunk.data.indexOf(0)));
+
+const embedPng = (bytes: Uint8Array, record: string, description: string): Uint8Array => {
+  const chunks = readPngChunks(bytes);
+  const iend = chunks.find((c) => c.type === "IEND");
+  if (!iend) throw new Error("Not a complete PNG file.");
+  // Drop what an earlier export wrote, so re-exports don't pile up copies
+  const kept = chunks.filter(
+    (c) => c.type !== "IEND" && !((c.type === "tEXt" || c.type === "iTXt") && ["Software", "Description", PNG_RECORD_KEYWORD].includes(chunkKeyword(c)))
+  );
+  return concat(
+    bytes.subarray(0, PNG_SIGNATURE.length),
+    ...kept.map((c) => bytes.subarray(c.start, c.end)),
+    textChunk("Software", SOFTWARE),
+    itxtChunk("Description", description),
+    itxtChunk(PNG_RECORD_KEYWORD, record),
+    bytes.subarray(iend.start, iend.end)
+  );
+};
+
+const readPngRecord = (bytes: Uint8Array): string | null => {
+  for (const chunk of readPngChunks(bytes)) {
+    if (chunk.type !== "iTXt" || chunkKeyword(chunk) !== PNG_RECORD_KEYWORD) continue;
+    // keyword \0 compression-flag compression-method language \0 translated-keyword \0 text
+    let offset = chunk.data.indexOf(0) + 3;
+    offset = chunk.data.indexOf(0, offset) + 1;
+    offset = chunk.data.indexOf(0, offset) + 1;
+    return decoder.decode(chunk.data.subarray(offset));
+  }
+  return null;
+};
+
+// --- XMP (JPEG and WebP) ---
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const unescapeXml = (text: string) =>
+  text.replace(/&quot;/g, '"').replace(/&gt;/g, ">").replace(/&lt;/g, "<").replace(/&amp;/g, "&");
+
+const buildXmp = (record: string, description: string): string =>
+  `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n` +
+  `<x:xmpmeta xmlns:x="adobe:ns:meta/">\n` +
+  ` <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">\n` +
+  `  <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:glowmint="${XMP_NAMESPACE}">\n` +
+  `   <xmp:CreatorTool>${SOFTWARE}</xmp:CreatorTool>\n` +
+  `   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(description)}</rdf:li></rdf:Alt></dc:description>\n` +
+  `   <glowmint:Generation>${escapeXml(record)}</glowmint:Generation>\n` +
+  `  </rdf:Description>\n` +
+  ` </rdf:RDF>\n` +
+  `</x:xmpmeta>\n` +
+  `<?xpacket end="w"?>`;
+
+const readXmpRecord = (xmp: string): string | null => {
+  const match = xmp.match(/<glowmint:Generation>([\s\S]*?)<\/glowmint:Generation>/);
+  return match ? unescapeXml(match[1]) : null;
+};
+
+// --- JPEG ---
+
+interface JpegSegment {
+  marker: number;
+  start: number;
+  end: number;
+}
+
+// Marker segments up to the start of scan; entropy-coded data follows SOS
+const readJpegSegments = (bytes: Uint8Array): JpegSegment[] => {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    segments.push({ marker, start: offset, end });
+    if (marker === 0xda) break;
+    offset = end;
+  }
+  return segments;
+};
+
+const isXmpSegment = (bytes: Uint8Array, segment: JpegSegment) =>
+  segment.marker === 0xe1 && ascii(bytes, segment.start + 4, XMP_HEADER.length) === XMP_HEADER;
+
+const embedJpeg = (bytes: Uint8Array, record: string, description: string): Uint8Array => {
+  const payload = concat(asciiBytes(XMP_HEADER), encoder.encode(buildXmp(record, description)));
+  if (payload.length > MAX_JPEG_SEGMENT) throw new Error("The prompt is too long to embed in a JPEG.");
+  const segment = new Uint8Array(payload.length + 4);
+  segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+
+  const segments = readJpegSegments(bytes);
+  const old = segments.find((s) => isXmpSegment(bytes, s));
+  const withoutOld = old ? concat(bytes.subarray(0, old.start), bytes.subarray(old.end)) : bytes;
+  // After SOI and a leading JFIF/Exif segment, where readers expect to find it
+  const first = readJpegSegments(withoutOld)[0];
+  const insertAt = first && (first.marker === 0xe0 || first.marker === 0xe1) ? first.end : 2;
+  return concat(withoutOld.subarray(0, insertAt), segment, withoutOld.subarray(insertAt));
+};
+
+const readJpegRecord = (bytes: Uint8Array): string | null => {
+  const segment = readJpegSegments(bytes).find((s) => isXmpSegment(bytes, s));
+  if (!segment) return null;
+  return readXmpRecord(decoder.decode(bytes.subarray(segment.start + 4 + XMP_HEADER.length, segment.end)));
+};
+
+// --- WebP ---
+
+interface RiffChunk {
+  type: string;
+  start: number;
+  end: number; // Including the pad byte
+  data: Uint8Array;
+}
+
+const readWebpChunks = (bytes: Uint8Array): RiffChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    chunks.push({ type: ascii(bytes, offset, 4), start: offset, end: Math.min(end, bytes.length), data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset = end;
+  }
+  return chunks;
+};
+
+const riffChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(8 + data.length + (data.length % 2));
+  out.set(asciiBytes(type));
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+};
+
+const uint24 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+
+/**
+ * Extended-format header for a simple (VP8/VP8L) WebP: canvas size comes
+ * from the bitstream header, alpha from the VP8L header bit.
+ */
+const vp8xFor = (image: RiffChunk, flags: number): Uint8Array => {
+  let width: number;
+  let height: number;
+  if (image.type === "VP8L") {
+    const bits = new DataView(image.data.buffer, image.data.byteOffset + 1, 4).getUint32(0, true);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >> 14) & 0x3fff) + 1;
+    if ((bits >> 28) & 1) flags |= 0x10;
+  } else {
+    const view = new DataView(image.data.buffer, image.data.byteOffset + 6, 4);
+    width = view.getUint16(0, true) & 0x3fff;
+    height = view.getUint16(2, true) & 0x3fff;
+  }
+  return Uint8Array.from([flags, 0, 0, 0, ...uint24(width - 1), ...uint24(height - 1)]);
+};
+
+const XMP_FLAG = 0x04;
+
+const embedWebp = (bytes: Uint8Array, record: string, description: string): Uint8Array => {
+  const chunks = readWebpChunks(bytes).filter((c) => c.type !== "XMP ");
+  const image = chunks.find((c) => c.type === "VP8 " || c.type === "VP8L");
+  const rebuilt = chunks.map((c) => {
+    if (c.type !== "VP8X") return bytes.subarray(c.start, c.end);
+    const data = Uint8Array.from(c.data);
+    data[0] |= XMP_FLAG;
+    return riffChunk("VP8X", data);
+  });
+  if (!chunks.some((c) => c.type === "VP8X")) {
+    if (!image) throw new Error("Not a complete WebP file.");
+    rebuilt.unshift(riffChunk("VP8X", vp8xFor(image, XMP_FLAG)));
+  }
+  const body = concat(asciiBytes("WEBP"), ...rebuilt, riffChunk("XMP ", encoder.encode(buildXmp(record, description))));
+  const header = new Uint8Array(8);
+  header.set(asciiBytes("RIFF"));
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return concat(header, body);
+};
+
+const readWebpRecord = (bytes: Uint8Array): string | null => {
+  const chunk = readWebpChunks(bytes).find((c) => c.type === "XMP ");
+  return chunk ? readXmpRecord(decoder.decode(chunk.data)) : null;
+};
+
+// --- Public API ---
+
+/**
+ * Return a copy of the file with `record` (JSON text) and a plain-text
+ * description embedded, replacing what an earlier export wrote.
+ */
+export const embedMetadata = (bytes: Uint8Array, record: string, description: string): Uint8Array => {
+  switch (sniffImageType(bytes)) {
+    case "image/png":
+      return embedPng(bytes, record, description);
+    case "image/jpeg":
+      return embedJpeg(bytes, record, description);
+    case "image/webp":
+      return embedWebp(bytes, record, description);
+    default:
+      throw new Error("Metadata can only be embedded in PNG, JPEG and WebP files.");
+  }
+};
+
+/**
+ * The record text embedded by `embedMetadata`, or null if there is none.
+ */
+export const readMetadata = (bytes: Uint8Array): string | null => {
+  switch (sniffImageType(bytes)) {
+    case "image/png":
+      return readPngRecord(bytes);
+    case "image/jpeg":
+      return readJpegRecord(bytes);
+    case "image/webp":
+      return readWebpRecord(bytes);
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,107 @@
+/**
+ * Helpers for moving image data between the formats the app uses:
+ * base64 data URLs (UI + Gemini inlineData) and Blobs (storage).
+ */
+
+export interface ParsedDataUrl {
+  mimeType: string;
+  data: string; // Raw base64 payload, no header
+}
+
+/**
+ * Split a base64 data URL into its MIME type and payload.
+ */
+export const parseDataUrl = (dataUrl: string): ParsedDataUrl => {
+  const [header, data = ""] = dataUrl.split(",");
+  const mimeType = header.split(";")[0].split(":")[1] || "application/octet-stream";
+  return { mimeType, data };
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(parseDataUrl(dataUrl).data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  return new Blob([dataUrlToBytes(dataUrl)], { type: parseDataUrl(dataUrl).mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string =>
+  `data:${mimeType};base64,${bytesToBase64(bytes)}`;
+
+/**
+ * Base64-encode arbitrary (UTF-8) text, e.g. an SVG document.
+ * Plain btoa() throws on characters outside Latin-1.
+ */
+export const textToBase64 = (text: string): string => bytesToBase64(new TextEncoder().encode(text));
+
+export const loadImageElement = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image"));
+    img.src = src;
+  });
+};
+
+/**
+ * Keep the edited image only where the mask is white and restore every
+ * other pixel from the original. The mask edge is feathered slightly so the
+ * seam doesn't show. Output matches the original's dimensions, as PNG.
+ */
+export const compositeWithMask = async (originalUrl: string, editedUrl: string, maskUrl: string): Promise<string> => {
+  const [original, edited, mask] = await Promise.all([originalUrl, editedUrl, maskUrl].map(loadImageElement));
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  // Turn the black/white mask into an alpha mask (white = opaque)
+  const alphaCanvas = document.createElement("canvas");
+  alphaCanvas.width = width;
+  alphaCanvas.height = height;
+  const alphaCtx = alphaCanvas.getContext("2d")!;
+  alphaCtx.filter = `blur(${Math.max(1, Math.round(Math.min(width, height) / 256))}px)`;
+  alphaCtx.drawImage(mask, 0, 0, width, height);
+  const pixels = alphaCtx.getImageData(0, 0, width, height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = pixels.data[i];
+  }
+  alphaCtx.putImageData(pixels, 0, 0);
+
+  // Edited pixels, cut down to the masked region
+  const editCanvas = document.createElement("canvas");
+  editCanvas.width = width;
+  editCanvas.height = height;
+  const editCtx = editCanvas.getContext("2d")!;
+  editCtx.drawImage(edited, 0, 0, width, height);
+  editCtx.globalCompositeOperation = "destination-in";
+  editCtx.drawImage(alphaCanvas, 0, 0);
+
+  const output = document.createElement("canvas");
+  output.width = width;
+  output.height = height;
+  const ctx = output.getContext("2d")!;
+  ctx.drawImage(original, 0, 0, width, height);
+  ctx.drawImage(editCanvas, 0, 0);
+  return output.toDataURL("image/png");
+};
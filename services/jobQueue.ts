@@ -0,0 +1,217 @@
+import { useSyncExternalStore } from "react";
+import { AIError } from "./errors";
+
+/**
+ * Background job queue for generate / refine / analyze calls.
+ *
+ * Runs up to `concurrency` jobs at once, retries transient failures with
+ * exponential backoff and cancels through AbortSignal. The job list is an
+ * immutable snapshot so React can subscribe via useSyncExternalStore.
+ */
+
+export type JobKind = "generate" | "refine" | "analyze";
+
+export type JobStatus = "queued" | "running" | "retrying" | "succeeded" | "failed" | "cancelled";
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  label: string;
+  status: JobStatus;
+  attempts: number;
+  error?: string;
+  createdAt: Date;
+  finishedAt?: Date;
+  nextRetryAt?: Date;
+}
+
+export interface JobRequest<T> {
+  kind: JobKind;
+  label: string;
+  run: (signal: AbortSignal) => Promise<T>;
+  /** Cancels the job when aborted, e.g. when a whole batch is discarded. */
+  signal?: AbortSignal;
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+interface JobQueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+  baseDelayMs: number;
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+interface Entry {
+  run: (signal: AbortSignal) => Promise<unknown>;
+  controller: AbortController;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+const FINISHED: JobStatus[] = ["succeeded", "failed", "cancelled"];
+
+export const isFinished = (job: Job) => FINISHED.includes(job.status);
+
+/**
+ * Rate limits, server hiccups and dropped connections are worth retrying;
+ * bad requests, auth and safety blocks are not.
+ */
+export const isTransientError = (error: unknown): boolean => {
+  if (error instanceof AIError) return error.kind === "quota" || error.kind === "network";
+  // fetch() network failures surface as TypeError ("Failed to fetch", "Load failed")
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(error.message)) return true;
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === "number") {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|overloaded|network/i.test(message);
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Resolves after `ms`, or early (without throwing) if the signal fires
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+export const createJobQueue = ({
+  concurrency,
+  maxAttempts,
+  baseDelayMs,
+  shouldRetry = isTransientError,
+}: JobQueueOptions) => {
+  let jobs: Job[] = [];
+  const entries = new Map<string, Entry>();
+  const pending: string[] = [];
+  const listeners = new Set<() => void>();
+  let running = 0;
+  let nextId = 0;
+
+  const update = (id: string, patch: Partial<Job>) => {
+    jobs = jobs.map((job) => (job.id === id ? { ...job, ...patch } : job));
+    listeners.forEach((listener) => listener());
+  };
+
+  const execute = async (id: string, entry: Entry) => {
+    const { signal } = entry.controller;
+    for (let attempt = 1; ; attempt++) {
+      if (signal.aborted) break;
+      update(id, { status: "running", attempts: attempt, nextRetryAt: undefined });
+      try {
+        const result = await entry.run(signal);
+        if (signal.aborted) break;
+        update(id, { status: "succeeded", error: undefined, finishedAt: new Date() });
+        entry.resolve(result);
+        return;
+      } catch (error) {
+        if (signal.aborted) break;
+        if (attempt < maxAttempts && shouldRetry(error)) {
+          // Exponential backoff with ±25% jitter so parallel jobs don't retry in lockstep
+          const delayMs = baseDelayMs * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+          update(id, { status: "retrying", error: errorMessage(error), nextRetryAt: new Date(Date.now() + delayMs) });
+          await sleep(delayMs, signal);
+          continue;
+        }
+        update(id, { status: "failed", error: errorMessage(error), finishedAt: new Date() });
+        entry.reject(error);
+        return;
+      }
+    }
+    update(id, { status: "cancelled", finishedAt: new Date() });
+    entry.reject(new JobCancelledError());
+  };
+
+  const pump = () => {
+    while (running < concurrency && pending.length > 0) {
+      const id = pending.shift()!;
+      const entry = entries.get(id);
+      if (!entry) continue;
+      running++;
+      execute(id, entry).finally(() => {
+        running--;
+        entries.delete(id);
+        pump();
+      });
+    }
+  };
+
+  /**
+   * Queue a job. The promise settles with the job's result, or rejects with
+   * the final error (or JobCancelledError).
+   */
+  const enqueue = <T>({ kind, label, run, signal }: JobRequest<T>): Promise<T> => {
+    const id = `job-${Date.now()}-${nextId++}`;
+    const promise = new Promise<T>((resolve, reject) => {
+      entries.set(id, {
+        run,
+        controller: new AbortController(),
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+    });
+    jobs = [{ id, kind, label, status: "queued", attempts: 0, createdAt: new Date() }, ...jobs];
+    pending.push(id);
+    listeners.forEach((listener) => listener());
+    signal?.addEventListener("abort", () => cancel(id), { once: true });
+    pump();
+    if (signal?.aborted) cancel(id);
+    return promise;
+  };
+
+  const cancel = (id: string) => {
+    const entry = entries.get(id);
+    if (!entry) return;
+    const queuedIndex = pending.indexOf(id);
+    if (queuedIndex !== -1) {
+      // Never started: settle it here since no worker will pick it up
+      pending.splice(queuedIndex, 1);
+      entries.delete(id);
+      update(id, { status: "cancelled", finishedAt: new Date() });
+      entry.reject(new JobCancelledError());
+    } else {
+      entry.controller.abort();
+    }
+  };
+
+  const dismiss = (id: string) => {
+    jobs = jobs.filter((job) => job.id !== id || !isFinished(job));
+    listeners.forEach((listener) => listener());
+  };
+
+  const clearFinished = () => {
+    jobs = jobs.filter((job) => !isFinished(job));
+    listeners.forEach((listener) => listener());
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const getJobs = () => jobs;
+
+  return { enqueue, cancel, dismiss, clearFinished, subscribe, getJobs };
+};
+
+export type JobQueue = ReturnType<typeof createJobQueue>;
+
+/**
+ * App-wide queue shared by every workspace action.
+ */
+export const jobQueue = createJobQueue({ concurrency: 3, maxAttempts: 3, baseDelayMs: 1000 });
+
+export const useJobs = (queue: JobQueue = jobQueue): Job[] => useSyncExternalStore(queue.subscribe, queue.getJobs);
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { MarkdownInline, parseInline, parseMarkdown, safeUrl } from "./markdown";
+
+const text = (value: string): MarkdownInline => ({ type: "text", text: value });
+
+/** The text a reader would see, markup stripped. */
+const plain = (nodes: MarkdownInline[]): string =>
+  nodes.map((node) => {
+    if (node.type === "text" || node.type === "code") return node.text;
+    if (node.type === "break") return "\n";
+    return plain(node.children);
+  }).join("");
+
+describe("safeUrl", () => {
+  it("allows only absolute http(s) and mailto links", () => {
+    expect(safeUrl("https://example.com/a b")).toBe("https://example.com/a%20b");
+    expect(safeUrl("mailto:hi@example.com")).toBe("mailto:hi@example.com");
+    expect(safeUrl("javascript:alert(1)")).toBeNull();
+    expect(safeUrl(" JavaScript:alert(1)")).toBeNull();
+    expect(safeUrl("data:text/html,<b>x</b>")).toBeNull();
+    expect(safeUrl("/relative/path")).toBeNull();
+  });
+});
+
+describe("parseInline", () => {
+  it("parses emphasis, code and links", () => {
+    expect(parseInline("**bold** *it* ~~gone~~ `a*b` [site](https://a.com/x)")).toEqual([
+      { type: "strong", children: [text("bold")] },
+      text(" "),
+      { type: "emphasis", children: [text("it")] },
+      text(" "),
+      { type: "strike", children: [text("gone")] },
+      text(" "),
+      { type: "code", text: "a*b" },
+      text(" "),
+      { type: "link", href: "https://a.com/x", children: [text("site")] },
+    ]);
+  });
+
+  it("keeps raw HTML as text", () => {
+    expect(parseInline("<img src=x onerror=alert(1)>")).toEqual([text("<img src=x onerror=alert(1)>")]);
+  });
+
+  it("drops unsafe link targets but keeps the label", () => {
+    expect(parseInline("[click](javascript:alert(1))")).toEqual([text("click")]);
+  });
+
+  it("links bare URLs without trailing punctuation", () => {
+    expect(parseInline("see https://example.com/a.")).toEqual([
+      text("see "),
+      { type: "link", href: "https://example.com/a", children: [text("https://example.com/a")] },
+      text("."),
+    ]);
+  });
+
+  it("leaves intraword underscores and escaped markers alone", () => {
+    expect(plain(parseInline("snake_case_name \\*lit\\*"))).toBe("snake_case_name *lit*");
+    expect(parseInline("snake_case_name").every((node) => node.type === "text")).toBe(true);
+  });
+
+  it("turns newlines into breaks", () => {
+    expect(parseInline("a\nb")).toEqual([text("a"), { type: "break" }, text("b")]);
+  });
+
+  it.each([
+    ["unclosed emphasis", "*a ".repeat(20_000)],
+    ["unclosed strong", "**a ".repeat(20_000)],
+    ["unclosed brackets", "[".repeat(20_000)],
+    ["unclosed link targets", "[a](".repeat(20_000)],
+    ["mixed markers", "*_~`[".repeat(10_000)],
+    ["deeply nested links", "[".repeat(5_000) + "a" + "](https://a.com)".repeat(5_000)],
+    ["deeply nested emphasis", "*_".repeat(10_000) + "a" + "_*".repeat(10_000)],
+  ])("stays fast on %s", (_, input) => {
+    const started = performance.now();
+    expect(parseInline(input).length).toBeGreaterThan(0);
+    expect(performance.now() - started).toBeLessThan(1000);
+  });
+
+  it("keeps unclosed markers as text", () => {
+    expect(plain(parseInline("*a [b ~~c `d"))).toBe("*a [b ~~c `d");
+  });
+});
+
+describe("parseMarkdown", () => {
+  it("parses block structure", () => {
+    const source = [
+      "# Title",
+      "",
+      "- one",
+      "  - nested",
+      "- two",
+      "",
+      "3. three",
+      "",
+      "> quote",
+      "",
+      "```ts",
+      "const x = 1;",
+      "```",
+      "",
+      "| a | b |",
+      "|:--|--:|",
+      "| 1 | 2 |",
+      "",
+      "---",
+    ].join("\n");
+
+    expect(parseMarkdown(source)).toEqual([
+      { type: "heading", level: 1, children: [text("Title")] },
+      {
+        type: "list",
+        ordered: false,
+        start: 1,
+        items: [
+          [
+            { type: "paragraph", children: [text("one")] },
+            { type: "list", ordered: false, start: 1, items: [[{ type: "paragraph", children: [text("nested")] }]] },
+          ],
+          [{ type: "paragraph", children: [text("two")] }],
+        ],
+      },
+      { type: "list", ordered: true, start: 3, items: [[{ type: "paragraph", children: [text("three")] }]] },
+      { type: "blockquote", children: [{ type: "paragraph", children: [text("quote")] }] },
+      { type: "code", language: "ts", code: "const x = 1;" },
+      { type: "table", align: ["left", "right"], header: [[text("a")], [text("b")]], rows: [[[text("1")], [text("2")]]] },
+      { type: "rule" },
+    ]);
+  });
+
+  it("doesn't parse markup inside code fences", () => {
+    expect(parseMarkdown("```\n**not bold**\n# not a heading\n```")).toEqual([
+      { type: "code", code: "**not bold**\n# not a heading" },
+    ]);
+  });
+
+  it.each([
+    ["quotes", ">".repeat(5_000) + " deep"],
+    ["lists", "- ".repeat(5_000) + "deep"],
+  ])("caps how deeply %s nest", (_, input) => {
+    let depth = 0;
+    for (let blocks = parseMarkdown(input); blocks.length; depth++) {
+      const [block] = blocks;
+      blocks = block.type === "blockquote" ? block.children : block.type === "list" ? block.items[0] : [];
+    }
+    expect(depth).toBeGreaterThan(10);
+    expect(depth).toBeLessThan(50);
+  });
+});
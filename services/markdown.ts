@@ -0,0 +1,424 @@
+/**
+ * Markdown for chat messages, parsed into a small syntax tree that the
+ * Markdown component renders as React elements. Nothing here produces
+ * HTML, so raw HTML in a message is shown as text, never injected.
+ *
+ * Supported: paragraphs, headings, bullet and numbered lists (nested),
+ * block quotes, fenced code, GitHub-style tables, horizontal rules, and
+ * inline bold, italic, strikethrough, code and links. Every newline inside
+ * a paragraph is a line break, as chat users expect.
+ */
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "strong" | "emphasis" | "strike"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "break" };
+
+export type TableAlign = "left" | "center" | "right" | null;
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | { type: "code"; language?: string; code: string }
+  | { type: "list"; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: "blockquote"; children: MarkdownBlock[] }
+  | { type: "table"; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: "rule" };
+
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+/**
+ * The normalized URL if it is an absolute http(s) or mailto link, otherwise
+ * null (javascript:, data:, relative paths...).
+ */
+export const safeUrl = (url: string): string | null => {
+  try {
+    const parsed = new URL(url.trim());
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+};
+
+// --- Inline ---
+
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+const BARE_URL = /^https?:\/\/[^\s<]+/;
+const AUTOLINK = /^<((?:https?|mailto):[^\s<>]+)>/;
+
+const isWordChar = (ch: string | undefined) => !!ch && /[\p{L}\p{N}]/u.test(ch);
+const isSpace = (ch: string | undefined) => ch === undefined || /\s/.test(ch);
+
+// Quotes, lists, links and emphasis nested deeper than this are left as
+// text, so a hostile message can't overflow the stack here or in rendering
+const MAX_NESTING = 32;
+
+const runLength = (text: string, start: number, ch: string) => {
+  let end = start;
+  while (text[end] === ch) end++;
+  return end - start;
+};
+
+/**
+ * End of the code span opened by the backtick run at `start`, or -1.
+ */
+const findCodeSpanEnd = (text: string, start: number): number => {
+  const run = runLength(text, start, "`");
+  for (let j = start + run; j < text.length; j++) {
+    if (text[j] !== "`") continue;
+    const closing = runLength(text, j, "`");
+    if (closing === run) return j;
+    j += closing - 1;
+  }
+  return -1;
+};
+
+/**
+ * Position of the delimiter closing an emphasis opened just before `from`.
+ * Skips code spans and escapes; a closer follows non-space, and an `_`
+ * closer isn't followed by a letter (snake_case stays as is). Returns -1
+ * if there is none.
+ */
+const findCloser = (text: string, from: number, marker: string): number => {
+  for (let j = from; j < text.length; j++) {
+    const ch = text[j];
+    if (ch === "\\") {
+      j++;
+      continue;
+    }
+    if (ch === "`") {
+      const end = findCodeSpanEnd(text, j);
+      if (end >= 0) {
+        j = end + runLength(text, end, "`") - 1;
+        continue;
+      }
+    }
+    if (!text.startsWith(marker, j) || j === from || isSpace(text[j - 1])) continue;
+    // In a run like "***", close with its last delimiters: "***a***" is strong around emphasis
+    let end = j;
+    while (text[end + marker.length] === marker[0]) end++;
+    if (marker[0] === "_" && isWordChar(text[end + marker.length])) {
+      j = end + marker.length - 1;
+      continue;
+    }
+    return end;
+  }
+  return -1;
+};
+
+/**
+ * The "]" matching each "[" (escapes skipped, nesting counted), found in
+ * one pass so a run of unclosed brackets doesn't rescan the text per "[".
+ */
+const matchBrackets = (text: string): Map<number, number> => {
+  const matches = new Map<number, number>();
+  const open: number[] = [];
+  for (let j = 0; j < text.length; j++) {
+    if (text[j] === "\\") {
+      j++;
+    } else if (text[j] === "[") {
+      open.push(j);
+    } else if (text[j] === "]" && open.length > 0) {
+      matches.set(open.pop()!, j);
+    }
+  }
+  return matches;
+};
+
+/**
+ * Parse `[label](url "title")` given the "[" and its matching "]". Returns
+ * null if it isn't a complete link.
+ */
+const parseLink = (text: string, start: number, close: number | undefined): { label: string; url: string; end: number } | null => {
+  if (close === undefined || text[close + 1] !== "(") return null;
+
+  const destination = text.slice(close + 2).match(/^\s*(<[^<>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/);
+  if (!destination) return null;
+  const url = destination[1].startsWith("<") ? destination[1].slice(1, -1) : destination[1];
+  return { label: text.slice(start + 1, close), url, end: close + 2 + destination[0].length };
+};
+
+// Trailing punctuation is usually the sentence's, not the URL's
+const trimUrl = (url: string): string => {
+  let trimmed = url.replace(/[.,;:!?'"*_~]+$/, "");
+  while (trimmed.endsWith(")") && (trimmed.match(/\(/g)?.length || 0) < (trimmed.match(/\)/g)?.length || 0)) {
+    trimmed = trimmed.slice(0, -1).replace(/[.,;:!?'"*_~]+$/, "");
+  }
+  return trimmed;
+};
+
+// A link's label can't hold another link (e.g. [https://a.io](https://a.io))
+const withoutLinks = (nodes: MarkdownInline[]): MarkdownInline[] =>
+  nodes.flatMap((node): MarkdownInline[] => {
+    if (node.type === "link") return withoutLinks(node.children);
+    if (node.type === "strong" || node.type === "emphasis" || node.type === "strike") return [{ ...node, children: withoutLinks(node.children) }];
+    return [node];
+  });
+
+export const parseInline = (text: string, depth = 0): MarkdownInline[] => {
+  if (depth > MAX_NESTING) return text ? [{ type: "text", text }] : [];
+  const nodes: MarkdownInline[] = [];
+  let buffer = "";
+  const flush = () => {
+    if (buffer) nodes.push({ type: "text", text: buffer });
+    buffer = "";
+  };
+  const push = (node: MarkdownInline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let brackets: Map<number, number> | undefined;
+  // Where the search for each delimiter last came up empty. Nothing closes
+  // it from there on, so later openers skip the scan and parsing stays linear.
+  const unclosedFrom: Record<string, number> = {};
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === "\\" && ESCAPABLE.test(text[i + 1] || "")) {
+      buffer += text[i + 1];
+      i += 2;
+    } else if (ch === "\n") {
+      push({ type: "break" });
+      i++;
+    } else if (ch === "`") {
+      const run = runLength(text, i, "`");
+      const end = findCodeSpanEnd(text, i);
+      if (end < 0) {
+        buffer += "`".repeat(run);
+        i += run;
+        continue;
+      }
+      let code = text.slice(i + run, end).replace(/\n/g, " ");
+      if (code.length > 2 && code.startsWith(" ") && code.endsWith(" ")) code = code.slice(1, -1);
+      push({ type: "code", text: code });
+      i = end + run;
+    } else if (ch === "[" || (ch === "!" && text[i + 1] === "[")) {
+      // Images are shown as links: a chat message shouldn't load remote content by itself
+      brackets ??= matchBrackets(text);
+      const start = ch === "!" ? i + 1 : i;
+      const link = parseLink(text, start, brackets.get(start));
+      if (!link) {
+        buffer += ch;
+        i++;
+        continue;
+      }
+      const href = safeUrl(link.url);
+      const children = withoutLinks(parseInline(link.label || link.url, depth + 1));
+      if (href) {
+        push({ type: "link", href, children });
+      } else {
+        flush();
+        nodes.push(...children);
+      }
+      i = link.end;
+    } else if (ch === "<" && AUTOLINK.test(text.slice(i))) {
+      const [whole, url] = text.slice(i).match(AUTOLINK)!;
+      const href = safeUrl(url);
+      if (href) push({ type: "link", href, children: [{ type: "text", text: url }] });
+      else buffer += whole;
+      i += whole.length;
+    } else if (ch === "h" && !isWordChar(text[i - 1]) && BARE_URL.test(text.slice(i))) {
+      const url = trimUrl(text.slice(i).match(BARE_URL)![0]);
+      const href = safeUrl(url);
+      if (href) push({ type: "link", href, children: [{ type: "text", text: url }] });
+      else buffer += url;
+      i += url.length;
+    } else if (ch === "*" || ch === "_" || ch === "~") {
+      const run = runLength(text, i, ch);
+      const opens = !isSpace(text[i + run]) && !(ch === "_" && isWordChar(text[i - 1]));
+      const sizes = ch === "~" ? [2] : run >= 2 ? [2, 1] : [1];
+      let matched = false;
+      for (const size of opens ? sizes : []) {
+        if (size > run) continue;
+        const marker = ch.repeat(size);
+        if (i + size >= (unclosedFrom[marker] ?? Infinity)) continue;
+        const close = findCloser(text, i + size, marker);
+        if (close < 0) {
+          unclosedFrom[marker] = i + size;
+          continue;
+        }
+        const type = ch === "~" ? "strike" : size === 2 ? "strong" : "emphasis";
+        push({ type, children: parseInline(text.slice(i + size, close), depth + 1) });
+        i = close + size;
+        matched = true;
+        break;
+      }
+      if (!matched) {
+        buffer += ch.repeat(run);
+        i += run;
+      }
+    } else {
+      buffer += ch;
+      i++;
+    }
+  }
+  flush();
+  return nodes;
+};
+
+// --- Blocks ---
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)[^`]*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}>[ ]?/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])([ \t]+(.*))?$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const isBlank = (line: string) => !line.trim();
+
+const splitRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith("|")) row = row.slice(1);
+  if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, "|"));
+};
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes("|") &&
+  i + 1 < lines.length &&
+  TABLE_DELIMITER.test(lines[i + 1]) &&
+  lines[i + 1].includes("-") &&
+  splitRow(lines[i]).length === splitRow(lines[i + 1]).length;
+
+// A line that ends a paragraph without a blank line in between
+const startsBlock = (lines: string[], i: number) => {
+  const line = lines[i];
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || isTableStart(lines, i) || !!line.match(LIST_ITEM)?.[3];
+};
+
+const parseList = (lines: string[], start: number, depth: number): { block: MarkdownBlock; next: number } => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  const items: string[][] = [];
+  let contentIndent = 0;
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = line.match(LIST_ITEM);
+    if (item && item[1].length === indent && /\d/.test(item[2]) === ordered && item[2].slice(-1) === delimiter) {
+      items.push([item[4] || ""]);
+      contentIndent = item[0].length - (item[4] || "").length;
+      i++;
+    } else if (isBlank(line)) {
+      // A blank line continues the list only if it goes on afterwards
+      let next = i + 1;
+      while (next < lines.length && isBlank(lines[next])) next++;
+      const following = lines[next];
+      const continues = following !== undefined && (following.search(/\S/) > indent || following.match(LIST_ITEM)?.[1].length === indent);
+      if (!continues) break;
+      items[items.length - 1].push("");
+      i++;
+    } else if (line.search(/\S/) > indent) {
+      const strip = Math.min(contentIndent, line.search(/\S/));
+      items[items.length - 1].push(line.slice(strip));
+      i++;
+    } else if (!startsBlock(lines, i) && !isBlank(items[items.length - 1].slice(-1)[0])) {
+      // Lazy continuation of the item's last paragraph
+      items[items.length - 1].push(line.trim());
+      i++;
+    } else {
+      break;
+    }
+  }
+
+  return {
+    block: { type: "list", ordered, start: ordered ? parseInt(first[2], 10) : 1, items: items.map((item) => parseLines(item, depth + 1)) },
+    next: i,
+  };
+};
+
+const parseLines = (lines: string[], depth = 0): MarkdownBlock[] => {
+  if (depth > MAX_NESTING) return [{ type: "paragraph", children: parseInline(lines.map((line) => line.trim()).join("\n").trim()) }];
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const closing = new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}\\s*$`);
+      const body: string[] = [];
+      i++;
+      // An unclosed fence (e.g. mid-stream) runs to the end of the message
+      while (i < lines.length && !closing.test(lines[i])) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: "code", language: fence[2]?.toLowerCase() || undefined, code: body.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2] || "") });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE, ""));
+        i++;
+      }
+      blocks.push({ type: "blockquote", children: parseLines(quoted, depth + 1) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map((cell): TableAlign =>
+        cell.startsWith(":") && cell.endsWith(":") ? "center" : cell.endsWith(":") ? "right" : cell.startsWith(":") ? "left" : null
+      );
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes("|")) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, c) => parseInline(cells[c] || "")));
+        i++;
+      }
+      blocks.push({ type: "table", align, header: header.map((cell) => parseInline(cell)), rows });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { block, next } = parseList(lines, i, depth);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+  }
+  return blocks;
+};
+
+export const parseMarkdown = (text: string): MarkdownBlock[] =>
+  parseLines(text.replace(/\r\n?/g, "\n").replace(/\t/g, "    ").split("\n"));
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { AspectRatio, GenerationModel, ImageSize, MAX_REFERENCE_IMAGES } from "../types";
+import {
+  findModel,
+  findUnsupported,
+  fitConfigToModel,
+  getCapabilities,
+  IMAGE_MODELS,
+  MODEL_CAPABILITIES,
+  modelBadge,
+  referenceLimit,
+  relativeCost,
+  resolveImageSize,
+} from "./modelRegistry";
+
+describe("MODEL_CAPABILITIES", () => {
+  it("lists every model", () => {
+    expect(IMAGE_MODELS).toEqual(Object.values(GenerationModel));
+  });
+
+  it.each(IMAGE_MODELS)("%s has a consistent entry", (model) => {
+    const { aliases, aspectRatios, imageSizes, defaultImageSize } = MODEL_CAPABILITIES[model];
+    expect(aspectRatios.length).toBeGreaterThan(0);
+    if (defaultImageSize) expect(imageSizes).toContain(defaultImageSize);
+    for (const alias of aliases) expect(findModel(alias)).toBe(model);
+  });
+});
+
+describe("findModel", () => {
+  it("accepts ids and aliases in any case", () => {
+    expect(findModel(GenerationModel.Pro)).toBe(GenerationModel.Pro);
+    expect(findModel("  FLASH ")).toBe(GenerationModel.Flash);
+    expect(findModel("quality")).toBe(GenerationModel.Pro);
+    expect(findModel("dall-e")).toBeUndefined();
+  });
+});
+
+describe("getCapabilities / modelBadge", () => {
+  it("treats ids from newer builds as unknown", () => {
+    expect(getCapabilities("gemini-99-image")).toBeUndefined();
+    expect(getCapabilities("toString")).toBeUndefined();
+    expect(modelBadge("gemini-99-image")).toBe("gemini-99-image");
+    expect(modelBadge(GenerationModel.Flash)).toBe("⚡ Flash");
+  });
+});
+
+describe("relativeCost / referenceLimit", () => {
+  it("prices against the cheapest model", () => {
+    expect(Math.min(...IMAGE_MODELS.map(relativeCost))).toBe(1);
+    expect(relativeCost(GenerationModel.Pro)).toBeGreaterThan(1);
+  });
+
+  it("caps references at the app's limit", () => {
+    expect(referenceLimit(GenerationModel.Pro)).toBe(MAX_REFERENCE_IMAGES);
+    expect(referenceLimit(GenerationModel.Flash)).toBe(Math.min(MAX_REFERENCE_IMAGES, 3));
+  });
+});
+
+describe("resolveImageSize / fitConfigToModel", () => {
+  it("sends no size to single-size models", () => {
+    expect(resolveImageSize(GenerationModel.Flash, ImageSize.Ultra)).toBeUndefined();
+  });
+
+  it("falls back to the model's default size", () => {
+    expect(resolveImageSize(GenerationModel.Pro, ImageSize.Ultra)).toBe(ImageSize.Ultra);
+    expect(resolveImageSize(GenerationModel.Pro)).toBe(ImageSize.High);
+  });
+
+  it("fits a config to a newly picked model", () => {
+    const pro = { model: GenerationModel.Pro, aspectRatio: AspectRatio.Wide, imageSize: ImageSize.Ultra, negativePrompt: "blur" };
+    expect(fitConfigToModel({ ...pro, model: GenerationModel.Flash })).toEqual({ ...pro, model: GenerationModel.Flash, imageSize: undefined });
+    expect(fitConfigToModel({ ...pro, imageSize: undefined })).toEqual({ ...pro, imageSize: ImageSize.High });
+  });
+});
+
+describe("findUnsupported", () => {
+  it("accepts what the model supports", () => {
+    expect(findUnsupported(GenerationModel.Pro, { aspectRatio: AspectRatio.Tall, imageSize: ImageSize.Standard, references: 2, edit: true })).toBeUndefined();
+    expect(findUnsupported(GenerationModel.Flash, {})).toBeUndefined();
+  });
+
+  it("explains what the model can't do", () => {
+    expect(findUnsupported(GenerationModel.Flash, { imageSize: ImageSize.High })).toBe("Gemini Flash has a single output size.");
+    expect(findUnsupported(GenerationModel.Pro, { aspectRatio: "2:1" as AspectRatio })).toBe("Gemini Pro doesn't support the 2:1 aspect ratio.");
+    expect(findUnsupported(GenerationModel.Flash, { references: 5 })).toBe(
+      `Gemini Flash takes at most ${referenceLimit(GenerationModel.Flash)} reference images; this request has 5.`
+    );
+  });
+
+  it("passes whatever fitConfigToModel produces", () => {
+    for (const model of IMAGE_MODELS) {
+      for (const imageSize of [undefined, ...Object.values(ImageSize)]) {
+        const fitted = fitConfigToModel({ model, aspectRatio: AspectRatio.Portrait, imageSize });
+        expect(findUnsupported(model, fitted)).toBeUndefined();
+      }
+    }
+  });
+});
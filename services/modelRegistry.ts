@@ -0,0 +1,157 @@
+import { AspectRatio, GenerationConfig, GenerationModel, ImageSize, MAX_REFERENCE_IMAGES } from "../types";
+import type { ModelPrice } from "./usageMeter";
+
+/**
+ * What each image model can do. The workspace builds its pickers from this
+ * table, requests are checked against it (in the browser and in the proxy),
+ * and the usage meter takes its default prices from it. Adding a model
+ * means adding its id to GenerationModel and one entry here; the Record
+ * type makes the compiler ask for the entry.
+ */
+
+export interface ModelCapabilities {
+  label: string; // e.g. "Gemini Flash"
+  tagline: string; // What to pick it for, shown in the model picker
+  shortLabel: string; // Chips and badges
+  icon: string;
+  aliases: string[]; // Accepted as `model:` in prompt blocks and Muse tool calls
+  aspectRatios: AspectRatio[];
+  /**
+   * Sizes that can be requested, smallest first. Empty means the model has
+   * a single output size and no imageSize is sent.
+   */
+  imageSizes: ImageSize[];
+  defaultImageSize?: ImageSize;
+  canEdit: boolean; // Refinements and masked edits
+  maxReferences: number; // Reference images per request, 0 = none
+  price: ModelPrice; // List price, the usage meter's default
+  budgetChecked: boolean; // Ask (or refuse) before a call would go over budget
+}
+
+export const MODEL_CAPABILITIES: Record<GenerationModel, ModelCapabilities> = {
+  [GenerationModel.Flash]: {
+    label: "Gemini Flash",
+    tagline: "Fast",
+    shortLabel: "Flash",
+    icon: "⚡",
+    aliases: ["flash", "fast"],
+    aspectRatios: Object.values(AspectRatio),
+    imageSizes: [],
+    canEdit: true,
+    maxReferences: 3,
+    price: { inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0.039 },
+    budgetChecked: false,
+  },
+  [GenerationModel.Pro]: {
+    label: "Gemini Pro",
+    tagline: "Quality",
+    shortLabel: "Pro",
+    icon: "💎",
+    aliases: ["pro", "quality"],
+    aspectRatios: Object.values(AspectRatio),
+    imageSizes: [ImageSize.Standard, ImageSize.High, ImageSize.Ultra],
+    defaultImageSize: ImageSize.High,
+    canEdit: true,
+    maxReferences: 14,
+    price: { inputPerMillion: 2, outputPerMillion: 12, perImage: 0.134 },
+    budgetChecked: true,
+  },
+};
+
+export const IMAGE_MODELS = Object.keys(MODEL_CAPABILITIES) as GenerationModel[];
+
+export const ASPECT_RATIO_LABELS: Record<AspectRatio, string> = {
+  [AspectRatio.Square]: "Square",
+  [AspectRatio.Portrait]: "Portrait",
+  [AspectRatio.Landscape]: "Landscape",
+  [AspectRatio.Wide]: "Wide",
+  [AspectRatio.Tall]: "Tall",
+};
+
+export const isImageModel = (value: unknown): value is GenerationModel =>
+  typeof value === "string" && Object.hasOwn(MODEL_CAPABILITIES, value);
+
+/**
+ * Capabilities of a model id, or undefined for ids this build doesn't know
+ * (e.g. records saved by a newer version).
+ */
+export const getCapabilities = (model: string): ModelCapabilities | undefined =>
+  isImageModel(model) ? MODEL_CAPABILITIES[model] : undefined;
+
+/** "⚡ Flash" style badge text; unknown ids are shown as they are. */
+export const modelBadge = (model: string): string => {
+  const capabilities = getCapabilities(model);
+  return capabilities ? `${capabilities.icon} ${capabilities.shortLabel}` : model;
+};
+
+/** A model id or one of its aliases, in any case. */
+export const findModel = (name: string): GenerationModel | undefined => {
+  const key = name.trim().toLowerCase();
+  return IMAGE_MODELS.find((model) => model === key || MODEL_CAPABILITIES[model].aliases.includes(key));
+};
+
+/** Cost per image relative to the cheapest model, e.g. 3.4 for "3.4× Flash". */
+export const relativeCost = (model: GenerationModel): number => {
+  const cheapest = Math.min(...IMAGE_MODELS.map((id) => MODEL_CAPABILITIES[id].price.perImage));
+  return MODEL_CAPABILITIES[model].price.perImage / cheapest;
+};
+
+/** Reference images a request to `model` may carry, within the app's own cap. */
+export const referenceLimit = (model: GenerationModel): number =>
+  Math.min(MAX_REFERENCE_IMAGES, MODEL_CAPABILITIES[model].maxReferences);
+
+/**
+ * The size to send: the requested one if the model offers it, else the
+ * model's default. Undefined for models with a single size.
+ */
+export const resolveImageSize = (model: GenerationModel, requested?: ImageSize): ImageSize | undefined => {
+  const { imageSizes, defaultImageSize } = MODEL_CAPABILITIES[model];
+  if (imageSizes.length === 0) return undefined;
+  return requested && imageSizes.includes(requested) ? requested : defaultImageSize || imageSizes[0];
+};
+
+/**
+ * Bring a config in line with its model, e.g. after switching models:
+ * an unsupported aspect ratio or size falls back to the model's default.
+ */
+export const fitConfigToModel = (config: GenerationConfig): GenerationConfig => {
+  const { aspectRatios } = MODEL_CAPABILITIES[config.model];
+  return {
+    ...config,
+    aspectRatio: aspectRatios.includes(config.aspectRatio) ? config.aspectRatio : aspectRatios[0],
+    imageSize: resolveImageSize(config.model, config.imageSize),
+  };
+};
+
+export interface ModelRequest {
+  aspectRatio?: AspectRatio;
+  imageSize?: ImageSize;
+  references?: number;
+  edit?: boolean;
+}
+
+/**
+ * Why `model` can't take this request, in words for the user, or undefined
+ * if it can. Callers that can adjust a setting instead of refusing should
+ * use fitConfigToModel first.
+ */
+export const findUnsupported = (model: GenerationModel, request: ModelRequest): string | undefined => {
+  const capabilities = MODEL_CAPABILITIES[model];
+  const { label: name } = capabilities;
+  if (request.edit && !capabilities.canEdit) return `${name} can't edit images.`;
+  if (request.aspectRatio && !capabilities.aspectRatios.includes(request.aspectRatio)) {
+    return `${name} doesn't support the ${request.aspectRatio} aspect ratio.`;
+  }
+  if (request.imageSize && !capabilities.imageSizes.includes(request.imageSize)) {
+    return capabilities.imageSizes.length === 0
+      ? `${name} has a single output size.`
+      : `${name} supports ${capabilities.imageSizes.join(", ")} images, not ${request.imageSize}.`;
+  }
+  const limit = referenceLimit(model);
+  if (request.references && request.references > limit) {
+    return limit === 0
+      ? `${name} doesn't take reference images.`
+      : `${name} takes at most ${limit} reference image${limit === 1 ? "" : "s"}; this request has ${request.references}.`;
+  }
+  return undefined;
+};
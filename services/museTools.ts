@@ -0,0 +1,171 @@
+import { AspectRatio, GeneratedImage, GenerationConfig, MuseToolCall, MuseToolName } from "../types";
+import { averageScore } from "./critiqueLoop";
+import { jobQueue } from "./jobQueue";
+import { createImageId } from "./ids";
+import { findModel, findUnsupported, fitConfigToModel } from "./modelRegistry";
+import type { ImageProvider, ToolCallRequest } from "./providers/types";
+
+/**
+ * Running the Muse's tool calls (declared in geminiService) once the user
+ * has approved them. Every call goes through the job queue like the
+ * workspace buttons do, so retries and cancellation work the same way.
+ */
+
+export const MAX_TOOL_IMAGES = 4;
+
+const TOOL_NAMES: MuseToolName[] = ["generate_image", "refine_image", "analyze_image"];
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+/**
+ * Validate a raw function call into a pending MuseToolCall, or null if the
+ * model named a tool we don't have or left out a required argument.
+ */
+export const toMuseToolCall = ({ name, args }: ToolCallRequest, id: string): MuseToolCall | null => {
+  if (!TOOL_NAMES.includes(name as MuseToolName)) return null;
+  const aspectRatio = asString(args.aspect_ratio);
+  const call: MuseToolCall = {
+    id,
+    name: name as MuseToolName,
+    status: "pending",
+    args: {
+      prompt: asString(args.prompt),
+      count: Math.min(MAX_TOOL_IMAGES, Math.max(1, Math.round(Number(args.count) || 1))),
+      aspectRatio: (Object.values(AspectRatio) as string[]).includes(aspectRatio || "") ? (aspectRatio as AspectRatio) : undefined,
+      model: findModel(asString(args.model) || ""),
+      negativePrompt: asString(args.negative_prompt),
+      instruction: asString(args.instruction),
+      imageId: asString(args.image_id),
+    },
+  };
+  if (call.name === "generate_image" && !call.args.prompt) return null;
+  if (call.name === "refine_image" && !call.args.instruction) return null;
+  return call;
+};
+
+/**
+ * Number of paid model calls approving this tool call will make.
+ */
+export const toolCallCost = (call: MuseToolCall): number =>
+  call.name === "generate_image" ? call.args.count || 1 : 1;
+
+/**
+ * How a finished (or declined) call reads in the chat history the Muse sees.
+ */
+export const describeToolCall = (call: MuseToolCall): string => {
+  if (call.status === "declined") return `(${call.name} was declined by the user.)`;
+  if (call.status === "failed") return `(${call.name} failed: ${call.error || "unknown error"})`;
+  if (call.status === "done") return `(${call.name}: ${call.resultSummary})`;
+  return `(${call.name} was not run.)`;
+};
+
+export interface ToolContext {
+  provider: ImageProvider;
+  images: GeneratedImage[]; // Newest first
+  threadId: string;
+  config: GenerationConfig;
+}
+
+export interface ToolResult {
+  created: GeneratedImage[];
+  updated?: GeneratedImage;
+  summary: string;
+}
+
+const findTarget = (imageId: string | undefined, { images, threadId }: ToolContext): GeneratedImage => {
+  const target = imageId
+    ? images.find((img) => img.id === imageId)
+    : images.find((img) => img.threadId === threadId) || images[0];
+  if (!target) throw new Error(imageId ? `No image with id ${imageId}.` : "There is no image to work on yet.");
+  return target;
+};
+
+export const runToolCall = async (call: MuseToolCall, context: ToolContext): Promise<ToolResult> => {
+  const { provider, threadId, config } = context;
+  const { args } = call;
+
+  switch (call.name) {
+    case "generate_image": {
+      const prompt = args.prompt!;
+      const { model, aspectRatio, imageSize } = fitConfigToModel({
+        ...config,
+        model: args.model || config.model,
+        aspectRatio: args.aspectRatio || config.aspectRatio,
+      });
+      const problem = findUnsupported(model, { aspectRatio, imageSize });
+      if (problem) throw new Error(problem);
+      const negativePrompt = args.negativePrompt ?? config.negativePrompt;
+      const count = args.count || 1;
+      const results = await Promise.allSettled(
+        Array.from({ length: count }, (_, i) =>
+          jobQueue.enqueue({
+            kind: "generate",
+            label: count > 1 ? `Muse ${i + 1}/${count}: ${prompt}` : `Muse: ${prompt}`,
+            run: (signal) => provider.generateImage(prompt, model, aspectRatio, negativePrompt, { signal, imageSize }),
+          })
+        )
+      );
+      const created = results
+        .filter((r): r is PromiseFulfilledResult<string> => r.status === "fulfilled")
+        .map((r) => ({
+          id: createImageId(),
+          url: r.value,
+          prompt,
+          negativePrompt: negativePrompt || undefined,
+          timestamp: new Date(),
+          aspectRatio,
+          model,
+          threadId,
+          operation: "generate" as const,
+        }));
+      if (created.length === 0) {
+        throw (results[0] as PromiseRejectedResult).reason;
+      }
+      const failed = count - created.length;
+      return {
+        created,
+        summary: `Generated ${created.length} image${created.length === 1 ? "" : "s"} (ids: ${created.map((img) => img.id).join(", ")})` +
+          (failed > 0 ? `; ${failed} failed` : ""),
+      };
+    }
+
+    case "refine_image": {
+      const source = findTarget(args.imageId, context);
+      const instruction = args.instruction!;
+      const { model } = config;
+      const url = await jobQueue.enqueue({
+        kind: "refine",
+        label: `Muse: ${instruction}`,
+        run: (signal) => provider.refineImage(source.url, instruction, model, { signal }),
+      });
+      const refined: GeneratedImage = {
+        id: createImageId(),
+        url,
+        prompt: `Refined: ${instruction}`,
+        timestamp: new Date(),
+        aspectRatio: source.aspectRatio,
+        model,
+        threadId,
+        operation: "refine",
+        parentId: source.id,
+      };
+      return { created: [refined], summary: `Refined image ${source.id} into ${refined.id}` };
+    }
+
+    case "analyze_image": {
+      const target = findTarget(args.imageId, context);
+      const critique = await jobQueue.enqueue({
+        kind: "analyze",
+        label: `Muse critique: ${target.prompt}`,
+        run: (signal) => provider.analyzeImage(target.url, target.operation === "generate" ? target.prompt : undefined, { signal }),
+      });
+      const topIssues = critique.issues.slice(0, 3).map((issue) => issue.description).join(" ");
+      return {
+        created: [],
+        updated: { ...target, critique },
+        summary: `Image ${target.id} scored ${averageScore(critique).toFixed(1)}/10. ${critique.summary} ${topIssues}`.trim(),
+      };
+    }
+  }
+};
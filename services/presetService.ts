@@ -0,0 +1,104 @@
+import { AspectRatio, GenerationModel, StylePreset } from "../types";
+
+/**
+ * Style preset templates: `{{variable}}` placeholders, JSON import/export
+ * and the built-in presets seeded on first run.
+ */
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][\w-]*)\s*\}\}/g;
+
+export const PRESET_FILE_VERSION = 1;
+
+export interface PresetFile {
+  version: number;
+  presets: Omit<StylePreset, "id" | "updatedAt">[];
+}
+
+export const DEFAULT_PRESETS: StylePreset[] = [
+  {
+    id: "preset-portra",
+    name: "Portra Film",
+    template: "{{subject}}, shot on 35mm film, Kodak Portra 400, soft grain, natural light",
+    negativePrompt: "digital, oversharpened, plastic skin",
+    updatedAt: new Date(0),
+  },
+  {
+    id: "preset-studio-portrait",
+    name: "Studio Portrait",
+    template: "Portrait of {{subject}}, studio photography, {{lighting}} lighting, 85mm lens, shallow depth of field",
+    negativePrompt: "blurry, distorted hands, extra fingers",
+    aspectRatio: AspectRatio.Portrait,
+    updatedAt: new Date(0),
+  },
+  {
+    id: "preset-watercolor",
+    name: "Soft Watercolor",
+    template: "{{subject}}, soft watercolor illustration, pastel palette, paper texture, gentle bleeding edges",
+    negativePrompt: "photorealistic, harsh lines",
+    updatedAt: new Date(0),
+  },
+  {
+    id: "preset-neon",
+    name: "Neon Cinematic",
+    template: "{{subject}} in a rain-soaked {{setting}}, neon glow, volumetric fog, cinematic wide shot",
+    model: GenerationModel.Pro,
+    aspectRatio: AspectRatio.Wide,
+    updatedAt: new Date(0),
+  },
+];
+
+/**
+ * Variable names in order of first appearance, without duplicates.
+ */
+export const extractVariables = (template: string): string[] => {
+  const names = Array.from(template.matchAll(VARIABLE_PATTERN), (match) => match[1]);
+  return Array.from(new Set(names));
+};
+
+/**
+ * Substitute variables. Blank values leave the placeholder in place so a
+ * half-filled prompt is obvious rather than silently broken.
+ */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name]?.trim() || placeholder);
+
+export const serializePresets = (presets: StylePreset[]): string => {
+  const file: PresetFile = {
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ id, updatedAt, ...rest }) => rest),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isEnumValue = <T extends string>(values: Record<string, T>, value: unknown): value is T =>
+  typeof value === "string" && (Object.values(values) as string[]).includes(value);
+
+/**
+ * Parse an exported preset file (or a bare array of presets). Imported presets
+ * get fresh ids so they never overwrite existing ones. Throws on invalid input.
+ */
+export const parsePresetFile = (json: string): StylePreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const entries = Array.isArray(data) ? data : (data as PresetFile | null)?.presets;
+  if (!Array.isArray(entries)) throw new Error("No presets found in the file.");
+
+  return entries.map((entry, i) => {
+    if (typeof entry?.name !== "string" || !entry.name.trim() || typeof entry.template !== "string" || !entry.template.trim()) {
+      throw new Error(`Preset #${i + 1} needs a name and a template.`);
+    }
+    return {
+      id: `preset-${Date.now()}-${i}`,
+      name: entry.name.trim(),
+      template: entry.template,
+      negativePrompt: typeof entry.negativePrompt === "string" ? entry.negativePrompt : undefined,
+      model: isEnumValue(GenerationModel, entry.model) ? entry.model : undefined,
+      aspectRatio: isEnumValue(AspectRatio, entry.aspectRatio) ? entry.aspectRatio : undefined,
+      updatedAt: new Date(),
+    };
+  });
+};
@@ -0,0 +1,212 @@
+import { describe, expect, it } from "vitest";
+import { AspectRatio, GeneratedImage, GenerationModel, ImageSize, Sender } from "../types";
+import { createZip, readZip } from "./zipArchive";
+import { createProjectBundle, mergeProjects, Project, PROJECT_BUNDLE_VERSION, readProjectBundle } from "./projectBundle";
+
+const PNG_URL = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+const PNG_BYTES = Uint8Array.from(Buffer.from(PNG_URL.split(",")[1], "base64"));
+
+const image = (id: string, overrides: Partial<GeneratedImage> = {}): GeneratedImage => ({
+  id,
+  url: PNG_URL,
+  prompt: `prompt ${id}`,
+  timestamp: new Date("2026-05-01T10:00:00Z"),
+  aspectRatio: AspectRatio.Square,
+  model: GenerationModel.Flash,
+  operation: "generate",
+  ...overrides,
+});
+
+const emptyProject = (): Project => ({ images: [], threads: [], presets: [], characters: [] });
+
+const project: Project = {
+  images: [
+    image("img-2", {
+      operation: "refine",
+      parentId: "img-1",
+      timestamp: new Date("2026-05-01T11:00:00Z"),
+      references: [{ id: "ref-1", url: PNG_URL, role: "style", origin: "history", imageId: "img-1" }],
+    }),
+    image("img-1", { threadId: "default" }),
+  ],
+  threads: [
+    {
+      id: "default",
+      name: "Main",
+      messages: [
+        { id: "m1", sender: Sender.User, text: "A fox", timestamp: new Date("2026-05-01T09:59:00Z"), attachment: PNG_URL },
+        { id: "m2", sender: Sender.Gemini, text: "", timestamp: new Date("2026-05-01T10:01:00Z"), isThinking: true },
+      ],
+      createdAt: new Date("2026-05-01T09:00:00Z"),
+      updatedAt: new Date("2026-05-01T10:01:00Z"),
+    },
+  ],
+  activeThreadId: "default",
+  presets: [{ id: "p1", name: "Film", template: "{{subject}}, 35mm film", updatedAt: new Date("2026-04-01T00:00:00Z") }],
+  characters: [{ id: "c1", name: "Fox", description: "A red fox", references: [PNG_URL], updatedAt: new Date("2026-04-02T00:00:00Z") }],
+  config: { aspectRatio: AspectRatio.Wide, model: GenerationModel.Pro, imageSize: ImageSize.High, negativePrompt: "blur" },
+};
+
+const zipFile = (files: Record<string, string | Uint8Array>) =>
+  createZip(Object.entries(files).map(([name, data]) => ({ name, data })));
+
+const projectFile = (data: Record<string, unknown>) =>
+  zipFile({ "project.json": JSON.stringify({ format: "glowmint-project", version: PROJECT_BUNDLE_VERSION, ...data }) });
+
+describe("createProjectBundle / readProjectBundle", () => {
+  it("round-trips a project", async () => {
+    const { blob, fileName } = createProjectBundle(project);
+    expect(fileName).toMatch(/^glowmint-project-\d{4}-\d{2}-\d{2}\.glowmint$/);
+
+    const restored = await readProjectBundle(blob);
+    expect(restored.images).toEqual(project.images);
+    expect(restored.presets).toEqual(project.presets);
+    expect(restored.characters).toEqual(project.characters);
+    expect(restored.config).toEqual({ ...project.config, variationCount: undefined });
+    expect(restored.activeThreadId).toBe("default");
+    // The reply that was still streaming is left out
+    expect(restored.threads).toEqual([{ ...project.threads[0], messages: [project.threads[0].messages[0]] }]);
+  });
+
+  it("stores an image used in several places once", async () => {
+    const { blob } = createProjectBundle(project);
+    const files = await readZip(new Uint8Array(await blob.arrayBuffer()), { maxEntries: 100, maxTotalSize: 1024 * 1024 });
+    expect([...files.keys()]).toEqual(["project.json", "files/0001.png"]);
+  });
+
+  it("opens a version 1 bulk export as a project of images", async () => {
+    const manifest = {
+      app: "GlowMint Muse",
+      version: 1,
+      exportedAt: "2026-03-01T00:00:00.000Z",
+      images: [
+        {
+          file: "images/001.png",
+          id: "old-2",
+          prompt: "refined",
+          model: GenerationModel.Pro,
+          aspectRatio: AspectRatio.Portrait,
+          operation: "refine",
+          createdAt: "2026-03-01T00:00:02.000Z",
+          lineage: { parentId: "old-1", rootId: "old-1", depth: 1 },
+          analysis: { summary: "Nice", tags: ["fox"], scores: { composition: 8 }, issues: [] },
+          references: [{ role: "style" }],
+        },
+        { file: "images/002.png", id: "old-1", prompt: "original", createdAt: "2026-03-01T00:00:01.000Z" },
+      ],
+    };
+    const restored = await readProjectBundle(
+      zipFile({ "manifest.json": JSON.stringify(manifest), "images/001.png": PNG_BYTES, "images/002.png": PNG_BYTES })
+    );
+
+    expect(restored.threads).toEqual([]);
+    expect(restored.presets).toEqual([]);
+    expect(restored.characters).toEqual([]);
+    expect(restored.images.map((img) => img.id)).toEqual(["old-2", "old-1"]);
+    const [refined, original] = restored.images;
+    expect(refined).toMatchObject({
+      url: PNG_URL,
+      model: GenerationModel.Pro,
+      aspectRatio: AspectRatio.Portrait,
+      operation: "refine",
+      parentId: "old-1",
+      timestamp: new Date("2026-03-01T00:00:02.000Z"),
+      references: undefined,
+    });
+    expect(refined.critique).toMatchObject({ summary: "Nice", tags: ["fox"], issues: [] });
+    expect(original).toMatchObject({ model: GenerationModel.Flash, aspectRatio: AspectRatio.Square, operation: "generate" });
+  });
+
+  it("refuses projects from a newer version", async () => {
+    await expect(readProjectBundle(projectFile({ version: PROJECT_BUNDLE_VERSION + 1 }))).rejects.toThrow("newer version");
+  });
+
+  it("refuses files that aren't projects", async () => {
+    await expect(readProjectBundle(new Blob(["hello"]))).rejects.toThrow("isn't a readable project file");
+    await expect(readProjectBundle(zipFile({ "notes.txt": "hi" }))).rejects.toThrow("has no project.json");
+    await expect(readProjectBundle(zipFile({ "project.json": "{" }))).rejects.toThrow("not valid JSON");
+    await expect(readProjectBundle(zipFile({ "project.json": '{"version":2}' }))).rejects.toThrow("isn't a GlowMint Muse project");
+    await expect(readProjectBundle(projectFile({ version: "2" }))).rejects.toThrow("version is missing or invalid");
+  });
+
+  it("refuses a project whose files are missing", async () => {
+    const data = { images: [{ id: "img-1", file: "files/0001.png" }] };
+    await expect(readProjectBundle(projectFile(data))).rejects.toThrow("the file for image img-1 (files/0001.png) is missing");
+  });
+
+  it("falls back to defaults for unusual fields", async () => {
+    const restored = await readProjectBundle(zipFile({
+      "project.json": JSON.stringify({
+        format: "glowmint-project",
+        version: 2,
+        images: [{ id: "img-1", file: "files/a.png", aspectRatio: "2:1", operation: "explode", timestamp: "never" }],
+        threads: [{ id: "t1", messages: [{ sender: "robot", toolCalls: [{ id: "c1", name: "generate_image", status: "running", args: { prompt: "a fox" } }] }] }],
+        presets: [{ name: " ", template: "x" }],
+        config: { model: "gemini-99", aspectRatio: AspectRatio.Tall, imageSize: "8K" },
+      }),
+      "files/a.png": PNG_BYTES,
+    }));
+
+    expect(restored.images[0]).toMatchObject({ aspectRatio: AspectRatio.Square, operation: "generate" });
+    expect(restored.threads[0].name).toBe("Imported 1");
+    expect(restored.threads[0].messages[0].sender).toBe(Sender.Gemini);
+    expect(restored.threads[0].messages[0].toolCalls?.[0]).toMatchObject({ status: "failed" });
+    expect(restored.presets).toEqual([]);
+    expect(restored.config).toMatchObject({ model: GenerationModel.Flash, aspectRatio: AspectRatio.Tall, imageSize: undefined });
+  });
+
+  it("keeps only tool calls the app can show and run", async () => {
+    const call = { id: "c1", name: "refine_image", status: "done", args: { instruction: "brighter", aspectRatio: AspectRatio.Wide }, resultImageIds: ["img-9", 3] };
+    const restored = await readProjectBundle(projectFile({
+      threads: [{
+        id: "t1",
+        messages: [{
+          toolCalls: [
+            call,
+            { id: "c2", name: "delete_everything", status: "pending", args: {} },
+            { id: "c3", name: "generate_image", status: "pending" },
+            { id: "c4", name: "generate_image", status: "pending", args: ["a fox"] },
+            { id: "c5", name: "generate_image", status: "exploded", args: { prompt: "a fox" } },
+            { id: "c6", name: "refine_image", status: "pending", args: {} },
+            "junk",
+          ],
+        }],
+      }],
+    }));
+
+    expect(restored.threads[0].messages[0].toolCalls).toEqual([{
+      id: "c1",
+      name: "refine_image",
+      status: "done",
+      args: expect.objectContaining({ instruction: "brighter", aspectRatio: AspectRatio.Wide }),
+      resultImageIds: ["img-9"],
+      resultSummary: undefined,
+      error: undefined,
+    }]);
+  });
+});
+
+describe("mergeProjects", () => {
+  it("skips items the workspace already has", () => {
+    const current = { ...emptyProject(), images: [image("img-1")], presets: project.presets, characters: project.characters };
+    const { added, skipped } = mergeProjects(current, project);
+    expect(added.images.map((img) => img.id)).toEqual(["img-2"]);
+    expect(added.presets).toEqual([]);
+    expect(added.characters).toEqual([]);
+    expect(skipped).toBe(3);
+  });
+
+  it("skips characters whose @name is taken", () => {
+    const current = { ...emptyProject(), characters: [{ ...project.characters[0], id: "other", name: "FOX" }] };
+    expect(mergeProjects(current, project).added.characters).toEqual([]);
+  });
+
+  it("gives a thread with a taken id a fresh one and moves its images along", () => {
+    const current = { ...emptyProject(), threads: [{ ...project.threads[0], messages: [] }] };
+    const { added } = mergeProjects(current, project);
+    const [thread] = added.threads;
+    expect(thread.id).not.toBe("default");
+    expect(thread.name).toBe("Main (imported)");
+    expect(added.images.find((img) => img.id === "img-1")?.threadId).toBe(thread.id);
+  });
+});
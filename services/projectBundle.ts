@@ -0,0 +1,455 @@
+import {
+  AspectRatio,
+  Character,
+  ChatMessage,
+  ChatThread,
+  GeneratedImage,
+  GenerationConfig,
+  GenerationModel,
+  ImageSize,
+  MuseToolCall,
+  REFERENCE_ROLES,
+  ReferenceImage,
+  ReferenceRole,
+  Sender,
+  StylePreset,
+} from "../types";
+import { bytesToDataUrl, dataUrlToBytes, parseDataUrl } from "./imageUtils";
+import { sniffImageType } from "./imageMetadata";
+import { createZip, readZip, ZipEntry } from "./zipArchive";
+import { FORMAT_EXTENSIONS } from "./exportService";
+import { normalizeCritique } from "./critique";
+import { isValidCharacterName } from "./characterService";
+import { toMuseToolCall } from "./museTools";
+
+/**
+ * Portable project bundles (`.glowmint` files): images, chat threads,
+ * presets, characters and the generation settings in one file, to hand a
+ * working session to someone else.
+ *
+ * A bundle is a ZIP (see zipArchive) with project.json plus every image it
+ * refers to under files/, each stored once. Version 1 is the ZIP made by
+ * bulk export (manifest.json, images only); it opens as a project too.
+ */
+
+export const PROJECT_FILE_EXTENSION = ".glowmint";
+export const PROJECT_BUNDLE_VERSION = 2;
+export const MAX_BUNDLE_BYTES = 512 * 1024 * 1024;
+
+const MAX_BUNDLE_FILES = 20000;
+const PROJECT_FILE = "project.json";
+const SESSION_MANIFEST_FILE = "manifest.json"; // Version 1, written by exportSession
+
+/**
+ * Everything a bundle carries. Images are newest first, like App's state.
+ */
+export interface Project {
+  images: GeneratedImage[];
+  threads: ChatThread[];
+  activeThreadId?: string;
+  presets: StylePreset[];
+  characters: Character[];
+  config?: GenerationConfig;
+}
+
+export type ProjectImportMode = "merge" | "replace";
+
+// --- project.json shapes: images become file paths, dates ISO strings ---
+
+interface BundledReference extends Omit<ReferenceImage, "url"> {
+  file: string;
+}
+
+interface BundledImage extends Omit<GeneratedImage, "url" | "timestamp" | "references"> {
+  file: string;
+  timestamp: string;
+  references?: BundledReference[];
+}
+
+interface BundledMessage extends Omit<ChatMessage, "attachment" | "timestamp" | "isThinking"> {
+  timestamp: string;
+  attachment?: string;
+}
+
+interface BundledThread extends Omit<ChatThread, "messages" | "createdAt" | "updatedAt"> {
+  messages: BundledMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface BundledPreset extends Omit<StylePreset, "updatedAt"> {
+  updatedAt: string;
+}
+
+interface BundledCharacter extends Omit<Character, "references" | "updatedAt"> {
+  references: string[];
+  updatedAt: string;
+}
+
+interface ProjectFile {
+  app: "GlowMint Muse";
+  format: "glowmint-project";
+  version: number;
+  exportedAt: string;
+  config?: GenerationConfig;
+  activeThreadId?: string;
+  images: BundledImage[];
+  threads: BundledThread[];
+  presets: BundledPreset[];
+  characters: BundledCharacter[];
+}
+
+// --- Export ---
+
+export const createProjectBundle = (project: Project): { blob: Blob; fileName: string } => {
+  const files: ZipEntry[] = [];
+  const paths = new Map<string, string>();
+  // References, attachments and character images often repeat a history image
+  const fileFor = (dataUrl: string): string => {
+    const existing = paths.get(dataUrl);
+    if (existing) return existing;
+    const bytes = dataUrlToBytes(dataUrl);
+    const mimeType = sniffImageType(bytes) || parseDataUrl(dataUrl).mimeType;
+    const path = `files/${String(paths.size + 1).padStart(4, "0")}.${FORMAT_EXTENSIONS[mimeType] || "bin"}`;
+    paths.set(dataUrl, path);
+    files.push({ name: path, data: bytes });
+    return path;
+  };
+
+  const manifest: ProjectFile = {
+    app: "GlowMint Muse",
+    format: "glowmint-project",
+    version: PROJECT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    config: project.config,
+    activeThreadId: project.activeThreadId,
+    images: project.images.map(({ url, timestamp, references, ...rest }) => ({
+      ...rest,
+      file: fileFor(url),
+      timestamp: timestamp.toISOString(),
+      references: references?.map(({ url: refUrl, ...ref }) => ({ ...ref, file: fileFor(refUrl) })),
+    })),
+    threads: project.threads.map(({ messages, createdAt, updatedAt, ...rest }) => ({
+      ...rest,
+      // A reply still streaming isn't part of the conversation yet
+      messages: messages
+        .filter((m) => !m.isThinking)
+        .map(({ attachment, timestamp, isThinking, ...message }) => ({
+          ...message,
+          timestamp: timestamp.toISOString(),
+          attachment: attachment ? fileFor(attachment) : undefined,
+        })),
+      createdAt: createdAt.toISOString(),
+      updatedAt: updatedAt.toISOString(),
+    })),
+    presets: project.presets.map(({ updatedAt, ...rest }) => ({ ...rest, updatedAt: updatedAt.toISOString() })),
+    characters: project.characters.map(({ references, updatedAt, ...rest }) => ({
+      ...rest,
+      references: references.map(fileFor),
+      updatedAt: updatedAt.toISOString(),
+    })),
+  };
+
+  const day = new Date().toISOString().slice(0, 10);
+  return {
+    blob: createZip([{ name: PROJECT_FILE, data: JSON.stringify(manifest) }, ...files]),
+    fileName: `glowmint-project-${day}${PROJECT_FILE_EXTENSION}`,
+  };
+};
+
+// --- Import ---
+
+// Parsed but not yet validated project.json
+type RawProject = Record<string, unknown>;
+
+// Objects as they are, anything else (arrays, null, numbers...) as an empty one
+const asRecord = (value: unknown): RawProject =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as RawProject) : {};
+
+/**
+ * Upgrade steps keyed by the version they migrate TO, applied in order to
+ * the parsed JSON before validation. Never edit an existing step: add a new
+ * one and bump PROJECT_BUNDLE_VERSION.
+ */
+const MIGRATIONS: Record<number, (data: RawProject) => RawProject> = {
+  // v2: projects. A bulk-export manifest becomes a project with images only;
+  // its references were listed by role without pixels, so they are dropped.
+  2: (manifest) => ({
+    format: "glowmint-project",
+    version: 2,
+    exportedAt: manifest.exportedAt,
+    images: (Array.isArray(manifest.images) ? manifest.images : []).map((entry: unknown) => {
+      const { file, createdAt, lineage, analysis, references, ...rest } = asRecord(entry);
+      return { ...rest, file, timestamp: createdAt, parentId: asRecord(lineage).parentId ?? rest.parentId, critique: analysis };
+    }),
+    threads: [],
+    presets: [],
+    characters: [],
+  }),
+};
+
+const decoder = new TextDecoder();
+
+const MIME_BY_EXTENSION = new Map(Object.entries(FORMAT_EXTENSIONS).map(([mimeType, ext]) => [ext, mimeType]));
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+const isEnumValue = <T extends string>(values: Record<string, T>, value: unknown): value is T =>
+  typeof value === "string" && (Object.values(values) as string[]).includes(value);
+
+const isReferenceRole = (value: unknown): value is ReferenceRole => REFERENCE_ROLES.includes(value as ReferenceRole);
+
+const TOOL_CALL_STATUSES: MuseToolCall["status"][] = ["pending", "running", "done", "declined", "failed"];
+
+const optionalString = (value: unknown): string | undefined => (typeof value === "string" && value ? value : undefined);
+
+const toDate = (value: unknown, fallback: Date): Date => {
+  const date = typeof value === "string" || typeof value === "number" ? new Date(value) : fallback;
+  return Number.isNaN(date.getTime()) ? fallback : date;
+};
+
+const listOf = (value: unknown, what: string): RawProject[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error(`The project's ${what} list is malformed.`);
+  return value.map(asRecord);
+};
+
+/**
+ * A saved tool call, validated like a fresh one from the model, or null if
+ * it names an unknown tool, lacks its arguments or has an unknown status.
+ * A call that was running when the project was saved never finishes.
+ */
+const toToolCall = (raw: RawProject): MuseToolCall | null => {
+  const id = optionalString(raw.id);
+  const status = TOOL_CALL_STATUSES.find((s) => s === raw.status);
+  if (!id || !status || typeof raw.name !== "string" || !raw.args || typeof raw.args !== "object" || Array.isArray(raw.args)) return null;
+  const args = asRecord(raw.args);
+  // Saved args are camelCase; toMuseToolCall reads the model's snake_case names
+  const call = toMuseToolCall({
+    name: raw.name,
+    args: {
+      prompt: args.prompt,
+      count: args.count,
+      aspect_ratio: args.aspectRatio,
+      model: args.model,
+      negative_prompt: args.negativePrompt,
+      instruction: args.instruction,
+      image_id: args.imageId,
+    },
+  }, id);
+  if (!call) return null;
+  if (status === "running") return { ...call, status: "failed", error: "Interrupted before it finished." };
+  return {
+    ...call,
+    status,
+    resultImageIds: Array.isArray(raw.resultImageIds) ? raw.resultImageIds.filter((r): r is string => typeof r === "string") : undefined,
+    resultSummary: optionalString(raw.resultSummary),
+    error: optionalString(raw.error),
+  };
+};
+
+/**
+ * Check migrated project JSON and load its files. Fields that are merely
+ * unusual fall back to defaults; anything that would lose data (a missing
+ * image file, an image without an id) rejects the whole bundle.
+ */
+const toProject = (data: RawProject, files: Map<string, Uint8Array>): Project => {
+  const exportedAt = toDate(data.exportedAt, new Date());
+  const dataUrls = new Map<string, string>();
+  const load = (path: unknown, what: string): string => {
+    const bytes = typeof path === "string" ? files.get(path) : undefined;
+    if (typeof path !== "string" || !bytes) {
+      throw new Error(`The project is incomplete: the file for ${what}${typeof path === "string" ? ` (${path})` : ""} is missing.`);
+    }
+    if (!dataUrls.has(path)) {
+      const mimeType = sniffImageType(bytes) || MIME_BY_EXTENSION.get(path.split(".").pop() || "") || "application/octet-stream";
+      dataUrls.set(path, bytesToDataUrl(bytes, mimeType));
+    }
+    return dataUrls.get(path)!;
+  };
+  const requireId = (entry: RawProject, what: string, index: number): string => {
+    const id = optionalString(entry.id);
+    if (!id) throw new Error(`${what} #${index + 1} in the project has no id.`);
+    return id;
+  };
+
+  const images = listOf(data.images, "image").map((entry, i): GeneratedImage => {
+    const id = requireId(entry, "Image", i);
+    return {
+      id,
+      url: load(entry.file, `image ${id}`),
+      prompt: typeof entry.prompt === "string" ? entry.prompt : "",
+      negativePrompt: optionalString(entry.negativePrompt),
+      timestamp: toDate(entry.timestamp, exportedAt),
+      aspectRatio: isEnumValue(AspectRatio, entry.aspectRatio) ? entry.aspectRatio : AspectRatio.Square,
+      model: optionalString(entry.model) || GenerationModel.Flash,
+      source: entry.source === "generated" || entry.source === "imported" ? entry.source : undefined,
+      threadId: optionalString(entry.threadId),
+      operation: entry.operation === "refine" || entry.operation === "import" ? entry.operation : "generate",
+      parentId: optionalString(entry.parentId),
+      critique: entry.critique && typeof entry.critique === "object" ? normalizeCritique(entry.critique) : undefined,
+      references: entry.references === undefined ? undefined : listOf(entry.references, "reference")
+        .flatMap((ref, j): ReferenceImage[] => isReferenceRole(ref.role) ? [{
+          id: optionalString(ref.id) || `ref-${id}-${j}`,
+          url: load(ref.file, `a reference of image ${id}`),
+          role: ref.role,
+          origin: ref.origin === "history" || ref.origin === "chat" ? ref.origin : "upload",
+          imageId: optionalString(ref.imageId),
+        }] : []),
+      characterIds: Array.isArray(entry.characterIds) ? entry.characterIds.filter((c: unknown): c is string => typeof c === "string") : undefined,
+    };
+  });
+
+  const threads = listOf(data.threads, "thread").map((entry, i): ChatThread => {
+    const id = requireId(entry, "Thread", i);
+    const name = optionalString(entry.name) || `Imported ${i + 1}`;
+    return {
+      id,
+      name,
+      messages: listOf(entry.messages, "message").map((message, j): ChatMessage => ({
+        id: optionalString(message.id) || `${id}-${j}`,
+        sender: message.sender === Sender.User ? Sender.User : Sender.Gemini,
+        text: typeof message.text === "string" ? message.text : "",
+        timestamp: toDate(message.timestamp, exportedAt),
+        attachment: message.attachment === undefined ? undefined : load(message.attachment, `a message in "${name}"`),
+        toolCalls: message.toolCalls === undefined
+          ? undefined
+          : listOf(message.toolCalls, "tool call").map(toToolCall).filter((call): call is MuseToolCall => !!call),
+      })),
+      createdAt: toDate(entry.createdAt, exportedAt),
+      updatedAt: toDate(entry.updatedAt, exportedAt),
+    };
+  });
+
+  const presets = listOf(data.presets, "preset").flatMap((entry, i): StylePreset[] => {
+    const name = optionalString(entry.name)?.trim();
+    const template = optionalString(entry.template);
+    if (!name || !template?.trim()) return [];
+    return [{
+      id: optionalString(entry.id) || `preset-${Date.now()}-${i}`,
+      name,
+      template,
+      negativePrompt: optionalString(entry.negativePrompt),
+      model: isEnumValue(GenerationModel, entry.model) ? entry.model : undefined,
+      aspectRatio: isEnumValue(AspectRatio, entry.aspectRatio) ? entry.aspectRatio : undefined,
+      updatedAt: toDate(entry.updatedAt, exportedAt),
+    }];
+  });
+
+  const characters = listOf(data.characters, "character").map((entry, i): Character => {
+    const id = requireId(entry, "Character", i);
+    const { name } = entry;
+    if (typeof name !== "string" || !isValidCharacterName(name)) throw new Error(`Character #${i + 1} in the project has an invalid name.`);
+    return {
+      id,
+      name,
+      description: typeof entry.description === "string" ? entry.description : "",
+      references: (Array.isArray(entry.references) ? entry.references : []).map((path: unknown) => load(path, `@${name}`)),
+      updatedAt: toDate(entry.updatedAt, exportedAt),
+    };
+  });
+
+  const config = data.config && typeof data.config === "object" ? asRecord(data.config) : undefined;
+  return {
+    images: images.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()),
+    threads,
+    activeThreadId: optionalString(data.activeThreadId),
+    presets,
+    characters,
+    config: config && {
+      aspectRatio: isEnumValue(AspectRatio, config.aspectRatio) ? config.aspectRatio : AspectRatio.Square,
+      model: isEnumValue(GenerationModel, config.model) ? config.model : GenerationModel.Flash,
+      imageSize: isEnumValue(ImageSize, config.imageSize) ? config.imageSize : undefined,
+      negativePrompt: typeof config.negativePrompt === "string" ? config.negativePrompt : "",
+      variationCount: typeof config.variationCount === "number" ? config.variationCount : undefined,
+    },
+  };
+};
+
+/**
+ * Open a `.glowmint` file (or a bulk-export ZIP). Throws with a message fit
+ * for the user when the file is too large, damaged, from a newer version or
+ * not a project at all.
+ */
+export const readProjectBundle = async (file: Blob): Promise<Project> => {
+  if (file.size > MAX_BUNDLE_BYTES) {
+    throw new Error(`The file is ${formatMegabytes(file.size)}; projects can be at most ${formatMegabytes(MAX_BUNDLE_BYTES)}.`);
+  }
+  let files: Map<string, Uint8Array>;
+  try {
+    files = await readZip(new Uint8Array(await file.arrayBuffer()), { maxEntries: MAX_BUNDLE_FILES, maxTotalSize: MAX_BUNDLE_BYTES });
+  } catch (e) {
+    throw new Error(`This isn't a readable project file. ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  const projectJson = files.get(PROJECT_FILE);
+  const manifestJson = files.get(SESSION_MANIFEST_FILE);
+  if (!projectJson && !manifestJson) throw new Error(`No project found: the file has no ${PROJECT_FILE}.`);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(decoder.decode(projectJson || manifestJson));
+  } catch {
+    throw new Error(`The project is corrupted: ${projectJson ? PROJECT_FILE : SESSION_MANIFEST_FILE} is not valid JSON.`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("The project is corrupted: its contents are malformed.");
+  let data = asRecord(parsed);
+  if (projectJson && data.format !== "glowmint-project") throw new Error("This isn't a GlowMint Muse project.");
+
+  // Bulk-export manifests version their records, not the archive: they are all version 1
+  const version = projectJson ? data.version : 1;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new Error("The project's format version is missing or invalid.");
+  }
+  if (version > PROJECT_BUNDLE_VERSION) {
+    throw new Error(`This project was saved by a newer version of GlowMint Muse (format ${version}, this app reads up to ${PROJECT_BUNDLE_VERSION}). Update the app to open it.`);
+  }
+  for (let next = version + 1; next <= PROJECT_BUNDLE_VERSION; next++) {
+    data = MIGRATIONS[next](data);
+  }
+  return toProject(data, files);
+};
+
+// --- Merge ---
+
+export interface ProjectMergeResult {
+  added: { images: GeneratedImage[]; threads: ChatThread[]; presets: StylePreset[]; characters: Character[] };
+  skipped: number; // Items the workspace already had
+}
+
+/**
+ * What an imported project adds to the current one. Images, presets and
+ * characters whose id is already present are the same item and are skipped,
+ * as are characters whose @name is taken. Threads always come in, under a
+ * fresh id if theirs is taken (every workspace has a "default" thread), and
+ * their images follow. The current settings and active thread are kept.
+ */
+export const mergeProjects = (current: Project, incoming: Project): ProjectMergeResult => {
+  const stamp = Date.now();
+  const threadIds = new Set(current.threads.map((t) => t.id));
+  const renamedThreads = new Map<string, string>();
+  const threads = incoming.threads.map((thread, i) => {
+    if (!threadIds.has(thread.id)) return thread;
+    const id = `${thread.id}-imported-${stamp}-${i}`;
+    renamedThreads.set(thread.id, id);
+    const nameTaken = current.threads.some((t) => t.name === thread.name);
+    return { ...thread, id, name: nameTaken ? `${thread.name} (imported)` : thread.name };
+  });
+
+  const imageIds = new Set(current.images.map((img) => img.id));
+  const images = incoming.images
+    .filter((img) => !imageIds.has(img.id))
+    .map((img) => (img.threadId && renamedThreads.has(img.threadId) ? { ...img, threadId: renamedThreads.get(img.threadId) } : img));
+
+  const presetIds = new Set(current.presets.map((p) => p.id));
+  const presets = incoming.presets.filter((p) => !presetIds.has(p.id));
+
+  const characterIds = new Set(current.characters.map((c) => c.id));
+  const characterNames = new Set(current.characters.map((c) => c.name.toLowerCase()));
+  const characters = incoming.characters.filter((c) => !characterIds.has(c.id) && !characterNames.has(c.name.toLowerCase()));
+
+  const skipped =
+    incoming.images.length - images.length + incoming.presets.length - presets.length + incoming.characters.length - characters.length;
+
+  return { added: { images, threads, presets, characters }, skipped };
+};
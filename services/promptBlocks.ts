@@ -0,0 +1,55 @@
+import { AspectRatio, GenerationModel } from "../types";
+import { findModel } from "./modelRegistry";
+
+/**
+ * Parser for the Muse's ```prompt blocks.
+ *
+ * A block is the prompt text, optionally followed by a `---` line and
+ * `key: value` settings:
+ *
+ *   ```prompt
+ *   A lighthouse on a cliff at dusk, oil painting
+ *   ---
+ *   negative: people, text
+ *   aspect: 16:9
+ *   model: pro
+ *   preset: Portra Film
+ *   ```
+ *
+ * Plain blocks without settings (the original format) still parse.
+ * Unknown keys and invalid values are ignored rather than rejected.
+ */
+
+export interface PromptBlock {
+  prompt: string;
+  negativePrompt?: string;
+  aspectRatio?: AspectRatio;
+  model?: GenerationModel;
+  preset?: string; // Preset name; its settings fill whatever the block leaves out
+}
+
+const ASPECT_VALUES = Object.values(AspectRatio) as string[];
+
+export const parsePromptBlock = (content: string): PromptBlock => {
+  const [promptPart, ...settingsParts] = content.split(/^\s*---\s*$/m);
+  const block: PromptBlock = { prompt: promptPart.trim() };
+
+  for (const line of settingsParts.join("\n").split("\n")) {
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    if (!value) continue;
+
+    if (key === "negative" || key === "negative prompt") {
+      block.negativePrompt = value;
+    } else if ((key === "aspect" || key === "aspect ratio") && ASPECT_VALUES.includes(value)) {
+      block.aspectRatio = value as AspectRatio;
+    } else if (key === "model") {
+      block.model = findModel(value) || block.model;
+    } else if (key === "preset") {
+      block.preset = value;
+    }
+  }
+  return block;
+};
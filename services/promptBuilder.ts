@@ -0,0 +1,57 @@
+/**
+ * Structured prompt builder: compiles labelled fields into a prompt string
+ * and parses an existing prompt back into fields (best effort).
+ *
+ * The compiled form is the fields joined with ", " in PROMPT_FIELD_KEYS order,
+ * which is also what the parser understands best, so edits round-trip.
+ */
+
+export const PROMPT_FIELD_KEYS = ["subject", "setting", "style", "lighting", "camera", "palette", "mood"] as const;
+
+export type PromptFieldKey = typeof PROMPT_FIELD_KEYS[number];
+
+export type PromptFields = Record<PromptFieldKey, string>;
+
+export const EMPTY_PROMPT_FIELDS: PromptFields = {
+  subject: "",
+  setting: "",
+  style: "",
+  lighting: "",
+  camera: "",
+  palette: "",
+  mood: "",
+};
+
+// Checked in order; the first field whose pattern matches a segment wins.
+// Camera comes before style so "35mm film" reads as a lens, not a medium.
+const FIELD_PATTERNS: [Exclude<PromptFieldKey, "subject">, RegExp][] = [
+  ["camera", /\b(\d+\s?mm|lens|shot|angle|close-?up|bokeh|depth of field|aperture|f\/\d|macro|aerial|drone|telephoto|wide-angle|fisheye|tilt-shift)\b/i],
+  ["lighting", /\b(light|lighting|lit|glow|glowing|shadows?|sunset|sunrise|golden hour|blue hour|backlit|rim|chiaroscuro|neon|candlelight|moonlight)\b/i],
+  ["palette", /\b(palette|colou?rs?|tones?|hues?|monochrome|monochromatic|pastel|black and white|sepia|duotone)\b/i],
+  ["mood", /\b(mood|moody|atmosphere|atmospheric|feeling|serene|melancholic|melancholy|dreamy|eerie|joyful|dramatic|whimsical|nostalgic|calm|ominous|cozy|peaceful)\b/i],
+  ["style", /\b(style|art|artwork|painting|illustration|photo|photography|photograph|render|rendered|watercolou?r|oil|digital|film|anime|3d|cinematic|sketch|vector|realistic|photorealistic|surreal|impressionist|isometric|pixel|kodak|portra)\b/i],
+  ["setting", /^(in|at|on|inside|under|over|amid|among|beneath|near|across|through)\b|\b(city|forest|room|beach|street|landscape|background|desert|ocean|mountains?|kitchen|cafe|studio|skyline|jungle|space|village)\b/i],
+];
+
+export const compilePrompt = (fields: PromptFields): string =>
+  PROMPT_FIELD_KEYS.map((key) => fields[key].trim())
+    .filter(Boolean)
+    .join(", ");
+
+/**
+ * Split on commas and sort each segment into a field by keyword. The first
+ * segment is always the subject; segments nothing matches are kept with it.
+ */
+export const parsePrompt = (prompt: string): PromptFields => {
+  const segments = prompt.split(",").map((segment) => segment.trim()).filter(Boolean);
+  const buckets: Record<PromptFieldKey, string[]> = {
+    subject: [], setting: [], style: [], lighting: [], camera: [], palette: [], mood: [],
+  };
+
+  segments.forEach((segment, i) => {
+    const match = i === 0 ? undefined : FIELD_PATTERNS.find(([, pattern]) => pattern.test(segment));
+    buckets[match ? match[0] : "subject"].push(segment);
+  });
+
+  return Object.fromEntries(PROMPT_FIELD_KEYS.map((key) => [key, buckets[key].join(", ")])) as PromptFields;
+};
@@ -0,0 +1,18 @@
+import { AIProvider } from "./types";
+import { sendChatMessage, rephrasePrompt, generateImage, refineImage, analyzeImage, isProxyMode } from "../geminiService";
+
+/**
+ * Live provider backed by geminiService (direct SDK or backend proxy).
+ */
+export const geminiProvider: AIProvider = {
+  name: "gemini",
+  // The proxy holds the key server-side, so the browser never needs one
+  get requiresApiKey() {
+    return !isProxyMode();
+  },
+  sendChatMessage,
+  rephrasePrompt,
+  generateImage,
+  refineImage,
+  analyzeImage,
+};
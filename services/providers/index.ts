@@ -0,0 +1,38 @@
+import { createContext, useContext } from "react";
+import { AIProvider } from "./types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { withUsageMetering } from "./meteredProvider";
+import { usageMeter } from "../usageMeter";
+
+export type { AIProvider, ChatProvider, ImageProvider, ChatHistoryEntry, ChatStreamOptions, GenerateOptions, RequestOptions, UsageReport } from "./types";
+export { geminiProvider, mockProvider };
+export { withUsageMetering, BudgetExceededError } from "./meteredProvider";
+
+const PROVIDERS: Record<string, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Resolve the provider named by the `AI_PROVIDER` build setting.
+ * Unknown names fall back to Gemini.
+ */
+export const getConfiguredProvider = (): AIProvider => {
+  const name = process.env.AI_PROVIDER || "gemini";
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    console.warn(`Unknown AI_PROVIDER "${name}", falling back to gemini.`);
+    return geminiProvider;
+  }
+  return provider;
+};
+
+/**
+ * Components read their provider from context so tests (or a future
+ * settings toggle) can swap it with <AIProviderContext.Provider value={...}>.
+ * The default is metered, so usage and budgets cover every call.
+ */
+export const AIProviderContext = createContext<AIProvider>(withUsageMetering(getConfiguredProvider(), usageMeter));
+
+export const useAIProvider = (): AIProvider => useContext(AIProviderContext);
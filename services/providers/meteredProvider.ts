@@ -0,0 +1,79 @@
+import { AIProvider, RequestOptions, UsageReport } from "./types";
+import { GenerationModel } from "../../types";
+import { dayKey, estimateCost, IMAGE_INPUT_TOKENS, UsageMeter } from "../usageMeter";
+import { AIError } from "../errors";
+import { MODEL_CAPABILITIES } from "../modelRegistry";
+
+/**
+ * Thrown instead of starting a premium generation that would go over budget
+ * (or that the user declined to run over budget).
+ */
+export class BudgetExceededError extends AIError {
+  constructor(message: string) {
+    super("budget", message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/**
+ * Wrap a provider so the meter records every call it makes, and image calls
+ * to budget-checked models (see modelRegistry) are checked before they start.
+ *
+ * In "warn" mode `confirmOverrun` asks once per budget and day; parallel
+ * variations then go ahead without asking again.
+ */
+export const withUsageMetering = (
+  provider: AIProvider,
+  meter: UsageMeter,
+  confirmOverrun: (message: string) => boolean = (message) => window.confirm(message)
+): AIProvider => {
+  const approved = new Set<string>();
+
+  const track = <T extends RequestOptions>(options: T | undefined): T => ({
+    ...options,
+    onUsage: (usage: UsageReport) => {
+      meter.record(usage);
+      options?.onUsage?.(usage);
+    },
+  } as T);
+
+  const guardBudget = (model: GenerationModel = GenerationModel.Flash, text: string, inputImages: number) => {
+    const capabilities = MODEL_CAPABILITIES[model];
+    if (!capabilities.budgetChecked) return;
+    const { prices, budget } = meter.getState();
+    const estimate = estimateCost(
+      { inputTokens: Math.ceil(text.length / 4) + inputImages * IMAGE_INPUT_TOKENS, outputTokens: 0, images: 1 },
+      prices[model]
+    );
+    const overrun = meter.checkBudget(estimate);
+    if (!overrun) return;
+
+    const message =
+      `This ${capabilities.shortLabel} image (~$${estimate.toFixed(3)}) would bring you to $${overrun.projected.toFixed(2)}, ` +
+      `over your ${overrun.period} budget of $${overrun.limit.toFixed(2)}.`;
+    if (budget.mode === "block") throw new BudgetExceededError(message);
+    const key = `${overrun.period}:${overrun.limit}:${dayKey(new Date())}`;
+    if (approved.has(key)) return;
+    if (!confirmOverrun(`${message}\n\nGenerate anyway?`)) throw new BudgetExceededError(message);
+    approved.add(key);
+  };
+
+  return {
+    name: provider.name,
+    get requiresApiKey() {
+      return provider.requiresApiKey;
+    },
+    sendChatMessage: (message, history, attachmentBase64, options) =>
+      provider.sendChatMessage(message, history, attachmentBase64, track(options)),
+    rephrasePrompt: (prompt, reason, options) => provider.rephrasePrompt(prompt, reason, track(options)),
+    generateImage: async (prompt, model, aspectRatio, negativePrompt, options) => {
+      guardBudget(model, `${prompt} ${negativePrompt || ""}`, options?.references?.length || 0);
+      return provider.generateImage(prompt, model, aspectRatio, negativePrompt, track(options));
+    },
+    refineImage: async (base64Image, instruction, model, options) => {
+      guardBudget(model, instruction, (options?.mask ? 2 : 1) + (options?.references?.length || 0));
+      return provider.refineImage(base64Image, instruction, model, track(options));
+    },
+    analyzeImage: (base64Image, prompt, options) => provider.analyzeImage(base64Image, prompt, track(options)),
+  };
+};
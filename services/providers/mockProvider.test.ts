@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AspectRatio, GenerationModel, ImageSize } from "../../types";
+import { AIError } from "../errors";
+import { mockProvider } from "./mockProvider";
+
+const svgOf = (dataUrl: string) => Buffer.from(dataUrl.split(",")[1], "base64").toString("utf8");
+
+/** Run a mock call to completion on fake timers. */
+const settle = async <T>(promise: Promise<T>): Promise<T> => {
+  const result = promise.then(
+    (value) => ({ value }),
+    (error: unknown) => ({ error })
+  );
+  await vi.runAllTimersAsync();
+  const outcome = await result;
+  if ("error" in outcome) throw outcome.error;
+  return outcome.value;
+};
+
+describe("mockProvider", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("renders the same placeholder for the same request", async () => {
+    const generate = () => settle(mockProvider.generateImage("a neon fox", GenerationModel.Pro, AspectRatio.Wide, undefined, { imageSize: ImageSize.Ultra }));
+    const first = await generate();
+    expect(await generate()).toBe(first);
+
+    const svg = svgOf(first);
+    expect(first).toMatch(/^data:image\/svg\+xml;base64,/);
+    expect(svg).toContain('width="1024" height="576"');
+    expect(svg).toContain("MOCK · 16:9 · 4K");
+  });
+
+  it("leaves the size off for models with a single size", async () => {
+    const url = await settle(mockProvider.generateImage("a fox", GenerationModel.Flash, AspectRatio.Square, undefined, { imageSize: ImageSize.Ultra }));
+    expect(svgOf(url)).toContain("MOCK · 1:1<");
+  });
+
+  it("escapes the prompt in the placeholder", async () => {
+    const url = await settle(mockProvider.generateImage('<script>"x"</script>', GenerationModel.Flash, AspectRatio.Square));
+    expect(svgOf(url)).toContain("&lt;script&gt;&quot;x&quot;&lt;/script&gt;");
+  });
+
+  it("reports usage for each image", async () => {
+    const onUsage = vi.fn();
+    const references = [{ id: "r1", url: "data:image/png;base64,AA==", role: "style" as const, origin: "upload" as const }];
+    await settle(mockProvider.generateImage("a fox", GenerationModel.Pro, AspectRatio.Square, undefined, { onUsage, references }));
+    expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ model: GenerationModel.Pro, images: 1 }));
+  });
+
+  it("blocks prompts with flagged terms the way the API does", async () => {
+    const error = await settle(mockProvider.generateImage("a bloody battlefield", GenerationModel.Flash, AspectRatio.Square)).catch((e) => e);
+    expect(error).toBeInstanceOf(AIError);
+    expect(error).toMatchObject({ kind: "safety", details: { finishReason: "IMAGE_SAFETY", categories: ["HARM_CATEGORY_DANGEROUS_CONTENT"] } });
+
+    const refine = settle(mockProvider.refineImage("data:image/png;base64,AA==", "make her nude")).catch((e) => e);
+    expect(await refine).toMatchObject({ kind: "safety" });
+  });
+
+  describe("refineImage", () => {
+    // A stand-in for the browser's decoder: "loads" any src at the given size
+    const stubImage = (naturalWidth: number, naturalHeight: number) =>
+      vi.stubGlobal("Image", class {
+        naturalWidth = naturalWidth;
+        naturalHeight = naturalHeight;
+        onload?: () => void;
+        set src(_: string) {
+          setTimeout(() => this.onload?.());
+        }
+      });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it.each([
+      [1920, 1080, 'width="1024" height="576"'],
+      [600, 800, 'width="768" height="1024"'],
+    ])("keeps a %i×%i source's proportions", async (width, height, size) => {
+      stubImage(width, height);
+      const svg = svgOf(await settle(mockProvider.refineImage("data:image/png;base64,AA==", "brighter")));
+      expect(svg).toContain(size);
+      expect(svg).toContain('preserveAspectRatio="none"');
+    });
+
+    it("tints masked edits over the whole frame", async () => {
+      stubImage(1920, 1080);
+      const svg = svgOf(await settle(mockProvider.refineImage("data:image/png;base64,AA==", "add a moon", GenerationModel.Flash, { mask: "data:image/png;base64,AA==" })));
+      expect(svg).toContain('width="1024" height="576"');
+      expect(svg).toContain('fill="#14b8a6"');
+    });
+
+    it("falls back to a square when the source can't be decoded", async () => {
+      const svg = svgOf(await settle(mockProvider.refineImage("data:image/png;base64,AA==", "brighter")));
+      expect(svg).toContain('width="1024" height="1024"');
+    });
+  });
+
+  it("rejects with an AbortError when cancelled", async () => {
+    const controller = new AbortController();
+    const pending = mockProvider.generateImage("a fox", GenerationModel.Flash, AspectRatio.Square, undefined, { signal: controller.signal });
+    controller.abort();
+    await expect(settle(pending)).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("waits before answering like a network call", async () => {
+    const done = vi.fn();
+    mockProvider.analyzeImage("data:image/png;base64,AA==").then(done);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(done).not.toHaveBeenCalled();
+    await vi.runAllTimersAsync();
+    expect(done).toHaveBeenCalled();
+  });
+
+  it("streams a chat reply with a prompt block", async () => {
+    const chunks: string[] = [];
+    const reply = await settle(mockProvider.sendChatMessage("a lighthouse at dusk", [], undefined, { onChunk: (text) => chunks.push(text) }));
+    expect(reply).toContain("```prompt\na lighthouse at dusk, ");
+    expect(chunks.length).toBeGreaterThan(5);
+    expect(chunks.at(-1)).toBe(reply);
+  });
+
+  it("answers image requests with a tool call", async () => {
+    const onToolCalls = vi.fn();
+    await settle(mockProvider.sendChatMessage("Make me three images of a red panda", [], undefined, { onToolCalls }));
+    expect(onToolCalls).toHaveBeenCalledWith([
+      { name: "generate_image", args: { prompt: expect.stringMatching(/^a red panda, /), count: 3 } },
+    ]);
+  });
+
+  it("rephrases flagged prompts without the flagged words", async () => {
+    const text = await settle(mockProvider.rephrasePrompt("a knight, bloody, gore, castle", "safety"));
+    expect(text).toBe("a knight, castle, tasteful, family-friendly");
+  });
+
+  it("gives a stable critique for the same image", async () => {
+    const critique = await settle(mockProvider.analyzeImage("data:image/png;base64,AAAA", "a fox"));
+    expect(await settle(mockProvider.analyzeImage("data:image/png;base64,AAAA", "a fox"))).toEqual(critique);
+    for (const score of Object.values(critique.scores)) {
+      expect(score).toBeGreaterThanOrEqual(5);
+      expect(score).toBeLessThanOrEqual(10);
+    }
+  });
+});
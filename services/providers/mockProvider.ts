@@ -0,0 +1,249 @@
+import { AIProvider, ChatHistoryEntry, UsageReport } from "./types";
+import { AspectRatio, CRITIQUE_CATEGORIES, CritiqueCategory, CritiqueIssue, GenerationModel, ImageSize } from "../../types";
+import { loadImageElement, textToBase64 } from "../imageUtils";
+import { IMAGE_INPUT_TOKENS } from "../usageMeter";
+import { AIError } from "../errors";
+import { findFlaggedTerms, SensitiveTopic } from "../safetyReview";
+import { resolveImageSize } from "../modelRegistry";
+
+/**
+ * Deterministic offline provider.
+ *
+ * Same input → same output, so designers can work without a key and
+ * component tests can assert on exact results. Images are SVG placeholders
+ * at the requested aspect ratio; chat replies always contain a ```prompt block.
+ * Image prompts with sexual, violent or hateful terms come back safety-blocked
+ * so the blocked-result flow can be exercised offline.
+ */
+
+const MOCK_LATENCY_MS = 600;
+const MOCK_CHUNK_MS = 40;
+
+const ASPECT_DIMENSIONS: Record<AspectRatio, [number, number]> = {
+  [AspectRatio.Square]: [1024, 1024],
+  [AspectRatio.Portrait]: [768, 1024],
+  [AspectRatio.Landscape]: [1024, 768],
+  [AspectRatio.Wide]: [1024, 576],
+  [AspectRatio.Tall]: [576, 1024],
+};
+
+const PALETTES = [
+  ["#14b8a6", "#064e3b"],
+  ["#10b981", "#1e1b4b"],
+  ["#2dd4bf", "#312e81"],
+  ["#34d399", "#7c2d12"],
+  ["#5eead4", "#0f172a"],
+];
+
+const STYLE_SUFFIXES = [
+  "cinematic lighting, highly detailed, 35mm film",
+  "soft watercolor, pastel palette, gentle grain",
+  "digital art, neon glow, volumetric fog",
+  "studio photography, shallow depth of field, 85mm lens",
+  "isometric illustration, clean vector shapes, vibrant colors",
+];
+
+const ISSUES: CritiqueIssue[] = [
+  { category: "composition", severity: "medium", description: "The focal point sits dead center and feels static.", fix: "Shift the main subject slightly left along the rule of thirds" },
+  { category: "lighting", severity: "low", description: "Shadows are flat; the subject blends into the background.", fix: "Add a warm rim light to separate the subject from the background" },
+  { category: "anatomy", severity: "high", description: "Hands look malformed.", fix: "Redraw the hands with five natural, relaxed fingers" },
+  { category: "promptAdherence", severity: "medium", description: "A key element from the prompt is missing.", fix: "Add the missing element described in the prompt" },
+];
+
+const TAGS = ["vibrant", "moody", "minimal", "surreal", "cinematic", "painterly", "geometric", "dreamy", "bold", "serene"];
+
+const NUMBER_WORDS = ["one", "two", "three", "four"];
+const TOOL_REQUEST_PATTERN = /\b(?:make|generate|create|render)\b(?:\s+me)?\s+(?:(\d|one|two|three|four|an?)\s+)?(?:images?|pictures?|versions?)\s+of\s+(.+)/i;
+
+// Topics the mock refuses to draw, and the harm category it reports for each
+const BLOCKED_TOPICS: Partial<Record<SensitiveTopic, string>> = {
+  sexual: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+  violence: "HARM_CATEGORY_DANGEROUS_CONTENT",
+  hate: "HARM_CATEGORY_HATE_SPEECH",
+};
+
+const assertImageAllowed = (text: string) => {
+  const categories = [...new Set(findFlaggedTerms(text).map((term) => BLOCKED_TOPICS[term.topic]).filter((c): c is string => !!c))];
+  if (categories.length === 0) return;
+  throw new AIError("safety", "The generated image was flagged by safety filters.", undefined, { finishReason: "IMAGE_SAFETY", categories });
+};
+
+// About 4 characters per token, close enough for made-up usage
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const mockChatUsage = (message: string, history: ChatHistoryEntry[], attachment: string | undefined, reply: string): UsageReport => ({
+  model: "gemini-2.5-flash",
+  inputTokens:
+    estimateTokens(message) +
+    history.reduce((sum, entry) => sum + entry.parts.reduce((n, part) => n + (part.text ? estimateTokens(part.text) : IMAGE_INPUT_TOKENS), 0), 0) +
+    (attachment ? IMAGE_INPUT_TOKENS : 0),
+  outputTokens: estimateTokens(reply),
+  images: 0,
+});
+
+// FNV-1a: tiny, stable string hash for picking canned variations
+const hash = (input: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const pick = <T>(items: T[], seed: number, offset = 0): T => items[(seed + offset) % items.length];
+
+// Rejects with an AbortError like fetch does when the signal fires
+const delay = (ms = MOCK_LATENCY_MS, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("Aborted", "AbortError"));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    }, { once: true });
+  });
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+// Longest side of the placeholders refineImage draws
+const REFINE_SIZE = 1024;
+
+/**
+ * The source's proportions scaled to REFINE_SIZE, so a refined image keeps
+ * the aspect ratio recorded for it. Square if the image can't be decoded.
+ */
+const refineDimensions = async (base64Image: string): Promise<[number, number]> => {
+  try {
+    const { naturalWidth, naturalHeight } = await loadImageElement(base64Image);
+    const scale = REFINE_SIZE / Math.max(naturalWidth, naturalHeight);
+    return [Math.max(1, Math.round(naturalWidth * scale)), Math.max(1, Math.round(naturalHeight * scale))];
+  } catch {
+    return [REFINE_SIZE, REFINE_SIZE];
+  }
+};
+
+const svgDataUrl = (svg: string) => `data:image/svg+xml;base64,${textToBase64(svg)}`;
+
+const renderPlaceholder = (label: string, aspectRatio: AspectRatio, imageSize?: ImageSize): string => {
+  const [width, height] = ASPECT_DIMENSIONS[aspectRatio] || ASPECT_DIMENSIONS[AspectRatio.Square];
+  const seed = hash(label);
+  const [from, to] = pick(PALETTES, seed);
+  const cx = 20 + (seed % 60);
+  const cy = 20 + ((seed >> 8) % 60);
+  return svgDataUrl(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+      `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/></linearGradient></defs>` +
+      `<rect width="100%" height="100%" fill="url(#g)"/>` +
+      `<circle cx="${cx}%" cy="${cy}%" r="${Math.min(width, height) / 4}" fill="#ffffff" fill-opacity="0.12"/>` +
+      `<text x="50%" y="50%" text-anchor="middle" font-family="Inter, sans-serif" font-size="${Math.round(width / 28)}" fill="#f8fafc">${escapeXml(truncate(label, 60))}</text>` +
+      `<text x="50%" y="${height - 32}" text-anchor="middle" font-family="monospace" font-size="18" fill="#f8fafc" fill-opacity="0.6">MOCK · ${aspectRatio}${imageSize ? ` · ${imageSize}` : ""}</text>` +
+      `</svg>`
+  );
+};
+
+export const mockProvider: AIProvider = {
+  name: "mock",
+  requiresApiKey: false,
+
+  async sendChatMessage(message, history, attachmentBase64, { signal, onChunk, onToolCalls, onUsage } = {}) {
+    await delay();
+    // Explicit "make me N images of ..." requests exercise the tool-call path
+    const toolRequest = message.match(TOOL_REQUEST_PATTERN);
+    if (toolRequest && onToolCalls) {
+      const count = Number(toolRequest[1]) || NUMBER_WORDS.indexOf((toolRequest[1] || "").toLowerCase()) + 1 || 1;
+      const prompt = `${toolRequest[2].trim()}, ${pick(STYLE_SUFFIXES, hash(message))}`;
+      const text = "On it! Approve below and I'll start rendering.";
+      onChunk?.(text);
+      onToolCalls([{ name: "generate_image", args: { prompt, count } }]);
+      onUsage?.(mockChatUsage(message, history, attachmentBase64, text));
+      return text;
+    }
+    const topic = message.trim() || (attachmentBase64 ? "the uploaded image" : "a new idea");
+    const seed = hash(`${history.length}:${topic}`);
+    const reply = [
+      `What a lovely direction! Here's a way to bring **${truncate(topic, 80)}** to life:`,
+      "",
+      "```prompt",
+      `${topic}, ${pick(STYLE_SUFFIXES, seed)}`,
+      "---",
+      "negative: blurry, low detail, text",
+      `aspect: ${pick(Object.values(AspectRatio), seed)}`,
+      "```",
+      "",
+      `Want me to try a *${pick(TAGS, seed, 3)}* variation next?`,
+    ].join("\n");
+
+    // Stream word by word (keeping whitespace) like the real API
+    let text = "";
+    for (const token of reply.match(/\S+\s*/g) || []) {
+      if (signal?.aborted) break;
+      text += token;
+      onChunk?.(text);
+      await delay(MOCK_CHUNK_MS);
+    }
+    onUsage?.(mockChatUsage(message, history, attachmentBase64, text));
+    return text;
+  },
+
+  async rephrasePrompt(prompt, _reason, { signal, onUsage } = {}) {
+    await delay(MOCK_LATENCY_MS, signal);
+    // Drop the flagged words, then any comma-separated part they leave empty
+    let text = prompt;
+    for (const term of findFlaggedTerms(prompt).reverse()) text = text.slice(0, term.start) + text.slice(term.end);
+    const parts = text
+      .split(",")
+      .map((part) => part.replace(/\s+/g, " ").trim())
+      .filter((part) => part && !/^(an?|the|and|with)$/i.test(part));
+    const reply = `${parts.join(", ") || "a serene landscape"}, tasteful, family-friendly`;
+    onUsage?.({ model: "gemini-2.5-flash", inputTokens: estimateTokens(prompt) + 60, outputTokens: estimateTokens(reply), images: 0 });
+    return reply;
+  },
+
+  async generateImage(prompt, model, aspectRatio, negativePrompt, { signal, onUsage, references, imageSize } = {}) {
+    await delay(MOCK_LATENCY_MS, signal);
+    assertImageAllowed(prompt);
+    const inputImages = references?.length || 0;
+    onUsage?.({ model, inputTokens: estimateTokens(`${prompt} ${negativePrompt || ""}`) + inputImages * IMAGE_INPUT_TOKENS, outputTokens: 0, images: 1 });
+    const roles = references?.map((reference) => reference.role).join(" + ");
+    return renderPlaceholder(roles ? `(${roles}) ${prompt}` : prompt, aspectRatio, resolveImageSize(model, imageSize));
+  },
+
+  async refineImage(base64Image, instruction, model = GenerationModel.Flash, { signal, mask, onUsage, references } = {}) {
+    await delay(MOCK_LATENCY_MS, signal);
+    assertImageAllowed(instruction);
+    const inputImages = (mask ? 2 : 1) + (references?.length || 0);
+    onUsage?.({ model, inputTokens: estimateTokens(instruction) + inputImages * IMAGE_INPUT_TOKENS, outputTokens: 0, images: 1 });
+    // Keep the original visible underneath, at its own proportions, so
+    // refinements read as edits. Masked edits get a full tint; compositing
+    // then keeps the tint inside the mask only.
+    const [width, height] = await refineDimensions(base64Image);
+    return svgDataUrl(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+        `<image href="${base64Image}" width="${width}" height="${height}" preserveAspectRatio="none"/>` +
+        (mask ? `<rect width="100%" height="100%" fill="#14b8a6" fill-opacity="0.45"/>` : "") +
+        `<rect y="${height - 120}" width="100%" height="120" fill="#0f172a" fill-opacity="0.75"/>` +
+        `<text x="50%" y="${height - 52}" text-anchor="middle" font-family="Inter, sans-serif" font-size="32" fill="#5eead4">${escapeXml(truncate(`Refined: ${instruction}`, 60))}</text>` +
+        `</svg>`
+    );
+  },
+
+  async analyzeImage(base64Image, prompt, { signal, onUsage } = {}) {
+    await delay(MOCK_LATENCY_MS, signal);
+    onUsage?.({ model: "gemini-2.5-flash", inputTokens: IMAGE_INPUT_TOKENS + estimateTokens(prompt || ""), outputTokens: 400, images: 0 });
+    const seed = hash(base64Image.slice(-256) + (prompt || ""));
+    const tags = [0, 1, 2, 3, 4].map((i) => pick(TAGS, seed, i * 2));
+    const scores = Object.fromEntries(
+      CRITIQUE_CATEGORIES.map((category, i) => [category, 5 + ((seed >>> (i * 3)) % 6)])
+    ) as Record<CritiqueCategory, number>;
+    return {
+      summary: "The composition is balanced, though the focal point could use stronger contrast.",
+      tags,
+      scores,
+      issues: ISSUES.filter((issue) => scores[issue.category] < 9),
+    };
+  },
+};
@@ -0,0 +1,106 @@
+import { AspectRatio, GenerationModel, ImageCritique, ImageSize, ReferenceImage } from "../../types";
+
+/**
+ * Provider interfaces the UI talks to instead of calling an SDK directly.
+ * Implementations: `geminiProvider` (live API) and `mockProvider` (offline).
+ */
+
+export interface ChatHistoryEntry {
+  role: string;
+  parts: { text?: string; inlineData?: { mimeType: string; data: string } }[];
+}
+
+/**
+ * What one model call consumed, as reported by the API (the mock makes up
+ * plausible numbers). services/usageMeter turns these into costs.
+ */
+export interface UsageReport {
+  model: string;
+  inputTokens: number;
+  /** Text and thinking output; generated images are counted in `images`. */
+  outputTokens: number;
+  images: number;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** Called once per model call with its usage, when the API reports it. */
+  onUsage?: (usage: UsageReport) => void;
+}
+
+export interface GenerateOptions extends RequestOptions {
+  /** Sent as extra image parts, each introduced by what to take from it. */
+  references?: Pick<ReferenceImage, "url" | "role">[];
+  /** Output size, if the model offers a choice; see services/modelRegistry. */
+  imageSize?: ImageSize;
+}
+
+export interface RefineOptions extends Omit<GenerateOptions, "imageSize"> {
+  /**
+   * Black-and-white PNG data URL, same aspect as the image. White marks the
+   * region the edit may touch; everything else should stay unchanged.
+   */
+  mask?: string;
+}
+
+/**
+ * A function call exactly as the model emitted it; see museTools for the
+ * declarations and for turning these into MuseToolCalls.
+ */
+export interface ToolCallRequest {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ChatStreamOptions extends RequestOptions {
+  /** Called with the accumulated reply text each time a chunk arrives. */
+  onChunk?: (textSoFar: string) => void;
+  /** Called once, after the reply, if the Muse asked to use tools. */
+  onToolCalls?: (calls: ToolCallRequest[]) => void;
+}
+
+export interface ChatProvider {
+  /**
+   * Resolves with the full reply, or the partial reply if aborted.
+   * Other failures reject with an AIError (see services/errors).
+   */
+  sendChatMessage(
+    message: string,
+    history: ChatHistoryEntry[],
+    attachmentBase64?: string,
+    options?: ChatStreamOptions
+  ): Promise<string>;
+  /**
+   * A safer wording of a prompt that came back without an image, keeping
+   * its intent. `reason` explains what was reported (finish reason etc.).
+   */
+  rephrasePrompt(prompt: string, reason: string, options?: RequestOptions): Promise<string>;
+}
+
+export interface ImageProvider {
+  generateImage(
+    prompt: string,
+    model: GenerationModel,
+    aspectRatio: AspectRatio,
+    negativePrompt?: string,
+    options?: GenerateOptions
+  ): Promise<string>;
+  /** Like generateImage, both reject with an AIError, e.g. "emptyImage". */
+  refineImage(
+    base64Image: string,
+    instruction: string,
+    model?: GenerationModel,
+    options?: RefineOptions
+  ): Promise<string>;
+  /**
+   * Structured critique; `prompt` lets the model judge prompt adherence.
+   * Rejects with an AIError on failure.
+   */
+  analyzeImage(base64Image: string, prompt?: string, options?: RequestOptions): Promise<ImageCritique>;
+}
+
+export interface AIProvider extends ChatProvider, ImageProvider {
+  name: string;
+  /** Whether the app must gate on API key selection before use. */
+  requiresApiKey: boolean;
+}
@@ -0,0 +1,112 @@
+import { ImageBlockDetails } from "./errors";
+
+/**
+ * Helpers for explaining image requests that came back without an image.
+ *
+ * The API says *that* something was blocked (and roughly which category),
+ * never which words did it, so flagged terms are a local best guess from
+ * a short list of words that commonly trip the filters.
+ */
+
+export type SensitiveTopic = "sexual" | "violence" | "weapons" | "hate" | "minors" | "realPeople";
+
+const SENSITIVE_TERMS: Record<SensitiveTopic, string[]> = {
+  sexual: ["nude", "naked", "nsfw", "explicit", "erotic", "topless", "lingerie", "seductive", "sexy", "undressed"],
+  violence: ["blood", "bloody", "gore", "gory", "corpse", "dead body", "decapitated", "dismembered", "mutilated", "murder", "torture", "massacre", "suicide", "wound"],
+  weapons: ["gun", "rifle", "pistol", "shotgun", "bomb", "grenade", "explosive", "shooting"],
+  hate: ["nazi", "swastika", "kkk", "white power"],
+  minors: ["child", "children", "kid", "kids", "toddler", "teen", "teenage", "minor", "schoolgirl", "schoolboy"],
+  realPeople: ["celebrity", "president", "prime minister", "politician", "famous"],
+};
+
+export const TOPIC_LABELS: Record<SensitiveTopic, string> = {
+  sexual: "Sexual content",
+  violence: "Violence or gore",
+  weapons: "Weapons",
+  hate: "Hateful symbols",
+  minors: "Minors",
+  realPeople: "Real people",
+};
+
+// Both the text and image variants map to the same label
+const HARM_CATEGORY_LABELS: Record<string, string> = {
+  HARASSMENT: "Harassment",
+  HATE_SPEECH: "Hate speech",
+  HATE: "Hate speech",
+  SEXUALLY_EXPLICIT: "Sexually explicit",
+  DANGEROUS_CONTENT: "Dangerous content",
+  CIVIC_INTEGRITY: "Civic integrity",
+};
+
+export const harmCategoryLabel = (category: string): string =>
+  HARM_CATEGORY_LABELS[category.replace(/^HARM_CATEGORY_(IMAGE_)?/, "")] || category;
+
+const FINISH_REASON_EXPLANATIONS: Record<string, string> = {
+  SAFETY: "The result was flagged by safety filters.",
+  IMAGE_SAFETY: "The generated image was flagged by safety filters.",
+  PROHIBITED_CONTENT: "The request touches on prohibited content.",
+  IMAGE_PROHIBITED_CONTENT: "The generated image contained prohibited content.",
+  BLOCKLIST: "The prompt contains a blocked term.",
+  SPII: "The request may involve sensitive personal information.",
+  RECITATION: "The result was too close to existing copyrighted material.",
+  NO_IMAGE: "The model answered with text instead of an image.",
+  MAX_TOKENS: "The model ran out of room before producing an image.",
+};
+
+/**
+ * One plain-language sentence on why no image came back.
+ */
+export const explainMissingImage = (details: ImageBlockDetails | undefined): string => {
+  if (details?.blockReason) return "Your prompt was blocked before anything was generated.";
+  if (details?.finishReason && FINISH_REASON_EXPLANATIONS[details.finishReason]) {
+    return FINISH_REASON_EXPLANATIONS[details.finishReason];
+  }
+  if (details?.modelText) return "The model replied with text instead of an image.";
+  return "The model finished without producing an image.";
+};
+
+export interface FlaggedTerm {
+  term: string;
+  topic: SensitiveTopic;
+  start: number;
+  end: number;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Words in `text` likely to trip the filters, in order of appearance.
+ */
+export const findFlaggedTerms = (text: string): FlaggedTerm[] => {
+  const found: FlaggedTerm[] = [];
+  for (const [topic, terms] of Object.entries(SENSITIVE_TERMS) as [SensitiveTopic, string[]][]) {
+    for (const term of terms) {
+      const pattern = new RegExp(`\\b${escapeRegExp(term)}\\b`, "gi");
+      let match;
+      while ((match = pattern.exec(text)) !== null) {
+        found.push({ term: match[0], topic, start: match.index, end: match.index + match[0].length });
+      }
+    }
+  }
+  // Drop overlapping matches, keeping the earlier (then longer) one
+  const kept: FlaggedTerm[] = [];
+  for (const term of found.sort((a, b) => a.start - b.start || b.end - a.end)) {
+    if (kept.length === 0 || term.start >= kept[kept.length - 1].end) kept.push(term);
+  }
+  return kept;
+};
+
+/**
+ * Split text into plain and flagged segments for highlighting.
+ */
+export const segmentFlaggedText = (text: string, flagged: FlaggedTerm[]): { text: string; flagged?: FlaggedTerm }[] => {
+  const segments: { text: string; flagged?: FlaggedTerm }[] = [];
+  let cursor = 0;
+  for (const term of flagged) {
+    if (term.start > cursor) segments.push({ text: text.slice(cursor, term.start) });
+    segments.push({ text: text.slice(term.start, term.end), flagged: term });
+    cursor = term.end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+  return segments;
+};
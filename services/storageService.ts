@@ -0,0 +1,359 @@
+import { Character, ChatMessage, ChatThread, GeneratedImage, ReferenceImage, Sender, StylePreset } from "../types";
+import { blobToDataUrl, dataUrlToBlob } from "./imageUtils";
+import { DEFAULT_PRESETS } from "./presetService";
+
+/**
+ * Local persistence layer backed by IndexedDB.
+ *
+ * Images and chat attachments are stored as Blobs rather than data URLs,
+ * which keeps them roughly 25% smaller and out of the JS heap until needed.
+ */
+
+const DB_NAME = "glowmint-muse";
+const DB_VERSION = 5;
+
+const IMAGES_STORE = "images";
+const CHATS_STORE = "chats";
+const SETTINGS_STORE = "settings";
+const PRESETS_STORE = "presets";
+const CHARACTERS_STORE = "characters";
+
+export const DEFAULT_THREAD_ID = "default";
+export const DEFAULT_THREAD_NAME = "Main Thread";
+
+// --- Stored record shapes ---
+
+interface StoredReference extends Omit<ReferenceImage, "url"> {
+  blob: Blob;
+}
+
+interface StoredImage extends Omit<GeneratedImage, "url" | "timestamp" | "references"> {
+  blob: Blob;
+  timestamp: number;
+  references?: StoredReference[];
+}
+
+interface StoredChatMessage extends Omit<ChatMessage, "attachment" | "timestamp" | "isThinking"> {
+  timestamp: number;
+  attachment?: Blob;
+}
+
+interface StoredChat {
+  id: string;
+  name: string;
+  messages: StoredChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface StoredPreset extends Omit<StylePreset, "updatedAt"> {
+  updatedAt: number;
+}
+
+interface StoredCharacter extends Omit<Character, "references" | "updatedAt"> {
+  references: Blob[];
+  updatedAt: number;
+}
+
+export interface StorageUsage {
+  imageCount: number;
+  imageBytes: number;
+  messageCount: number;
+  usage?: number; // Whole-origin usage reported by the browser
+  quota?: number;
+}
+
+// --- Schema migrations ---
+
+/**
+ * Upgrade steps keyed by the version they migrate TO.
+ * Every step between the stored version and DB_VERSION runs in order,
+ * so never edit an existing step: add a new one and bump DB_VERSION.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    const images = db.createObjectStore(IMAGES_STORE, { keyPath: "id" });
+    images.createIndex("timestamp", "timestamp");
+    db.createObjectStore(CHATS_STORE, { keyPath: "id" });
+    db.createObjectStore(SETTINGS_STORE);
+  },
+  // v2: transcripts became named conversation threads
+  2: (_db, tx) => {
+    const chats = tx.objectStore(CHATS_STORE);
+    chats.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const chat = cursor.value;
+      cursor.update({
+        ...chat,
+        name: chat.name || DEFAULT_THREAD_NAME,
+        createdAt: chat.createdAt || chat.messages[0]?.timestamp || chat.updatedAt,
+      });
+      cursor.continue();
+    };
+  },
+  // v3: images record how they were made, so lineage can be shown as a tree.
+  // Older refinements never stored their parent, so they become roots.
+  3: (_db, tx) => {
+    const images = tx.objectStore(IMAGES_STORE);
+    images.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const image = cursor.value;
+      if (!image.operation) {
+        const operation = image.source === "imported" ? "import" : image.prompt?.startsWith("Refined:") ? "refine" : "generate";
+        cursor.update({ ...image, operation });
+      }
+      cursor.continue();
+    };
+  },
+  // v4: style preset library, seeded with the built-ins
+  4: (db) => {
+    const presets = db.createObjectStore(PRESETS_STORE, { keyPath: "id" });
+    DEFAULT_PRESETS.forEach(({ updatedAt, ...rest }) => presets.put({ ...rest, updatedAt: updatedAt.getTime() }));
+  },
+  // v5: character library for @mentions
+  5: (db) => {
+    db.createObjectStore(CHARACTERS_STORE, { keyPath: "id" });
+  },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+          MIGRATIONS[version]?.(db, tx);
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab opened a newer schema: release our handle so it can upgrade.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  const tx = db.transaction(storeName, mode);
+  return promisify(fn(tx.objectStore(storeName)));
+};
+
+// --- Images ---
+
+const toStoredImage = ({ url, timestamp, references, ...rest }: GeneratedImage): StoredImage => ({
+  ...rest,
+  blob: dataUrlToBlob(url),
+  timestamp: timestamp.getTime(),
+  references: references?.map(({ url: refUrl, ...ref }) => ({ ...ref, blob: dataUrlToBlob(refUrl) })),
+});
+
+const fromStoredImage = async ({ blob, timestamp, references, ...rest }: StoredImage): Promise<GeneratedImage> => ({
+  ...rest,
+  url: await blobToDataUrl(blob),
+  timestamp: new Date(timestamp),
+  references:
+    references &&
+    (await Promise.all(references.map(async ({ blob: refBlob, ...ref }) => ({ ...ref, url: await blobToDataUrl(refBlob) })))),
+});
+
+/**
+ * Load every stored image, newest first (matching App's ordering).
+ */
+export const loadImages = async (): Promise<GeneratedImage[]> => {
+  const records = await withStore<StoredImage[]>(IMAGES_STORE, "readonly", (store) => store.getAll());
+  const images = await Promise.all(records.map(fromStoredImage));
+  return images.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+};
+
+export const saveImage = async (image: GeneratedImage): Promise<void> => {
+  await withStore(IMAGES_STORE, "readwrite", (store) => store.put(toStoredImage(image)));
+};
+
+/**
+ * Delete all images created before the cutoff.
+ * Returns the ids that were removed so callers can update in-memory state.
+ */
+export const purgeImagesOlderThan = async (cutoff: Date): Promise<string[]> => {
+  const range = IDBKeyRange.upperBound(cutoff.getTime(), true);
+  const ids = await withStore<IDBValidKey[]>(IMAGES_STORE, "readonly", (store) =>
+    store.index("timestamp").getAllKeys(range)
+  );
+  const db = await openDB();
+  const tx = db.transaction(IMAGES_STORE, "readwrite");
+  const store = tx.objectStore(IMAGES_STORE);
+  await Promise.all(ids.map((id) => promisify(store.delete(id))));
+  return ids as string[];
+};
+
+// --- Chat transcripts ---
+
+const toStoredMessage = ({ attachment, timestamp, isThinking, ...rest }: ChatMessage): StoredChatMessage => ({
+  ...rest,
+  timestamp: timestamp.getTime(),
+  attachment: attachment ? dataUrlToBlob(attachment) : undefined,
+});
+
+const fromStoredMessage = async ({ attachment, timestamp, ...rest }: StoredChatMessage): Promise<ChatMessage> => ({
+  ...rest,
+  sender: rest.sender as Sender,
+  timestamp: new Date(timestamp),
+  attachment: attachment ? await blobToDataUrl(attachment) : undefined,
+  // A tool call still running when the page closed will never finish
+  toolCalls: rest.toolCalls?.map((call) =>
+    call.status === "running" ? { ...call, status: "failed", error: "Interrupted before it finished." } : call
+  ),
+});
+
+/**
+ * Load every conversation thread, most recently updated first.
+ */
+export const loadThreads = async (): Promise<ChatThread[]> => {
+  const records = await withStore<StoredChat[]>(CHATS_STORE, "readonly", (store) => store.getAll());
+  const threads = await Promise.all(
+    records.map(async ({ messages, createdAt, updatedAt, ...rest }) => ({
+      ...rest,
+      messages: await Promise.all(messages.map(fromStoredMessage)),
+      createdAt: new Date(createdAt),
+      updatedAt: new Date(updatedAt),
+    }))
+  );
+  return threads.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const saveThread = async ({ messages, createdAt, updatedAt, ...rest }: ChatThread): Promise<void> => {
+  const record: StoredChat = {
+    ...rest,
+    // Never persist a half-finished reply
+    messages: messages.filter((m) => !m.isThinking).map(toStoredMessage),
+    createdAt: createdAt.getTime(),
+    updatedAt: updatedAt.getTime(),
+  };
+  await withStore(CHATS_STORE, "readwrite", (store) => store.put(record));
+};
+
+export const deleteThread = async (id: string): Promise<void> => {
+  await withStore(CHATS_STORE, "readwrite", (store) => store.delete(id));
+};
+
+// --- Style presets ---
+
+/**
+ * Load every preset, alphabetically.
+ */
+export const loadPresets = async (): Promise<StylePreset[]> => {
+  const records = await withStore<StoredPreset[]>(PRESETS_STORE, "readonly", (store) => store.getAll());
+  return records
+    .map(({ updatedAt, ...rest }) => ({ ...rest, updatedAt: new Date(updatedAt) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePreset = async ({ updatedAt, ...rest }: StylePreset): Promise<void> => {
+  await withStore(PRESETS_STORE, "readwrite", (store) => store.put({ ...rest, updatedAt: updatedAt.getTime() }));
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  await withStore(PRESETS_STORE, "readwrite", (store) => store.delete(id));
+};
+
+// --- Characters ---
+
+/**
+ * Load every character, alphabetically.
+ */
+export const loadCharacters = async (): Promise<Character[]> => {
+  const records = await withStore<StoredCharacter[]>(CHARACTERS_STORE, "readonly", (store) => store.getAll());
+  const characters = await Promise.all(
+    records.map(async ({ references, updatedAt, ...rest }) => ({
+      ...rest,
+      references: await Promise.all(references.map(blobToDataUrl)),
+      updatedAt: new Date(updatedAt),
+    }))
+  );
+  return characters.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveCharacter = async ({ references, updatedAt, ...rest }: Character): Promise<void> => {
+  const record: StoredCharacter = { ...rest, references: references.map(dataUrlToBlob), updatedAt: updatedAt.getTime() };
+  await withStore(CHARACTERS_STORE, "readwrite", (store) => store.put(record));
+};
+
+export const deleteCharacter = async (id: string): Promise<void> => {
+  await withStore(CHARACTERS_STORE, "readwrite", (store) => store.delete(id));
+};
+
+// --- Settings (small key/value pairs) ---
+
+export const loadSetting = async <T>(key: string): Promise<T | undefined> => {
+  return withStore<T | undefined>(SETTINGS_STORE, "readonly", (store) => store.get(key));
+};
+
+export const saveSetting = async <T>(key: string, value: T): Promise<void> => {
+  await withStore(SETTINGS_STORE, "readwrite", (store) => store.put(value, key));
+};
+
+// --- Whole workspace ---
+
+/**
+ * Delete every image, thread, preset and character (settings and usage
+ * stay), e.g. before a project bundle replaces the workspace.
+ */
+export const clearWorkspace = async (): Promise<void> => {
+  const db = await openDB();
+  const storeNames = [IMAGES_STORE, CHATS_STORE, PRESETS_STORE, CHARACTERS_STORE];
+  const tx = db.transaction(storeNames, "readwrite");
+  await Promise.all(storeNames.map((name) => promisify(tx.objectStore(name).clear())));
+};
+
+// --- Usage ---
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const images = await withStore<StoredImage[]>(IMAGES_STORE, "readonly", (store) => store.getAll());
+  const chats = await withStore<StoredChat[]>(CHATS_STORE, "readonly", (store) => store.getAll());
+
+  const usage: StorageUsage = {
+    imageCount: images.length,
+    imageBytes: images.reduce(
+      (sum, img) => sum + img.blob.size + (img.references || []).reduce((refs, ref) => refs + ref.blob.size, 0),
+      0
+    ),
+    messageCount: chats.reduce((sum, chat) => sum + chat.messages.length, 0),
+  };
+
+  if (navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    usage.usage = estimate.usage;
+    usage.quota = estimate.quota;
+  }
+  return usage;
+};
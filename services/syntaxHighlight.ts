@@ -0,0 +1,118 @@
+/**
+ * Lightweight syntax highlighting for fenced code in chat: a single regex
+ * pass per language that picks out comments, strings, numbers and keywords.
+ * It's not a parser, just enough colour to make snippets readable.
+ * Unknown languages come back as one plain token.
+ */
+
+export type CodeTokenKind = "plain" | "comment" | "string" | "number" | "keyword" | "literal" | "tag";
+
+export interface CodeToken {
+  kind: CodeTokenKind;
+  text: string;
+}
+
+interface Grammar {
+  pattern: RegExp; // Groups: comment, string, number, tag, word
+  keywords: Set<string>;
+  literals: Set<string>;
+  ignoreCase: boolean; // For keywords, e.g. SQL
+}
+
+const NUMBER = String.raw`\b(?:0x[\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)\b`;
+const QUOTED = String.raw`"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'`;
+const NEVER = "(?!)";
+
+const grammar = (
+  parts: { comment?: string; string?: string; number?: string; tag?: string; word?: string },
+  keywords = "",
+  literals = "",
+  ignoreCase = false
+): Grammar => ({
+  pattern: new RegExp(
+    [parts.comment, parts.string ?? QUOTED, parts.number ?? NUMBER, parts.tag, parts.word ?? String.raw`[A-Za-z_$][\w$]*`]
+      .map((part) => `(${part ?? NEVER})`)
+      .join("|"),
+    "g"
+  ),
+  keywords: new Set(keywords.split(" ").filter(Boolean)),
+  literals: new Set(literals.split(" ").filter(Boolean)),
+  ignoreCase,
+});
+
+const JAVASCRIPT = grammar(
+  { comment: String.raw`\/\/[^\n]*|\/\*[\s\S]*?\*\/`, string: String.raw`${QUOTED}|\`(?:[^\`\\]|\\.)*\`` },
+  "as async await break case catch class const continue default delete do else enum export extends finally for from function if implements import in instanceof interface let new of private protected public readonly return static super switch this throw try type typeof var void while yield",
+  "true false null undefined NaN Infinity"
+);
+
+const PYTHON = grammar(
+  { comment: "#[^\\n]*", string: String.raw`"""[\s\S]*?"""|'''[\s\S]*?'''|${QUOTED}` },
+  "and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield",
+  "True False None self"
+);
+
+const SHELL = grammar(
+  { comment: String.raw`(?:^|(?<=\s))#[^\n]*`, word: String.raw`\$\{?[A-Za-z_][\w]*\}?|[A-Za-z_][\w-]*` },
+  "if then else elif fi for while until do done case esac function in return export local readonly source echo cd sudo",
+  ""
+);
+
+const CSS = grammar(
+  { comment: String.raw`\/\*[\s\S]*?\*\/`, number: String.raw`#[\da-fA-F]{3,8}\b|-?\b\d+(?:\.\d+)?(?:px|em|rem|%|vh|vw|s|ms|deg|fr)?`, word: String.raw`@?[A-Za-z-][\w-]*` },
+  "@media @import @keyframes @font-face @supports",
+  "inherit initial unset none auto"
+);
+
+const JSON_GRAMMAR = grammar({}, "", "true false null");
+
+const HTML = grammar({ comment: String.raw`<!--[\s\S]*?-->`, number: NEVER, tag: String.raw`<\/?[A-Za-z][\w-]*|\/?>`, word: NEVER });
+
+const SQL = grammar(
+  { comment: String.raw`--[^\n]*|\/\*[\s\S]*?\*\/` },
+  "select from where join left right inner outer on group by order having limit offset insert into values update set delete create table alter drop index as and or not in is like between distinct union all case when then else end primary key references",
+  "null true false",
+  true
+);
+
+const LANGUAGES: Record<string, Grammar> = {
+  js: JAVASCRIPT, javascript: JAVASCRIPT, jsx: JAVASCRIPT, mjs: JAVASCRIPT,
+  ts: JAVASCRIPT, typescript: JAVASCRIPT, tsx: JAVASCRIPT,
+  py: PYTHON, python: PYTHON,
+  sh: SHELL, bash: SHELL, shell: SHELL, zsh: SHELL, console: SHELL,
+  css: CSS, scss: CSS,
+  json: JSON_GRAMMAR, jsonc: JAVASCRIPT,
+  html: HTML, xml: HTML, svg: HTML,
+  sql: SQL,
+};
+
+export const highlightCode = (code: string, language?: string): CodeToken[] => {
+  const key = language?.toLowerCase();
+  const rules = key && Object.hasOwn(LANGUAGES, key) ? LANGUAGES[key] : undefined;
+  if (!rules) return [{ kind: "plain", text: code }];
+
+  const tokens: CodeToken[] = [];
+  const push = (kind: CodeTokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  let last = 0;
+  for (const match of code.matchAll(rules.pattern)) {
+    const [text, comment, string, number, tag] = match;
+    if (!text) continue;
+    if (match.index! > last) push("plain", code.slice(last, match.index));
+    if (comment) push("comment", text);
+    else if (string) push("string", text);
+    else if (number) push("number", text);
+    else if (tag) push("tag", text);
+    else {
+      const word = rules.ignoreCase ? text.toLowerCase() : text;
+      push(rules.keywords.has(word) ? "keyword" : rules.literals.has(word) ? "literal" : "plain", text);
+    }
+    last = match.index! + text.length;
+  }
+  if (last < code.length) push("plain", code.slice(last));
+  return tokens;
+};
@@ -0,0 +1,103 @@
+import { useSyncExternalStore } from "react";
+import { AIErrorKind, classifyError, ERROR_GUIDANCE } from "./errors";
+import { JobCancelledError } from "./jobQueue";
+
+/**
+ * Non-blocking notifications. Identical toasts that are still visible are
+ * merged (with a count) so a failing batch of variations shows one toast.
+ */
+
+export interface ToastAction {
+  label: string;
+  run: () => void;
+}
+
+export interface Toast {
+  id: string;
+  kind: AIErrorKind | "info";
+  title: string;
+  message: string;
+  nextStep?: string;
+  action?: ToastAction;
+  count: number;
+}
+
+export interface ToastRequest extends Omit<Toast, "id" | "count"> {
+  /** Stay until dismissed instead of timing out. */
+  sticky?: boolean;
+}
+
+export const createToastStore = ({ durationMs }: { durationMs: number }) => {
+  let toasts: Toast[] = [];
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const listeners = new Set<() => void>();
+  let nextId = 0;
+
+  const emit = () => listeners.forEach((listener) => listener());
+
+  const dismiss = (id: string) => {
+    clearTimeout(timers.get(id));
+    timers.delete(id);
+    toasts = toasts.filter((toast) => toast.id !== id);
+    emit();
+  };
+
+  const schedule = (id: string, sticky?: boolean) => {
+    clearTimeout(timers.get(id));
+    if (!sticky) timers.set(id, setTimeout(() => dismiss(id), durationMs));
+  };
+
+  const show = ({ sticky, ...request }: ToastRequest): string => {
+    const existing = toasts.find(
+      (toast) => toast.kind === request.kind && toast.title === request.title && toast.message === request.message
+    );
+    if (existing) {
+      toasts = toasts.map((toast) => (toast.id === existing.id ? { ...toast, count: toast.count + 1 } : toast));
+      schedule(existing.id, sticky);
+      emit();
+      return existing.id;
+    }
+    const id = `toast-${Date.now()}-${nextId++}`;
+    toasts = [...toasts, { ...request, id, count: 1 }];
+    schedule(id, sticky);
+    emit();
+    return id;
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const getToasts = () => toasts;
+
+  return { show, dismiss, subscribe, getToasts };
+};
+
+export type ToastStore = ReturnType<typeof createToastStore>;
+
+export const toasts = createToastStore({ durationMs: 8000 });
+
+export const useToasts = (store: ToastStore = toasts): Toast[] => useSyncExternalStore(store.subscribe, store.getToasts);
+
+/**
+ * Explain a failed model call with its specific next step. Cancellations
+ * are silent. Auth errors offer to reconnect the key when AI Studio's key
+ * picker is available, and stay up until dismissed.
+ */
+export const notifyError = (error: unknown, context?: string) => {
+  if (error instanceof JobCancelledError) return;
+  const { kind, message } = classifyError(error);
+  const { title, nextStep } = ERROR_GUIDANCE[kind];
+  const canReconnect = kind === "auth" && !!window.aistudio?.openSelectKey;
+  toasts.show({
+    kind,
+    title: context ? `${context}: ${title}` : title,
+    message,
+    nextStep,
+    action: canReconnect ? { label: "Reconnect key", run: () => window.aistudio?.openSelectKey() } : undefined,
+    sticky: kind === "auth",
+  });
+};
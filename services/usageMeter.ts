@@ -0,0 +1,197 @@
+import { useSyncExternalStore } from "react";
+import { IMAGE_MODELS, MODEL_CAPABILITIES } from "./modelRegistry";
+import type { UsageReport } from "./providers/types";
+
+/**
+ * Usage and cost metering.
+ *
+ * Every model call reports a UsageReport (see RequestOptions.onUsage); the
+ * meter prices it with an editable table and keeps per-model totals for the
+ * current session and for each day. Costs are estimates: the table holds
+ * list prices in USD and may drift from your actual bill.
+ */
+
+export interface ModelPrice {
+  inputPerMillion: number; // USD per 1M input tokens
+  outputPerMillion: number; // USD per 1M text/thinking output tokens
+  perImage: number; // USD per generated image
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  "gemini-2.5-flash": { inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0 },
+  ...Object.fromEntries(IMAGE_MODELS.map((model) => [model, MODEL_CAPABILITIES[model].price])),
+};
+
+export interface ModelUsage {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  cost: number;
+}
+
+export type UsageTotals = Record<string, ModelUsage>;
+
+export interface UsageBudget {
+  session?: number; // USD, undefined = no limit
+  daily?: number;
+  /** Warn asks before going over; block refuses outright. */
+  mode: "warn" | "block";
+}
+
+export interface UsageState {
+  session: UsageTotals;
+  days: Record<string, UsageTotals>; // Keyed by local date, YYYY-MM-DD
+  prices: PriceTable;
+  budget: UsageBudget;
+}
+
+/** The parts worth keeping across reloads (session totals are not). */
+export type SavedUsage = Pick<UsageState, "days" | "prices" | "budget">;
+
+export interface BudgetOverrun {
+  period: "session" | "daily";
+  limit: number;
+  projected: number;
+}
+
+// Rough input size of one attached image, for estimates before a call
+export const IMAGE_INPUT_TOKENS = 1290;
+
+const DAYS_KEPT = 30;
+
+const EMPTY_USAGE: ModelUsage = { calls: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0 };
+
+export const dayKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+/**
+ * Estimated USD cost of a call. Models missing from the table cost 0.
+ */
+export const estimateCost = (usage: Omit<UsageReport, "model">, price: ModelPrice | undefined): number => {
+  if (!price) return 0;
+  return (
+    (usage.inputTokens / 1_000_000) * price.inputPerMillion +
+    (usage.outputTokens / 1_000_000) * price.outputPerMillion +
+    usage.images * price.perImage
+  );
+};
+
+const addUsage = (totals: UsageTotals, model: string, usage: Omit<UsageReport, "model">, cost: number): UsageTotals => {
+  const current = totals[model] || EMPTY_USAGE;
+  return {
+    ...totals,
+    [model]: {
+      calls: current.calls + 1,
+      inputTokens: current.inputTokens + usage.inputTokens,
+      outputTokens: current.outputTokens + usage.outputTokens,
+      images: current.images + usage.images,
+      cost: current.cost + cost,
+    },
+  };
+};
+
+/**
+ * Sum per-model totals into one ModelUsage.
+ */
+export const sumUsage = (totals: UsageTotals | undefined): ModelUsage =>
+  Object.values(totals || {}).reduce(
+    (sum, usage) => ({
+      calls: sum.calls + usage.calls,
+      inputTokens: sum.inputTokens + usage.inputTokens,
+      outputTokens: sum.outputTokens + usage.outputTokens,
+      images: sum.images + usage.images,
+      cost: sum.cost + usage.cost,
+    }),
+    EMPTY_USAGE
+  );
+
+const mergeTotals = (a: UsageTotals, b: UsageTotals): UsageTotals => {
+  const merged = { ...a };
+  for (const [model, usage] of Object.entries(b)) {
+    merged[model] = sumUsage({ a: merged[model] || EMPTY_USAGE, b: usage });
+  }
+  return merged;
+};
+
+export const createUsageMeter = (now: () => Date = () => new Date()) => {
+  let state: UsageState = { session: {}, days: {}, prices: DEFAULT_PRICES, budget: { mode: "warn" } };
+  const listeners = new Set<() => void>();
+
+  const setState = (next: UsageState) => {
+    state = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  const record = ({ model, ...usage }: UsageReport) => {
+    const cost = estimateCost(usage, state.prices[model]);
+    const today = dayKey(now());
+    const days = { ...state.days, [today]: addUsage(state.days[today] || {}, model, usage, cost) };
+    // Drop days past the retention window (keys sort chronologically)
+    const keep = Object.keys(days).sort().slice(-DAYS_KEPT);
+    setState({
+      ...state,
+      session: addUsage(state.session, model, usage, cost),
+      days: Object.fromEntries(keep.map((key) => [key, days[key]])),
+    });
+  };
+
+  /**
+   * The budget a call costing `estimate` would go over, or null if it fits.
+   */
+  const checkBudget = (estimate: number): BudgetOverrun | null => {
+    const { session, daily } = state.budget;
+    const sessionProjected = sumUsage(state.session).cost + estimate;
+    if (session !== undefined && sessionProjected > session) {
+      return { period: "session", limit: session, projected: sessionProjected };
+    }
+    const dailyProjected = sumUsage(state.days[dayKey(now())]).cost + estimate;
+    if (daily !== undefined && dailyProjected > daily) {
+      return { period: "daily", limit: daily, projected: dailyProjected };
+    }
+    return null;
+  };
+
+  const restore = (saved: Partial<SavedUsage>) => {
+    setState({
+      ...state,
+      // Calls made before the saved state loaded are added on top
+      days: Object.fromEntries(
+        [...new Set([...Object.keys(saved.days || {}), ...Object.keys(state.days)])].map((key) => [
+          key,
+          mergeTotals(saved.days?.[key] || {}, state.days[key] || {}),
+        ])
+      ),
+      prices: { ...DEFAULT_PRICES, ...saved.prices },
+      budget: { ...state.budget, ...saved.budget },
+    });
+  };
+
+  const setPrices = (prices: PriceTable) => setState({ ...state, prices });
+
+  const setBudget = (budget: UsageBudget) => setState({ ...state, budget });
+
+  const resetSession = () => setState({ ...state, session: {} });
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const getState = () => state;
+
+  return { record, checkBudget, restore, setPrices, setBudget, resetSession, subscribe, getState };
+};
+
+export type UsageMeter = ReturnType<typeof createUsageMeter>;
+
+/**
+ * App-wide meter fed by the metered provider.
+ */
+export const usageMeter = createUsageMeter();
+
+export const useUsage = (meter: UsageMeter = usageMeter): UsageState => useSyncExternalStore(meter.subscribe, meter.getState);
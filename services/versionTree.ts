@@ -0,0 +1,48 @@
+import { GeneratedImage } from "../types";
+
+/**
+ * Lineage helpers for the version tree. Images link to the version they were
+ * derived from via `parentId`; a parent that was purged simply ends the chain.
+ */
+
+export interface VersionNode {
+  image: GeneratedImage;
+  depth: number;
+  children: VersionNode[];
+}
+
+/**
+ * Children of every image, oldest first so branches read in creation order.
+ */
+export const indexChildren = (images: GeneratedImage[]): Map<string, GeneratedImage[]> => {
+  const children = new Map<string, GeneratedImage[]>();
+  for (const image of images) {
+    if (!image.parentId) continue;
+    const siblings = children.get(image.parentId) || [];
+    siblings.push(image);
+    children.set(image.parentId, siblings);
+  }
+  children.forEach((siblings) => siblings.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()));
+  return children;
+};
+
+export const findRoot = (image: GeneratedImage, byId: Map<string, GeneratedImage>): GeneratedImage => {
+  let current = image;
+  const seen = new Set<string>();
+  while (current.parentId && byId.has(current.parentId) && !seen.has(current.id)) {
+    seen.add(current.id);
+    current = byId.get(current.parentId)!;
+  }
+  return current;
+};
+
+export const buildVersionTree = (root: GeneratedImage, children: Map<string, GeneratedImage[]>, depth = 0): VersionNode => ({
+  image: root,
+  depth,
+  children: (children.get(root.id) || []).map((child) => buildVersionTree(child, children, depth + 1)),
+});
+
+/**
+ * Depth-first order, i.e. the order rows appear in the tree view.
+ */
+export const flattenTree = (node: VersionNode): VersionNode[] => [node, ...node.children.flatMap(flattenTree)];
@@ -0,0 +1,98 @@
+import { deflateRawSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { createZip, readZip } from "./zipArchive";
+import { crc32 } from "./imageMetadata";
+
+const LIMITS = { maxEntries: 100, maxTotalSize: 1024 * 1024 };
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+/**
+ * A one-entry deflated archive whose headers declare `declaredSize` for
+ * `content`, to test what other tools (or attackers) can produce.
+ */
+const deflatedZip = (content: Uint8Array, declaredSize = content.length): Uint8Array => {
+  const name = new TextEncoder().encode("data.bin");
+  const packed = deflateRawSync(content);
+  const crc = crc32(content);
+
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint16(8, 8, true);
+  local.setUint32(14, crc, true);
+  local.setUint32(18, packed.length, true);
+  local.setUint32(22, declaredSize, true);
+  local.setUint16(26, name.length, true);
+
+  const central = new DataView(new ArrayBuffer(46));
+  central.setUint32(0, 0x02014b50, true);
+  central.setUint16(10, 8, true);
+  central.setUint32(16, crc, true);
+  central.setUint32(20, packed.length, true);
+  central.setUint32(24, declaredSize, true);
+  central.setUint16(28, name.length, true);
+
+  const directoryOffset = 30 + name.length + packed.length;
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, 1, true);
+  end.setUint16(10, 1, true);
+  end.setUint32(12, 46 + name.length, true);
+  end.setUint32(16, directoryOffset, true);
+
+  const parts = [new Uint8Array(local.buffer), name, packed, new Uint8Array(central.buffer), name, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+describe("createZip / readZip", () => {
+  it("round-trips text and binary entries with UTF-8 names", async () => {
+    const binary = Uint8Array.from({ length: 300 }, (_, i) => i % 256);
+    const zip = await bytesOf(createZip([
+      { name: "manifest.json", data: '{"ok":true}' },
+      { name: "images/001-café.png", data: binary },
+    ]));
+
+    const files = await readZip(zip, LIMITS);
+    expect([...files.keys()]).toEqual(["manifest.json", "images/001-café.png"]);
+    expect(new TextDecoder().decode(files.get("manifest.json"))).toBe('{"ok":true}');
+    expect(files.get("images/001-café.png")).toEqual(binary);
+  });
+
+  it("reads deflated entries written by other tools", async () => {
+    const content = new TextEncoder().encode("glowmint ".repeat(500));
+    const files = await readZip(deflatedZip(content), LIMITS);
+    expect(files.get("data.bin")).toEqual(content);
+  });
+
+  it("rejects damaged and truncated archives", async () => {
+    const zip = await bytesOf(createZip([{ name: "a.txt", data: "hello world" }]));
+    const corrupted = Uint8Array.from(zip);
+    corrupted[30 + "a.txt".length] ^= 0xff; // First byte of the entry's data
+
+    await expect(readZip(corrupted, LIMITS)).rejects.toThrow("checksum mismatch");
+    await expect(readZip(zip.subarray(0, zip.length - 10), LIMITS)).rejects.toThrow("not a ZIP archive");
+    await expect(readZip(new TextEncoder().encode("not a zip"), LIMITS)).rejects.toThrow("not a ZIP archive");
+  });
+
+  it("enforces the entry and size limits from the directory", async () => {
+    const zip = await bytesOf(createZip([
+      { name: "a.txt", data: "a".repeat(600) },
+      { name: "b.txt", data: "b".repeat(600) },
+    ]));
+    await expect(readZip(zip, { maxEntries: 1, maxTotalSize: 10_000 })).rejects.toThrow("at most 1 are allowed");
+    await expect(readZip(zip, { maxEntries: 10, maxTotalSize: 1000 })).rejects.toThrow("more data than is allowed");
+  });
+
+  it("stops inflating an entry that understates its size", async () => {
+    // 20 MB of zeros packs into ~20 KB; the headers claim 10 bytes
+    const bomb = deflatedZip(new Uint8Array(20 * 1024 * 1024), 10);
+    expect(bomb.length).toBeLessThan(100_000);
+    await expect(readZip(bomb, LIMITS)).rejects.toThrow("unpacks to more data than the archive declares");
+  });
+});
@@ -0,0 +1,210 @@
+import { crc32 } from "./imageMetadata";
+
+/**
+ * Minimal ZIP reader and writer for files built and opened in the browser.
+ * Written entries are stored uncompressed: images are already compressed,
+ * and the JSON alongside them is small. Reading also accepts deflated
+ * entries, so an archive repacked by another tool still opens. No ZIP64,
+ * so an archive must stay under 4 GB and 65,535 entries.
+ */
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, "/"-separated
+  data: Uint8Array | string; // Strings are written as UTF-8
+  modified?: Date;
+}
+
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+const UTF8_NAMES = 0x0800; // General purpose flag bit 11
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// MS-DOS date and time, local time, 2-second resolution, years 1980–2107
+const dosDateTime = (date: Date): { time: number; date: number } => {
+  const year = Math.min(2107, Math.max(1980, date.getFullYear()));
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+/**
+ * Pack `entries` into a ZIP file. Duplicate names are the caller's problem.
+ */
+export const createZip = (entries: ZipEntry[]): Blob => {
+  if (entries.length > MAX_ENTRIES) throw new Error(`A ZIP can hold at most ${MAX_ENTRIES} files.`);
+
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+    const { time, date } = dosDateTime(entry.modified || new Date());
+    if (offset + 30 + name.length + data.length > MAX_SIZE) throw new Error("The archive would be larger than 4 GB.");
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true); // Local file header signature
+    lv.setUint16(4, 20, true); // Version needed: 2.0
+    lv.setUint16(6, UTF8_NAMES, true);
+    lv.setUint16(8, 0, true); // Method: stored
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true); // Compressed size
+    lv.setUint32(22, data.length, true); // Uncompressed size
+    lv.setUint16(26, name.length, true);
+    lv.setUint16(28, 0, true); // Extra field length
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true); // Central directory header signature
+    cv.setUint16(4, 20, true); // Version made by
+    cv.setUint16(6, 20, true); // Version needed
+    cv.setUint16(8, UTF8_NAMES, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    // Extra/comment lengths, disk number and attributes stay zero
+    cv.setUint32(42, offset, true); // Offset of the local header
+    central.set(name, 46);
+
+    parts.push(local, data);
+    directory.push(central);
+    offset += local.length + data.length;
+  }
+
+  const directorySize = directory.reduce((sum, header) => sum + header.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true); // End of central directory signature
+  ev.setUint16(8, entries.length, true); // Entries on this disk
+  ev.setUint16(10, entries.length, true); // Entries in total
+  ev.setUint32(12, directorySize, true);
+  ev.setUint32(16, offset, true); // Central directory offset
+
+  return new Blob([...parts, ...directory, end], { type: "application/zip" });
+};
+
+export interface ReadZipLimits {
+  maxEntries: number;
+  maxTotalSize: number; // Uncompressed bytes across all entries
+}
+
+class ZipSizeError extends Error {}
+
+/**
+ * Inflate chunk by chunk and give up as soon as the output passes `maxSize`,
+ * so an entry that understates its size can't fill memory first.
+ */
+const inflate = async (data: Uint8Array, maxSize: number): Promise<Uint8Array> => {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw")).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxSize) {
+      await reader.cancel().catch(() => undefined);
+      throw new ZipSizeError();
+    }
+    chunks.push(value);
+  }
+  const output = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+};
+
+/**
+ * Unpack a ZIP into a map of name → bytes. Checks every entry's CRC, so a
+ * truncated or damaged file fails here rather than as a broken image later.
+ * Limits are checked against the sizes the central directory declares, and
+ * inflating stops as soon as an entry outgrows its declared size or the
+ * total runs past `maxTotalSize`. Throws with a message fit for the user.
+ */
+export const readZip = async (bytes: Uint8Array, limits: ReadZipLimits): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The end record sits in the last 22 bytes, plus a comment of up to 64 KB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("The file is not a ZIP archive, or it was cut short.");
+
+  const count = view.getUint16(end + 10, true);
+  let pointer = view.getUint32(end + 16, true);
+  if (count > limits.maxEntries) throw new Error(`The archive has ${count} files; at most ${limits.maxEntries} are allowed.`);
+
+  const headers: { name: string; method: number; crc: number; compressedSize: number; size: number; offset: number }[] = [];
+  let totalSize = 0;
+  for (let i = 0; i < count; i++) {
+    if (pointer + 46 > bytes.length || view.getUint32(pointer, true) !== 0x02014b50) {
+      throw new Error("The archive's file list is damaged.");
+    }
+    const nameLength = view.getUint16(pointer + 28, true);
+    const header = {
+      name: decoder.decode(bytes.subarray(pointer + 46, pointer + 46 + nameLength)),
+      method: view.getUint16(pointer + 10, true),
+      crc: view.getUint32(pointer + 16, true),
+      compressedSize: view.getUint32(pointer + 20, true),
+      size: view.getUint32(pointer + 24, true),
+      offset: view.getUint32(pointer + 42, true),
+    };
+    totalSize += header.size;
+    if (totalSize > limits.maxTotalSize) throw new Error("The archive unpacks to more data than is allowed.");
+    headers.push(header);
+    pointer += 46 + nameLength + view.getUint16(pointer + 30, true) + view.getUint16(pointer + 32, true);
+  }
+
+  const files = new Map<string, Uint8Array>();
+  let unpacked = 0;
+  for (const header of headers) {
+    if (header.name.endsWith("/")) continue; // Directory entry
+    const local = header.offset;
+    if (local + 30 > bytes.length || view.getUint32(local, true) !== 0x04034b50) {
+      throw new Error(`The archive is damaged near "${header.name}".`);
+    }
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    if (start + header.compressedSize > bytes.length) throw new Error(`"${header.name}" is cut short.`);
+    const raw = bytes.subarray(start, start + header.compressedSize);
+
+    let data: Uint8Array;
+    if (header.method === 0) {
+      data = raw;
+    } else if (header.method === 8) {
+      data = await inflate(raw, Math.min(header.size, limits.maxTotalSize - unpacked)).catch((e) => {
+        throw new Error(
+          e instanceof ZipSizeError
+            ? `"${header.name}" unpacks to more data than the archive declares.`
+            : `"${header.name}" could not be decompressed.`
+        );
+      });
+    } else {
+      throw new Error(`"${header.name}" uses an unsupported compression method.`);
+    }
+    if (data.length !== header.size || crc32(data) !== header.crc) {
+      throw new Error(`"${header.name}" is corrupted (checksum mismatch).`);
+    }
+    unpacked += data.length;
+    files.set(header.name, data);
+  }
+  return files;
+};
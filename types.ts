@@ -3,6 +3,29 @@ export enum Sender {
   Gemini = 'gemini'
 }
 
+export type MuseToolName = 'generate_image' | 'refine_image' | 'analyze_image';
+
+/**
+ * A tool call the Muse asked for. Nothing runs until the user approves it.
+ */
+export interface MuseToolCall {
+  id: string;
+  name: MuseToolName;
+  args: {
+    prompt?: string;
+    count?: number;
+    aspectRatio?: AspectRatio;
+    model?: GenerationModel;
+    negativePrompt?: string;
+    instruction?: string;
+    imageId?: string; // Target for refine/analyze; defaults to the latest image
+  };
+  status: 'pending' | 'running' | 'done' | 'declined' | 'failed';
+  resultImageIds?: string[];
+  resultSummary?: string; // Fed back to the Muse in later turns
+  error?: string;
+}
+
 export interface ChatMessage {
   id: string;
   sender: Sender;
@@ -10,16 +33,82 @@ export interface ChatMessage {
   timestamp: Date;
   isThinking?: boolean;
   attachment?: string; // Base64 data URL
+  toolCalls?: MuseToolCall[];
+}
+
+export interface ChatThread {
+  id: string;
+  name: string;
+  messages: ChatMessage[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ImageOperation = 'generate' | 'refine' | 'import';
+
+export const CRITIQUE_CATEGORIES = ['composition', 'anatomy', 'lighting', 'promptAdherence'] as const;
+
+export type CritiqueCategory = typeof CRITIQUE_CATEGORIES[number];
+
+export interface CritiqueIssue {
+  category: CritiqueCategory;
+  severity: 'low' | 'medium' | 'high';
+  description: string;
+  fix: string; // Edit instruction that can be sent straight to refineImage
+}
+
+export interface ImageCritique {
+  summary: string;
+  tags: string[];
+  scores: Record<CritiqueCategory, number>; // 1–10
+  issues: CritiqueIssue[];
+}
+
+export const REFERENCE_ROLES = ['style', 'subject', 'composition'] as const;
+
+export type ReferenceRole = typeof REFERENCE_ROLES[number];
+
+export const MAX_REFERENCE_IMAGES = 4;
+
+/**
+ * An extra image sent along with a generation prompt, and what the model
+ * should take from it.
+ */
+export interface ReferenceImage {
+  id: string;
+  url: string; // Base64 data URL
+  role: ReferenceRole;
+  origin: 'history' | 'chat' | 'upload';
+  imageId?: string; // History image it was picked from
 }
 
 export interface GeneratedImage {
   id: string;
   url: string; // Base64 data URL
   prompt: string;
+  negativePrompt?: string;
   timestamp: Date;
   aspectRatio: string;
   model: string;
   source?: 'generated' | 'imported';
+  threadId?: string; // Conversation thread the image was created from
+  operation: ImageOperation; // How this version was produced
+  parentId?: string; // Image this version was derived from (refinements)
+  critique?: ImageCritique; // Latest structured critique, if one was run
+  references?: ReferenceImage[]; // Reference images the generation was conditioned on
+  characterIds?: string[]; // Library characters @mentioned in the prompt
+}
+
+/**
+ * A recurring character or subject. Mentioning `@name` in a prompt adds its
+ * description and reference images to the request.
+ */
+export interface Character {
+  id: string;
+  name: string; // Mention handle: letters, digits, - and _
+  description: string; // Canonical look, sent with every mention
+  references: string[]; // Base64 data URLs
+  updatedAt: Date;
 }
 
 export enum AspectRatio {
@@ -35,10 +124,29 @@ export enum GenerationModel {
   Pro = "gemini-3-pro-image-preview"
 }
 
+/** Output resolution; which sizes a model offers is in services/modelRegistry. */
+export enum ImageSize {
+  Standard = "1K",
+  High = "2K",
+  Ultra = "4K"
+}
+
 export interface GenerationConfig {
   aspectRatio: AspectRatio;
   model: GenerationModel;
+  imageSize?: ImageSize; // Unset or unsupported: the model's default
+  negativePrompt?: string;
+  variationCount?: number; // 1–8 images per Generate click
+}
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  template: string; // Prompt with {{variable}} placeholders, e.g. "{{subject}}, 35mm film"
   negativePrompt?: string;
+  model?: GenerationModel; // Preferred settings, applied along with the prompt
+  aspectRatio?: AspectRatio;
+  updatedAt: Date;
 }
 
 declare global {
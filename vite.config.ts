@@ -4,15 +4,24 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // loadEnv also reads the shell, so in proxied mode the key must be kept
+    // out explicitly: the proxy holds it and the bundle never needs it
+    const apiKey = env.API_PROXY_URL ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Forward /api to the local backend (npm run server) in proxied mode
+        proxy: {
+          '/api': env.PROXY_TARGET || 'http://localhost:8787',
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey ?? ''),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey ?? ''),
+        'process.env.API_PROXY_URL': JSON.stringify(env.API_PROXY_URL || ''),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || 'gemini')
       },
       resolve: {
         alias: {